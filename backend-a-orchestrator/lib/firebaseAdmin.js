@@ -1,6 +1,7 @@
 const admin = require('firebase-admin');
 
 let cachedAuthClient = null;
+let cachedFirestoreClient = null;
 
 function parseServiceAccount() {
   const jsonEnv = process.env.FIREBASE_SERVICE_ACCOUNT_JSON;
@@ -79,6 +80,18 @@ function getFirebaseAuthClient() {
   return cachedAuthClient;
 }
 
+// Used by the one-off scripts that migrate dashboard documents.
+function getFirestoreClient() {
+  if (cachedFirestoreClient) {
+    return cachedFirestoreClient;
+  }
+
+  initializeFirebaseApp();
+  cachedFirestoreClient = admin.firestore();
+  return cachedFirestoreClient;
+}
+
 module.exports = {
   getFirebaseAuthClient,
+  getFirestoreClient,
 };
@@ -1,4 +1,4 @@
-const { getFirebaseAuthClient } = require('../lib/firebaseAdmin');
+const firebaseAdmin = require('../lib/firebaseAdmin');
 
 const DEFAULT_MANAGER_ROLE_CLAIMS = ['admin', 'projectManager', 'manager'];
 const DEFAULT_MANAGER_ROLE_VALUES = ['admin', 'project_manager', 'manager'];
@@ -85,66 +85,105 @@ function decodedTokenHasManagerAccess(decodedToken) {
   return false;
 }
 
-async function requireFirebaseManager(req, res, next) {
+// Verifies the request's Firebase ID token. Sends the error response and resolves to null when
+// the token is missing, invalid or cannot be checked.
+async function verifyFirebaseRequest(req, res) {
   const token = extractBearerToken(req.headers.authorization);
   if (!token) {
-    return res.status(401).json({
+    res.status(401).json({
       success: false,
       errorCode: 'UNAUTHORIZED',
       message: 'Missing Firebase bearer token.',
     });
+    return null;
   }
 
   let authClient;
 
   try {
-    authClient = getFirebaseAuthClient();
+    authClient = firebaseAdmin.getFirebaseAuthClient();
   } catch (err) {
     if (err && err.code === 'FIREBASE_NOT_CONFIGURED') {
-      return res.status(503).json({
+      res.status(503).json({
         success: false,
         errorCode: 'FIREBASE_NOT_CONFIGURED',
         message:
           'Firebase role auth is unavailable because admin credentials are not configured.',
       });
+      return null;
     }
 
     console.error('Failed to initialize Firebase admin SDK', err);
-    return res.status(500).json({
+    res.status(500).json({
       success: false,
       errorCode: 'FIREBASE_INIT_FAILED',
       message: 'Unable to initialize Firebase role authentication.',
     });
+    return null;
   }
 
   try {
-    const decodedToken = await authClient.verifyIdToken(token, true);
-
-    if (!decodedTokenHasManagerAccess(decodedToken)) {
-      return res.status(403).json({
-        success: false,
-        errorCode: 'FORBIDDEN',
-        message:
-          'User lacks required manager role claim to review or close project intake.',
-      });
-    }
-
-    req.authUser = {
-      uid: decodedToken.uid,
-      email:
-        typeof decodedToken.email === 'string' ? decodedToken.email : undefined,
-    };
-
-    return next();
+    return await authClient.verifyIdToken(token, true);
   } catch (err) {
-    return res.status(401).json({
+    res.status(401).json({
       success: false,
       errorCode: 'UNAUTHORIZED',
       message: 'Invalid or expired Firebase token.',
     });
+    return null;
+  }
+}
+
+function toAuthUser(decodedToken) {
+  return {
+    uid: decodedToken.uid,
+    email:
+      typeof decodedToken.email === 'string' ? decodedToken.email : undefined,
+    name: typeof decodedToken.name === 'string' ? decodedToken.name : undefined,
+    isManager: decodedTokenHasManagerAccess(decodedToken),
+  };
+}
+
+async function requireFirebaseManager(req, res, next) {
+  const decodedToken = await verifyFirebaseRequest(req, res);
+  if (!decodedToken) {
+    return undefined;
   }
+
+  if (!decodedTokenHasManagerAccess(decodedToken)) {
+    return res.status(403).json({
+      success: false,
+      errorCode: 'FORBIDDEN',
+      message:
+        'User lacks required manager role claim to review or close project intake.',
+    });
+  }
+
+  req.authUser = toAuthUser(decodedToken);
+  return next();
+}
+
+// Any signed-in Firebase user with an email address. Used by volunteer-facing routes that
+// resolve the caller to their users row by email.
+async function requireFirebaseUser(req, res, next) {
+  const decodedToken = await verifyFirebaseRequest(req, res);
+  if (!decodedToken) {
+    return undefined;
+  }
+
+  if (typeof decodedToken.email !== 'string' || !decodedToken.email) {
+    return res.status(403).json({
+      success: false,
+      errorCode: 'FORBIDDEN',
+      message: 'Firebase account has no email address to match a volunteer.',
+    });
+  }
+
+  req.authUser = toAuthUser(decodedToken);
+  return next();
 }
 
 module.exports = {
   requireFirebaseManager,
+  requireFirebaseUser,
 };
@@ -1,6 +1,10 @@
 const express = require('express');
 const { z } = require('zod');
 const pool = require('../config/pool');
+const {
+  requireFirebaseManager,
+  requireFirebaseUser,
+} = require('../middleware/firebaseAuth');
 
 const router = express.Router();
 
@@ -12,26 +16,87 @@ const contributionSchema = z.object({
   evidenceUrl: z.string().url().max(2048).optional(),
 });
 
-router.post('/', async (req, res) => {
-  const parsed = contributionSchema.safeParse(req.body ?? {});
+// The signed-in volunteer's own entries: the user comes from the Firebase token, not the body.
+const volunteerContributionSchema = contributionSchema
+  .omit({ userId: true })
+  .extend({ impactType: contributionSchema.shape.impactType.default('hours') });
 
-  if (!parsed.success) {
-    return res.status(400).json({
-      success: false,
-      errorCode: 'VALIDATION_ERROR',
-      message: 'Invalid contribution payload.',
-      details: parsed.error.flatten(),
-    });
+// Hours a project lead credits to a volunteer, such as event attendance. The volunteer is
+// matched by email like POST /me, so the entry lands on their own ledger rather than the lead's.
+const creditedContributionSchema = volunteerContributionSchema.extend({
+  volunteerEmail: z.string().trim().email().max(320),
+  volunteerName: z.string().trim().min(1).max(200).optional(),
+});
+
+const transactionParamsSchema = z.object({
+  transactionId: z.string().uuid(),
+});
+
+const verificationSchema = z.object({
+  verified: z.boolean(),
+});
+
+// Finds the volunteer's users row by email, creating it on their first ledger entry.
+async function resolveVolunteerUserId(dbClient, volunteer) {
+  const email = volunteer.email.trim().toLowerCase();
+  const existing = await dbClient.query(
+    'SELECT id FROM users WHERE lower(email) = $1 ORDER BY created_at ASC LIMIT 1',
+    [email]
+  );
+  if (existing.rows.length > 0) {
+    return existing.rows[0].id;
+  }
+
+  const insertSql = `
+    INSERT INTO users (full_name, email)
+    VALUES ($1, $2)
+    ON CONFLICT (email)
+    DO UPDATE SET email = EXCLUDED.email
+    RETURNING id
+  `;
+
+  const result = await dbClient.query(insertSql, [
+    volunteer.name || email.split('@')[0],
+    email,
+  ]);
+  return result.rows[0].id;
+}
+
+// Managers only act on projects they lead, that is projects whose contact email is theirs.
+// Resolves to the error response to send, or null when the caller leads the project.
+async function findProjectLeadError(queryable, projectId, email) {
+  const result = await queryable.query('SELECT contact_email FROM projects WHERE id = $1', [projectId]);
+  if (result.rows.length === 0) {
+    return { status: 404, errorCode: 'PROJECT_NOT_FOUND', message: 'Project not found.' };
   }
 
-  const { userId, projectId, impactType, impactValue, evidenceUrl } = parsed.data;
+  const leadEmail = (result.rows[0].contact_email || '').trim().toLowerCase();
+  if (!leadEmail || leadEmail !== email.trim().toLowerCase()) {
+    return { status: 403, errorCode: 'PROJECT_LEAD_REQUIRED', message: 'Only the project lead can do this.' };
+  }
+  return null;
+}
+
+// leadEmail, when given, must be the project's lead; see findProjectLeadError.
+async function recordContribution(res, entry, resolveUserId, leadEmail) {
+  const { projectId, impactType, impactValue, evidenceUrl } = entry;
   let dbClient;
 
   try {
     dbClient = await pool.connect();
+    if (leadEmail) {
+      const leadError = await findProjectLeadError(dbClient, projectId, leadEmail);
+      if (leadError) {
+        const { status, ...body } = leadError;
+        return res.status(status).json({ success: false, ...body });
+      }
+    }
+
     await dbClient.query('BEGIN');
     await dbClient.query('SET LOCAL TRANSACTION ISOLATION LEVEL SERIALIZABLE');
 
+    const userId = await resolveUserId(dbClient);
+
     const insertSql = `
       INSERT INTO impact_ledger (
         user_id, project_id, impact_type, impact_value, evidence_url
@@ -98,6 +163,227 @@ router.post('/', async (req, res) => {
       dbClient.release();
     }
   }
+}
+
+router.post('/', async (req, res) => {
+  const parsed = contributionSchema.safeParse(req.body ?? {});
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      errorCode: 'VALIDATION_ERROR',
+      message: 'Invalid contribution payload.',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  const { userId, ...entry } = parsed.data;
+  return recordContribution(res, entry, async () => userId);
+});
+
+router.post('/me', requireFirebaseUser, async (req, res) => {
+  const parsed = volunteerContributionSchema.safeParse(req.body ?? {});
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      errorCode: 'VALIDATION_ERROR',
+      message: 'Invalid contribution payload.',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  return recordContribution(res, parsed.data, (dbClient) =>
+    resolveVolunteerUserId(dbClient, req.authUser)
+  );
+});
+
+router.post('/volunteer', requireFirebaseManager, async (req, res) => {
+  const parsed = creditedContributionSchema.safeParse(req.body ?? {});
+
+  if (!parsed.success) {
+    return res.status(400).json({
+      success: false,
+      errorCode: 'VALIDATION_ERROR',
+      message: 'Invalid contribution payload.',
+      details: parsed.error.flatten(),
+    });
+  }
+
+  const { volunteerEmail, volunteerName, ...entry } = parsed.data;
+  return recordContribution(
+    res,
+    entry,
+    (dbClient) => resolveVolunteerUserId(dbClient, { email: volunteerEmail, name: volunteerName }),
+    req.authUser.email || ''
+  );
+});
+
+// Ledger totals for the signed-in volunteer. Like GET /api/v1/stats, only verified entries count,
+// so a volunteer's figures add up to the platform total; pendingHours are awaiting review.
+router.get('/me/summary', requireFirebaseUser, async (req, res) => {
+  try {
+    const sql = `
+      SELECT
+        COUNT(l.transaction_id) FILTER (WHERE l.verified)::int AS entries,
+        COALESCE(SUM(l.impact_value) FILTER (WHERE l.verified AND l.impact_type = 'hours'), 0)::numeric(14,2) AS hours,
+        COALESCE(SUM(l.impact_value) FILTER (WHERE l.verified), 0)::numeric(14,2) AS total_impact,
+        COUNT(DISTINCT l.project_id) FILTER (WHERE l.verified)::int AS projects,
+        COALESCE(SUM(l.impact_value) FILTER (WHERE NOT l.verified AND l.impact_type = 'hours'), 0)::numeric(14,2) AS pending_hours
+      FROM impact_ledger l
+      JOIN users u ON u.id = l.user_id
+      WHERE lower(u.email) = $1
+    `;
+
+    const result = await pool.query(sql, [req.authUser.email.trim().toLowerCase()]);
+    const row = result.rows[0] || {};
+
+    return res.status(200).json({
+      entries: Number(row.entries || 0),
+      hours: Number(row.hours || 0),
+      totalImpact: Number(row.total_impact || 0),
+      projects: Number(row.projects || 0),
+      pendingHours: Number(row.pending_hours || 0),
+    });
+  } catch (err) {
+    console.error('Contribution summary query failed', err);
+    return res.status(500).json({
+      success: false,
+      errorCode: 'CONTRIBUTION_SUMMARY_FAILED',
+      message: 'Unable to load contribution totals.',
+    });
+  }
+});
+
+// Project leads verify entries after reviewing the volunteer's evidence. Unverified entries stay
+// on the ledger but are left out of stats. Only the lead of the entry's project can change it.
+router.patch('/:transactionId/verification', requireFirebaseManager, async (req, res) => {
+  const parsedParams = transactionParamsSchema.safeParse(req.params ?? {});
+  const parsedBody = verificationSchema.safeParse(req.body ?? {});
+
+  if (!parsedParams.success || !parsedBody.success) {
+    return res.status(400).json({
+      success: false,
+      errorCode: 'VALIDATION_ERROR',
+      message: 'Invalid contribution verification payload.',
+      details: {
+        params: parsedParams.success ? undefined : parsedParams.error.flatten(),
+        body: parsedBody.success ? undefined : parsedBody.error.flatten(),
+      },
+    });
+  }
+
+  try {
+    const entry = await pool.query(
+      'SELECT project_id FROM impact_ledger WHERE transaction_id = $1',
+      [parsedParams.data.transactionId]
+    );
+    if (entry.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        errorCode: 'CONTRIBUTION_NOT_FOUND',
+        message: 'Contribution not found.',
+      });
+    }
+
+    const leadError = await findProjectLeadError(
+      pool,
+      entry.rows[0].project_id,
+      req.authUser.email || ''
+    );
+    if (leadError) {
+      const { status, ...body } = leadError;
+      return res.status(status).json({ success: false, ...body });
+    }
+
+    const sql = `
+      UPDATE impact_ledger
+      SET verified = $1
+      WHERE transaction_id = $2
+      RETURNING transaction_id, verified
+    `;
+
+    const result = await pool.query(sql, [
+      parsedBody.data.verified,
+      parsedParams.data.transactionId,
+    ]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({
+        success: false,
+        errorCode: 'CONTRIBUTION_NOT_FOUND',
+        message: 'Contribution not found.',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      transactionId: result.rows[0].transaction_id,
+      verified: result.rows[0].verified,
+    });
+  } catch (err) {
+    console.error('Contribution verification failed', err);
+    return res.status(500).json({
+      success: false,
+      errorCode: 'CONTRIBUTION_VERIFICATION_FAILED',
+      message: 'Unable to update contribution verification.',
+    });
+  }
+});
+
+// Removes an entry whose dashboard record could not be saved, so it is not left on the ledger
+// without one. Volunteers can remove their own entries and managers entries on projects they
+// lead, but only while the entry is unverified.
+router.delete('/:transactionId', requireFirebaseUser, async (req, res) => {
+  const parsedParams = transactionParamsSchema.safeParse(req.params ?? {});
+
+  if (!parsedParams.success) {
+    return res.status(400).json({
+      success: false,
+      errorCode: 'VALIDATION_ERROR',
+      message: 'Invalid contribution id.',
+      details: parsedParams.error.flatten(),
+    });
+  }
+
+  try {
+    const sql = `
+      DELETE FROM impact_ledger l
+      USING users u, projects p
+      WHERE l.transaction_id = $1
+        AND NOT l.verified
+        AND u.id = l.user_id
+        AND p.id = l.project_id
+        AND (lower(u.email) = $2 OR ($3 AND lower(p.contact_email) = $2))
+      RETURNING l.transaction_id
+    `;
+
+    const result = await pool.query(sql, [
+      parsedParams.data.transactionId,
+      req.authUser.email.trim().toLowerCase(),
+      req.authUser.isManager,
+    ]);
+
+    if (result.rowCount === 0) {
+      return res.status(404).json({
+        success: false,
+        errorCode: 'CONTRIBUTION_NOT_FOUND',
+        message: 'No unverified contribution you can remove was found.',
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      transactionId: result.rows[0].transaction_id,
+    });
+  } catch (err) {
+    console.error('Contribution removal failed', err);
+    return res.status(500).json({
+      success: false,
+      errorCode: 'CONTRIBUTION_DELETE_FAILED',
+      message: 'Unable to remove contribution.',
+    });
+  }
 });
 
 module.exports = router;
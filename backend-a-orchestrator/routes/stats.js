@@ -8,7 +8,7 @@ router.get('/', async (req, res) => {
     const sql = `
       SELECT
         (SELECT COUNT(*)::int FROM users WHERE is_active = TRUE) AS volunteers,
-        (SELECT COALESCE(SUM(impact_value), 0)::numeric(14,2) FROM impact_ledger) AS total_impact,
+        (SELECT COALESCE(SUM(impact_value), 0)::numeric(14,2) FROM impact_ledger WHERE verified = TRUE) AS total_impact,
         (SELECT COUNT(*)::int FROM projects WHERE status IN ('OPEN', 'IN_PROGRESS')) AS active_projects
     `;
 
@@ -0,0 +1,86 @@
+const { FieldPath, Timestamp } = require('firebase-admin/firestore');
+const { getFirestoreClient } = require('../lib/firebaseAdmin');
+
+// One-off backfill for the dashboard's project lead queries. They match the lead's email with an
+// equality filter and sort on createdAt or dueDate, so documents written before lead emails were
+// normalized, or without the sort field, never show up on the lead dashboard.
+
+const PAGE_SIZE = 300;
+
+const COLLECTIONS = [
+  { name: 'projects', emailField: 'projectLead' },
+  { name: 'applications', emailField: 'projectLeadEmail', sortField: 'createdAt' },
+  { name: 'contributions', emailField: 'projectLeadEmail', sortField: 'createdAt' },
+  { name: 'tasks', emailField: 'projectLeadEmail', sortField: 'dueDate' },
+];
+
+function fixesFor(collection, doc) {
+  const data = doc.data();
+  const changes = {};
+
+  const email = data[collection.emailField];
+  if (typeof email === 'string' && email !== email.trim().toLowerCase()) {
+    changes[collection.emailField] = email.trim().toLowerCase();
+  }
+
+  if (collection.sortField && (data[collection.sortField] === undefined || data[collection.sortField] === null)) {
+    // Tasks without a due date get an empty one, which sorts first.
+    changes[collection.sortField] =
+      collection.sortField === 'dueDate' ? '' : Timestamp.fromDate(doc.createTime.toDate());
+  }
+
+  return changes;
+}
+
+async function backfillCollection(db, collection, dryRun) {
+  let updated = 0;
+  let last = null;
+
+  for (;;) {
+    let query = db.collection(collection.name).orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) {
+      query = query.startAfter(last);
+    }
+
+    const snapshot = await query.get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = db.batch();
+    let pending = 0;
+    for (const doc of snapshot.docs) {
+      const changes = fixesFor(collection, doc);
+      if (Object.keys(changes).length === 0) {
+        continue;
+      }
+
+      console.log(`${collection.name}/${doc.id}: ${JSON.stringify(changes)}`);
+      batch.update(doc.ref, changes);
+      pending += 1;
+    }
+
+    if (pending > 0 && !dryRun) {
+      await batch.commit();
+    }
+    updated += pending;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return updated;
+}
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+  const db = getFirestoreClient();
+
+  for (const collection of COLLECTIONS) {
+    const updated = await backfillCollection(db, collection, dryRun);
+    console.log(`${collection.name}: ${updated} ${dryRun ? 'to update' : 'updated'}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
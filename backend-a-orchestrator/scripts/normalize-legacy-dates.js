@@ -0,0 +1,111 @@
+const { FieldPath, FieldValue, Timestamp } = require('firebase-admin/firestore');
+const { getFirestoreClient } = require('../lib/firebaseAdmin');
+
+// One-off migration for dates written by the dashboard before it stored Firestore timestamps.
+// Those documents hold ISO strings, which Firestore orders after every timestamp, so they sort
+// wrong and fall outside date range queries until they are rewritten.
+
+const PAGE_SIZE = 300;
+
+const COLLECTIONS = [
+  { name: 'contributions', fields: ['createdAt', 'reviewedAt'] },
+  { name: 'applications', fields: ['createdAt', 'reviewedAt'] },
+  { name: 'tasks', fields: ['createdAt', 'updatedAt'] },
+  { name: 'events', fields: ['startsAt', 'endsAt', 'updatedAt', 'recurrence.until', 'checkIn.closesAt'] },
+  { name: 'checkInCodes', fields: ['closesAt'] },
+  { name: 'attendance', fields: ['checkedInAt'] },
+  { name: 'notifications', fields: ['createdAt'] },
+  { name: 'messages', fields: ['updatedAt'] },
+  { name: 'messageEntries', fields: ['createdAt'] },
+  { name: 'badgeDefinitions', fields: ['updatedAt'] },
+  { name: 'badges', fields: ['earnedAt', 'definitionUpdatedAt'] },
+  { name: 'impactScoreModels', fields: ['updatedAt'] },
+];
+
+function valueAt(data, path) {
+  return path.split('.').reduce((value, key) => (value && typeof value === 'object' ? value[key] : undefined), data);
+}
+
+function fixesFor(collection, doc) {
+  const data = doc.data();
+  const changes = {};
+  const skipped = [];
+
+  for (const field of collection.fields) {
+    const value = valueAt(data, field);
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      continue;
+    }
+
+    // The dashboard reads an empty date as missing, so drop it rather than guess one.
+    if (value === '') {
+      changes[field] = FieldValue.delete();
+      continue;
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      skipped.push(`${field}=${JSON.stringify(value)}`);
+      continue;
+    }
+    changes[field] = Timestamp.fromDate(date);
+  }
+
+  return { changes, skipped };
+}
+
+async function normalizeCollection(db, collection, dryRun) {
+  let updated = 0;
+  let last = null;
+
+  for (;;) {
+    let query = db.collection(collection.name).orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (last) {
+      query = query.startAfter(last);
+    }
+
+    const snapshot = await query.get();
+    if (snapshot.empty) {
+      break;
+    }
+
+    const batch = db.batch();
+    let pending = 0;
+    for (const doc of snapshot.docs) {
+      const { changes, skipped } = fixesFor(collection, doc);
+      if (skipped.length > 0) {
+        console.warn(`${collection.name}/${doc.id}: not a date, left as is: ${skipped.join(', ')}`);
+      }
+      if (Object.keys(changes).length === 0) {
+        continue;
+      }
+
+      console.log(`${collection.name}/${doc.id}: ${Object.keys(changes).join(', ')}`);
+      batch.update(doc.ref, changes);
+      pending += 1;
+    }
+
+    if (pending > 0 && !dryRun) {
+      await batch.commit();
+    }
+    updated += pending;
+    last = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return updated;
+}
+
+async function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+  const db = getFirestoreClient();
+
+  for (const collection of COLLECTIONS) {
+    const updated = await normalizeCollection(db, collection, dryRun);
+    console.log(`${collection.name}: ${updated} ${dryRun ? 'to update' : 'updated'}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message || error);
+  process.exit(1);
+});
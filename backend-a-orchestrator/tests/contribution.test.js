@@ -3,6 +3,7 @@ const { expect } = require('chai');
 const sinon = require('sinon');
 const app = require('../app');
 const pool = require('../config/pool');
+const firebaseAdmin = require('../lib/firebaseAdmin');
 
 describe('GET /healthz', () => {
   it('should return service health', async () => {
@@ -78,3 +79,322 @@ describe('POST /api/v1/contributions', () => {
     expect(res.body.errorCode).to.equal('CONTRIBUTION_WRITE_FAILED');
   });
 });
+
+describe('Volunteer ledger routes', () => {
+  let fakeClient;
+
+  beforeEach(() => {
+    fakeClient = {
+      query: sinon.stub(),
+      release: sinon.stub(),
+    };
+    sinon.stub(pool, 'connect').resolves(fakeClient);
+    sinon.stub(firebaseAdmin, 'getFirebaseAuthClient').returns({
+      verifyIdToken: sinon.stub().resolves({
+        uid: 'firebase-uid-1',
+        email: 'Volunteer@Example.org',
+        name: 'Ada Volunteer',
+      }),
+    });
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  it('requires a Firebase bearer token to record a contribution', async () => {
+    const res = await request(app).post('/api/v1/contributions/me').send({
+      projectId: '770e8400-e29b-41d4-a716-446655441111',
+      impactValue: 2,
+    });
+
+    expect(res.status).to.equal(401);
+    expect(res.body.errorCode).to.equal('UNAUTHORIZED');
+    expect(pool.connect.called).to.equal(false);
+  });
+
+  it('records hours for the signed-in volunteer resolved by email', async () => {
+    fakeClient.query.onCall(0).resolves(); // BEGIN
+    fakeClient.query.onCall(1).resolves(); // SET LOCAL
+    fakeClient.query
+      .onCall(2)
+      .resolves({ rows: [{ id: '550e8400-e29b-41d4-a716-446655440000' }] }); // user lookup
+    fakeClient.query
+      .onCall(3)
+      .resolves({ rows: [{ transaction_id: '990e8400-e29b-41d4-a716-446655442222' }] }); // INSERT
+    fakeClient.query.onCall(4).resolves(); // COMMIT
+
+    const res = await request(app)
+      .post('/api/v1/contributions/me')
+      .set('Authorization', 'Bearer test-token')
+      .send({ projectId: '770e8400-e29b-41d4-a716-446655441111', impactValue: 2.5 });
+
+    expect(res.status).to.equal(201);
+    expect(res.body.transactionId).to.equal('990e8400-e29b-41d4-a716-446655442222');
+    expect(fakeClient.query.getCall(2).args[1]).to.deep.equal(['volunteer@example.org']);
+    expect(fakeClient.query.getCall(3).args[1]).to.deep.equal([
+      '550e8400-e29b-41d4-a716-446655440000',
+      '770e8400-e29b-41d4-a716-446655441111',
+      'hours',
+      2.5,
+      null,
+    ]);
+  });
+
+  it('returns ledger totals for the signed-in volunteer', async () => {
+    sinon
+      .stub(pool, 'query')
+      .resolves({
+        rows: [{ entries: 3, hours: '7.50', total_impact: '9.50', projects: 2, pending_hours: '1.00' }],
+      });
+
+    const res = await request(app)
+      .get('/api/v1/contributions/me/summary')
+      .set('Authorization', 'Bearer test-token');
+
+    expect(res.status).to.equal(200);
+    expect(res.body).to.deep.equal({
+      entries: 3,
+      hours: 7.5,
+      totalImpact: 9.5,
+      projects: 2,
+      pendingHours: 1,
+    });
+    expect(pool.query.firstCall.args[1]).to.deep.equal(['volunteer@example.org']);
+  });
+});
+
+describe('POST /api/v1/contributions/volunteer', () => {
+  let fakeClient;
+
+  beforeEach(() => {
+    fakeClient = {
+      query: sinon.stub(),
+      release: sinon.stub(),
+    };
+    sinon.stub(pool, 'connect').resolves(fakeClient);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function stubDecodedToken(decodedToken) {
+    sinon.stub(firebaseAdmin, 'getFirebaseAuthClient').returns({
+      verifyIdToken: sinon.stub().resolves(decodedToken),
+    });
+  }
+
+  it('rejects volunteers crediting hours to someone else', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-1', email: 'volunteer@example.org' });
+
+    const res = await request(app)
+      .post('/api/v1/contributions/volunteer')
+      .set('Authorization', 'Bearer test-token')
+      .send({
+        volunteerEmail: 'friend@example.org',
+        projectId: '770e8400-e29b-41d4-a716-446655441111',
+        impactValue: 3,
+      });
+
+    expect(res.status).to.equal(403);
+    expect(pool.connect.called).to.equal(false);
+  });
+
+  it('rejects a manager who does not lead the project', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-3', email: 'other-lead@example.org', role: 'manager' });
+    fakeClient.query.onCall(0).resolves({ rows: [{ contact_email: 'Lead@Example.org' }] }); // project lookup
+
+    const res = await request(app)
+      .post('/api/v1/contributions/volunteer')
+      .set('Authorization', 'Bearer test-token')
+      .send({
+        volunteerEmail: 'friend@example.org',
+        projectId: '770e8400-e29b-41d4-a716-446655441111',
+        impactValue: 3,
+      });
+
+    expect(res.status).to.equal(403);
+    expect(res.body.errorCode).to.equal('PROJECT_LEAD_REQUIRED');
+    expect(fakeClient.query.calledOnce).to.equal(true);
+    expect(fakeClient.query.firstCall.args[1]).to.deep.equal(['770e8400-e29b-41d4-a716-446655441111']);
+    expect(fakeClient.release.calledOnce).to.equal(true);
+  });
+
+  it('records hours on the named volunteer\'s ledger for the project lead', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-2', email: 'lead@example.org', role: 'manager' });
+    fakeClient.query.onCall(0).resolves({ rows: [{ contact_email: 'Lead@Example.org' }] }); // project lookup
+    fakeClient.query.onCall(1).resolves(); // BEGIN
+    fakeClient.query.onCall(2).resolves(); // SET LOCAL
+    fakeClient.query.onCall(3).resolves({ rows: [] }); // user lookup
+    fakeClient.query
+      .onCall(4)
+      .resolves({ rows: [{ id: '550e8400-e29b-41d4-a716-446655440000' }] }); // user INSERT
+    fakeClient.query
+      .onCall(5)
+      .resolves({ rows: [{ transaction_id: '990e8400-e29b-41d4-a716-446655442222' }] }); // INSERT
+    fakeClient.query.onCall(6).resolves(); // COMMIT
+
+    const res = await request(app)
+      .post('/api/v1/contributions/volunteer')
+      .set('Authorization', 'Bearer test-token')
+      .send({
+        volunteerEmail: ' Friend@Example.org ',
+        volunteerName: 'Grace Friend',
+        projectId: '770e8400-e29b-41d4-a716-446655441111',
+        impactValue: 3,
+      });
+
+    expect(res.status).to.equal(201);
+    expect(res.body.transactionId).to.equal('990e8400-e29b-41d4-a716-446655442222');
+    expect(fakeClient.query.getCall(3).args[1]).to.deep.equal(['friend@example.org']);
+    expect(fakeClient.query.getCall(4).args[1]).to.deep.equal(['Grace Friend', 'friend@example.org']);
+    expect(fakeClient.query.getCall(5).args[1]).to.deep.equal([
+      '550e8400-e29b-41d4-a716-446655440000',
+      '770e8400-e29b-41d4-a716-446655441111',
+      'hours',
+      3,
+      null,
+    ]);
+  });
+});
+
+describe('PATCH /api/v1/contributions/:transactionId/verification', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function stubDecodedToken(decodedToken) {
+    sinon.stub(firebaseAdmin, 'getFirebaseAuthClient').returns({
+      verifyIdToken: sinon.stub().resolves(decodedToken),
+    });
+  }
+
+  it('rejects volunteers without a manager role', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-1', email: 'volunteer@example.org' });
+    const queryStub = sinon.stub(pool, 'query');
+
+    const res = await request(app)
+      .patch('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222/verification')
+      .set('Authorization', 'Bearer test-token')
+      .send({ verified: true });
+
+    expect(res.status).to.equal(403);
+    expect(res.body.errorCode).to.equal('FORBIDDEN');
+    expect(queryStub.called).to.equal(false);
+  });
+
+  const projectRow = { rows: [{ project_id: '770e8400-e29b-41d4-a716-446655441111' }] };
+
+  it('marks a ledger entry verified for the project lead', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-2', email: 'lead@example.org', role: 'manager' });
+    const queryStub = sinon.stub(pool, 'query');
+    queryStub.onCall(0).resolves(projectRow); // entry lookup
+    queryStub.onCall(1).resolves({ rows: [{ contact_email: 'lead@example.org' }] }); // project lookup
+    queryStub.onCall(2).resolves({
+      rowCount: 1,
+      rows: [{ transaction_id: '990e8400-e29b-41d4-a716-446655442222', verified: true }],
+    });
+
+    const res = await request(app)
+      .patch('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222/verification')
+      .set('Authorization', 'Bearer test-token')
+      .send({ verified: true });
+
+    expect(res.status).to.equal(200);
+    expect(res.body).to.deep.equal({
+      success: true,
+      transactionId: '990e8400-e29b-41d4-a716-446655442222',
+      verified: true,
+    });
+    expect(queryStub.getCall(2).args[1]).to.deep.equal([true, '990e8400-e29b-41d4-a716-446655442222']);
+  });
+
+  it('rejects a manager who does not lead the entry\'s project', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-3', email: 'other-lead@example.org', role: 'manager' });
+    const queryStub = sinon.stub(pool, 'query');
+    queryStub.onCall(0).resolves(projectRow); // entry lookup
+    queryStub.onCall(1).resolves({ rows: [{ contact_email: 'lead@example.org' }] }); // project lookup
+
+    const res = await request(app)
+      .patch('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222/verification')
+      .set('Authorization', 'Bearer test-token')
+      .send({ verified: true });
+
+    expect(res.status).to.equal(403);
+    expect(res.body.errorCode).to.equal('PROJECT_LEAD_REQUIRED');
+    expect(queryStub.callCount).to.equal(2);
+  });
+
+  it('returns 404 for an unknown transaction', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-2', email: 'lead@example.org', role: 'manager' });
+    sinon.stub(pool, 'query').resolves({ rowCount: 0, rows: [] });
+
+    const res = await request(app)
+      .patch('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222/verification')
+      .set('Authorization', 'Bearer test-token')
+      .send({ verified: false });
+
+    expect(res.status).to.equal(404);
+    expect(res.body.errorCode).to.equal('CONTRIBUTION_NOT_FOUND');
+  });
+});
+
+describe('DELETE /api/v1/contributions/:transactionId', () => {
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  function stubDecodedToken(decodedToken) {
+    sinon.stub(firebaseAdmin, 'getFirebaseAuthClient').returns({
+      verifyIdToken: sinon.stub().resolves(decodedToken),
+    });
+  }
+
+  it('removes the volunteer\'s own unverified entry', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-1', email: 'Volunteer@Example.org' });
+    sinon.stub(pool, 'query').resolves({
+      rowCount: 1,
+      rows: [{ transaction_id: '990e8400-e29b-41d4-a716-446655442222' }],
+    });
+
+    const res = await request(app)
+      .delete('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222')
+      .set('Authorization', 'Bearer test-token');
+
+    expect(res.status).to.equal(200);
+    expect(res.body.transactionId).to.equal('990e8400-e29b-41d4-a716-446655442222');
+    expect(pool.query.firstCall.args[1]).to.deep.equal([
+      '990e8400-e29b-41d4-a716-446655442222',
+      'volunteer@example.org',
+      false,
+    ]);
+  });
+
+  it('lets a manager remove unverified entries on projects they lead', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-2', email: 'lead@example.org', role: 'manager' });
+    sinon.stub(pool, 'query').resolves({
+      rowCount: 1,
+      rows: [{ transaction_id: '990e8400-e29b-41d4-a716-446655442222' }],
+    });
+
+    const res = await request(app)
+      .delete('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222')
+      .set('Authorization', 'Bearer test-token');
+
+    expect(res.status).to.equal(200);
+    expect(pool.query.firstCall.args[1][2]).to.equal(true);
+  });
+
+  it('returns 404 when there is no unverified entry the caller can remove', async () => {
+    stubDecodedToken({ uid: 'firebase-uid-1', email: 'volunteer@example.org' });
+    sinon.stub(pool, 'query').resolves({ rowCount: 0, rows: [] });
+
+    const res = await request(app)
+      .delete('/api/v1/contributions/990e8400-e29b-41d4-a716-446655442222')
+      .set('Authorization', 'Bearer test-token');
+
+    expect(res.status).to.equal(404);
+    expect(res.body.errorCode).to.equal('CONTRIBUTION_NOT_FOUND');
+  });
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildVolunteerCalendar, isValidFeedToken } from "../../../../lib/calendarFeed";
+import { firestoreServerAvailable } from "../../../../lib/firestoreServer";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// The volunteer's iCalendar feed, fetched by calendar apps without signing in.
+export async function GET(request: NextRequest, { params }: { params: { uid: string } }) {
+  try {
+    if (!firestoreServerAvailable()) {
+      return NextResponse.json({ error: "Calendar feeds are not configured." }, { status: 503 });
+    }
+    const token = request.nextUrl.searchParams.get("token") || "";
+    if (!isValidFeedToken(params.uid, token)) {
+      return NextResponse.json({ error: "Calendar feed not found." }, { status: 404 });
+    }
+
+    return new NextResponse(await buildVolunteerCalendar(params.uid), {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="turknode.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to build the calendar feed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
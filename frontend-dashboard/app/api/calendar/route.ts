@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { calendarFeedToken } from "../../../lib/calendarFeed";
+import { FIREBASE_API_KEY, bearerToken, resolveFirebaseUid } from "../../../lib/firebaseIdentity";
+import { firestoreServerAvailable } from "../../../lib/firestoreServer";
+
+export const runtime = "nodejs";
+
+// Returns the signed-in volunteer's calendar subscription URL.
+export async function POST(request: NextRequest) {
+  try {
+    if (!FIREBASE_API_KEY || !firestoreServerAvailable()) {
+      return NextResponse.json(
+        { error: "Calendar feeds need Firebase and a Firestore service account on the server." },
+        { status: 503 }
+      );
+    }
+
+    const uid = await resolveFirebaseUid(bearerToken(request.headers.get("authorization")));
+    if (!uid) {
+      return NextResponse.json({ error: "Sign in again to subscribe to your calendar." }, { status: 401 });
+    }
+
+    const url = `${request.nextUrl.origin}/api/calendar/${encodeURIComponent(uid)}?token=${calendarFeedToken(uid)}`;
+    return NextResponse.json({ url });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to create the calendar feed.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
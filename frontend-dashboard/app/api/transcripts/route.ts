@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FIREBASE_API_KEY, bearerToken, resolveFirebaseUid } from "../../../lib/firebaseIdentity";
+import { firestoreServerAvailable } from "../../../lib/firestoreServer";
+import { loadServiceTranscript, signTranscript } from "../../../lib/transcriptSigning";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Signs the caller's transcript, built on the server from their verified contributions. The
+// local and memory data backends have no accounts or server-readable data, so they cannot sign.
+export async function POST(request: NextRequest) {
+  try {
+    if (!FIREBASE_API_KEY || !firestoreServerAvailable()) {
+      return NextResponse.json({ error: "Transcript signing is not configured." }, { status: 503 });
+    }
+    const uid = await resolveFirebaseUid(bearerToken(request.headers.get("authorization")));
+    if (!uid) {
+      return NextResponse.json({ error: "Sign in again to download your transcript." }, { status: 401 });
+    }
+
+    const transcript = await loadServiceTranscript(uid);
+    const signed = signTranscript(transcript);
+    return NextResponse.json({ transcript, token: signed.token, code: signed.code });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to sign the transcript.";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+
+type LoadMoreSentinelProps = {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+  label?: string;
+};
+
+export default function LoadMoreSentinel({ hasMore, isLoading, onLoadMore, label = "Load more" }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || !hasMore || isLoading || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center pt-2">
+      <button
+        type="button"
+        onClick={onLoadMore}
+        disabled={isLoading}
+        className="inline-flex items-center gap-2 rounded-xl border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {isLoading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : null} {label}
+      </button>
+    </div>
+  );
+}
@@ -2,17 +2,7 @@
 
 import { FormEvent, useEffect, useState } from "react";
 import { Loader2 } from "lucide-react";
-
-export type ProjectStatus = "OPEN" | "IN_PROGRESS" | "COMPLETED" | "CANCELLED";
-
-export type ProjectPreview = {
-  id: string;
-  name: string;
-  description: string;
-  status: ProjectStatus;
-  createdAt: string;
-  contactEmail?: string;
-};
+import type { ProjectPreview, ProjectStatus } from "../../lib/projectService";
 
 type ProjectApplicationStatus = "PENDING" | "APPROVED" | "REJECTED";
 
@@ -50,14 +40,6 @@ type ProjectApplicationsResponse = {
   data?: ProjectApplication[];
 };
 
-type StatusUpdateResponse = {
-  success?: boolean;
-  message?: string;
-  error?: {
-    message?: string;
-  };
-};
-
 type Props = {
   projects: ProjectPreview[];
   isLoading: boolean;
@@ -359,8 +341,7 @@ export default function OpenProjectIntakePanel({
   };
 
   const updateProjectStatus = async (projectId: string, nextStatus: ProjectStatus) => {
-    const authHeaders = await getManagerAuthHeaders(true);
-    if (!authHeaders) {
+    if (!hasManagerAccess) {
       setProjectNotice(
         projectId,
         "error",
@@ -372,29 +353,29 @@ export default function OpenProjectIntakePanel({
     setIsUpdatingProjectId(projectId);
 
     try {
-      const response = await fetch(`${orchestratorUrl}/api/v1/projects/${projectId}/status`, {
-        method: "PATCH",
-        headers: authHeaders,
-        body: JSON.stringify({ status: nextStatus }),
-      });
-
-      const payload = (await response.json().catch(() => ({}))) as StatusUpdateResponse;
-
-      if (!response.ok) {
-        const message =
-          payload.message || payload.error?.message || "Unable to update project status.";
-        setProjectNotice(projectId, "error", message);
-        return;
-      }
+      // Goes through the project service so the dashboards' copy of the project follows.
+      const { setProjectStatus } = await import("../../lib/projectService");
+      const { dashboardCopyError } = await setProjectStatus(projectId, nextStatus);
 
       const successMessage =
         nextStatus === "COMPLETED"
           ? "Project marked as completed and intake closed."
           : "Project intake reopened.";
       showToast("success", successMessage);
+      if (dashboardCopyError) {
+        setProjectNotice(
+          projectId,
+          "error",
+          `The volunteer dashboards still show the previous status until the project lead's next sync: ${dashboardCopyError}`
+        );
+      }
       await onProjectChanged();
-    } catch {
-      setProjectNotice(projectId, "error", "Could not update project status.");
+    } catch (err) {
+      setProjectNotice(
+        projectId,
+        "error",
+        err instanceof Error ? err.message : "Could not update project status."
+      );
     } finally {
       setIsUpdatingProjectId(null);
     }
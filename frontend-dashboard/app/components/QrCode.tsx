@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import { encodeQr } from "../../lib/qrCode";
+
+// Quiet zone around the code, in modules, as scanners expect.
+const QUIET_ZONE = 4;
+
+export default function QrCode({ value, size = 192, label }: { value: string; size?: number; label: string }) {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQr(value);
+    const segments: string[] = [];
+    modules.forEach((row, y) =>
+      row.forEach((dark, x) => {
+        if (dark) segments.push(`M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`);
+      })
+    );
+    return { path: segments.join(""), dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className="rounded-lg bg-white"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#0f172a" />
+    </svg>
+  );
+}
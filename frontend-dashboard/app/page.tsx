@@ -16,10 +16,8 @@ import {
   UserPlus,
   Users,
 } from "lucide-react";
-import OpenProjectIntakePanel, {
-  type ProjectPreview,
-  type ProjectStatus,
-} from "./components/OpenProjectIntakePanel";
+import OpenProjectIntakePanel from "./components/OpenProjectIntakePanel";
+import type { ProjectPreview, ProjectStatus } from "../lib/projectService";
 import BrandLogo from "./components/BrandLogo";
 
 type MatchVolunteer = {
@@ -339,11 +337,13 @@ export default function Page() {
   const loadPlatformState = async () => {
     setIsDirectoryLoading(true);
     try {
-      const [statusRes, statsRes, volunteersRes, projectsRes] = await Promise.all([
+      const [statusRes, statsRes, volunteersRes, projectsResult] = await Promise.all([
         fetch(`${ORCHESTRATOR_URL}/api/v1/status`),
         fetch(`${ORCHESTRATOR_URL}/api/v1/stats`),
         fetch(`${ORCHESTRATOR_URL}/api/v1/volunteers?limit=6`),
-        fetch(`${ORCHESTRATOR_URL}/api/v1/projects?scope=active&limit=6`),
+        import("../lib/projectService")
+          .then(({ listSharedProjects }) => listSharedProjects({ scope: "active", limit: 6 }))
+          .catch(() => null),
       ]);
 
       if (statusRes.ok) {
@@ -364,11 +364,8 @@ export default function Page() {
         setRecentVolunteers(data.data || []);
       }
 
-      if (projectsRes.ok) {
-        const data = (await projectsRes.json()) as {
-          data?: ProjectPreview[];
-        };
-        setOpenProjects(data.data || []);
+      if (projectsResult) {
+        setOpenProjects(projectsResult.projects);
       }
     } catch {
       setStatus("disconnected");
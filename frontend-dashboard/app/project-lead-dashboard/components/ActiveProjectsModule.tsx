@@ -1,4 +1,7 @@
-import type { ProjectDoc } from '../../../lib/turknodeDb';
+import { useState } from 'react';
+import { projectImpactProgress } from '../../../lib/impactMetrics';
+import type { ProjectDoc, ProjectJoinPolicy } from '../../../lib/turknodeDb';
+import { toProjectStatus } from '../../../lib/projectService';
 
 function calculateProgress(startDate: string, endDate: string) {
   const start = new Date(startDate).getTime();
@@ -11,11 +14,26 @@ function calculateProgress(startDate: string, endDate: string) {
 
 export default function ActiveProjectsModule({
   projects,
+  isBusy,
   onAction,
+  onSetImpactTarget,
+  onSetJoinPolicy,
 }: {
   projects: ProjectDoc[];
-  onAction?: (projectId: string, action: 'view' | 'edit' | 'assign' | 'tasks') => void;
+  isBusy?: boolean;
+  onAction?: (projectId: string, action: 'view' | 'edit' | 'assign' | 'tasks' | 'complete') => void;
+  onSetImpactTarget?: (projectId: string, impactTarget: number) => Promise<boolean>;
+  onSetJoinPolicy?: (projectId: string, joinPolicy: ProjectJoinPolicy) => void;
 }) {
+  const [targetDrafts, setTargetDrafts] = useState<Record<string, string>>({});
+
+  const saveTarget = async (projectId: string) => {
+    const draft = (targetDrafts[projectId] || '').trim();
+    if (!draft || !onSetImpactTarget) return;
+    const saved = await onSetImpactTarget(projectId, Number(draft));
+    if (saved) setTargetDrafts((prev) => ({ ...prev, [projectId]: '' }));
+  };
+
   return (
     <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
       <div className="mb-4 flex items-center justify-between gap-3">
@@ -33,6 +51,7 @@ export default function ActiveProjectsModule({
         <div className="space-y-3">
           {projects.map((project) => {
             const progress = calculateProgress(project.startDate, project.endDate);
+            const impact = projectImpactProgress(project);
             return (
               <article key={project.id} className="rounded-2xl border border-slate-200 p-4">
                 <div className="flex flex-wrap items-start justify-between gap-3">
@@ -42,7 +61,7 @@ export default function ActiveProjectsModule({
                     <p className="mt-1 text-sm text-slate-600">{project.description}</p>
                   </div>
                   <span className="rounded-full bg-emerald-100 px-2.5 py-1 text-xs font-semibold text-emerald-700">
-                    {project.status}
+                    {toProjectStatus(project).replace('_', ' ').toLowerCase()}
                   </span>
                 </div>
 
@@ -50,6 +69,7 @@ export default function ActiveProjectsModule({
                   <div>
                     <p className="uppercase tracking-wide text-slate-500">Volunteers</p>
                     <p className="mt-1 font-semibold text-slate-900">{project.participantCount || 0} assigned</p>
+                    <p className="text-slate-500">{project.joinPolicy === 'application' ? 'Join by application' : 'Open to join'}</p>
                   </div>
                   <div>
                     <p className="uppercase tracking-wide text-slate-500">Next milestone</p>
@@ -60,13 +80,42 @@ export default function ActiveProjectsModule({
                     <p className="mt-1 font-semibold text-slate-900">{project.endDate || 'TBD'}</p>
                   </div>
                   <div>
-                    <p className="uppercase tracking-wide text-slate-500">Progress</p>
-                    <p className="mt-1 font-semibold text-slate-900">{progress}%</p>
+                    <p className="uppercase tracking-wide text-slate-500">Timeline</p>
+                    <p className="mt-1 font-semibold text-slate-900">{progress}% elapsed</p>
                   </div>
                 </div>
 
-                <div className="mt-2 h-2 overflow-hidden rounded-full bg-slate-100">
-                  <div className="h-full rounded-full bg-[#2563eb]" style={{ width: `${progress}%` }} />
+                <div className="mt-3 rounded-xl bg-slate-50 p-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2 text-xs">
+                    <p className="font-semibold text-slate-700">{impact.metric || 'Impact'}</p>
+                    <p className="text-slate-600">
+                      {impact.target ? `${impact.achieved} of ${impact.target} (${impact.percent}%)` : `${impact.achieved} so far · no target set`}
+                    </p>
+                  </div>
+                  <div className="mt-2 h-2 overflow-hidden rounded-full bg-slate-200">
+                    <div className="h-full rounded-full bg-[#2563eb]" style={{ width: `${impact.percent || 0}%` }} />
+                  </div>
+                  {onSetImpactTarget ? (
+                    <div className="mt-2 flex gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        step="any"
+                        value={targetDrafts[project.id] || ''}
+                        onChange={(event) => setTargetDrafts((prev) => ({ ...prev, [project.id]: event.target.value }))}
+                        placeholder={impact.target ? `Target: ${impact.target}` : 'Set a target'}
+                        className="w-32 rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs"
+                      />
+                      <button
+                        type="button"
+                        disabled={isBusy || !(targetDrafts[project.id] || '').trim()}
+                        onClick={() => void saveTarget(project.id)}
+                        className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-60"
+                      >
+                        Save target
+                      </button>
+                    </div>
+                  ) : null}
                 </div>
 
                 <div className="mt-3 flex flex-wrap gap-2">
@@ -75,6 +124,7 @@ export default function ActiveProjectsModule({
                     { label: 'Edit', action: 'edit' as const },
                     { label: 'Assign Volunteers', action: 'assign' as const },
                     { label: 'View Tasks', action: 'tasks' as const },
+                    { label: 'Mark Completed', action: 'complete' as const },
                   ].map(({ label, action }) => (
                     <button
                       key={label}
@@ -85,6 +135,16 @@ export default function ActiveProjectsModule({
                       {label}
                     </button>
                   ))}
+                  {onSetJoinPolicy ? (
+                    <button
+                      type="button"
+                      disabled={isBusy}
+                      onClick={() => onSetJoinPolicy(project.id, project.joinPolicy === 'application' ? 'open' : 'application')}
+                      className="rounded-lg border border-slate-300 bg-white px-3 py-1.5 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-60"
+                    >
+                      {project.joinPolicy === 'application' ? 'Allow Open Join' : 'Require Applications'}
+                    </button>
+                  ) : null}
                 </div>
               </article>
             );
@@ -1,46 +1,142 @@
+import { useState } from 'react';
+import type { ApplicationDecision, ApplicationReviewOptions } from '../../../lib/turknodeDb';
 import type { ApplicationRow } from '../types';
 
 export default function ApplicationsQueue({
   applications,
+  onboardingTaskCounts,
+  isBusy,
   onStateChange,
+  onDecide,
   onMessage,
 }: {
   applications: ApplicationRow[];
-  onStateChange: (id: string, state: ApplicationRow['state']) => void;
+  // Onboarding tasks defined on each project, keyed by project ID.
+  onboardingTaskCounts: Record<string, number>;
+  isBusy?: boolean;
+  onStateChange: (id: string, state: 'pending' | 'saved') => void;
+  onDecide: (id: string, decision: ApplicationDecision, options: ApplicationReviewOptions) => Promise<boolean>;
   onMessage?: (id: string) => void;
 }) {
+  // The application whose decision is being confirmed, with the note sent to the volunteer.
+  const [deciding, setDeciding] = useState<{
+    id: string;
+    decision: ApplicationDecision;
+    note: string;
+    createOnboardingTasks: boolean;
+  } | null>(null);
+
+  const confirmDecision = async () => {
+    if (!deciding) return;
+    const done = await onDecide(deciding.id, deciding.decision, {
+      note: deciding.note,
+      createOnboardingTasks: deciding.createOnboardingTasks,
+    });
+    if (done) setDeciding(null);
+  };
+
   return (
     <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
       <h3 className="mb-4 text-xl font-black tracking-tight text-slate-900">Applications Queue</h3>
       <div className="space-y-3">
         {applications.length === 0 ? (
-          <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">No pending applications.</p>
+          <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">No applications yet.</p>
         ) : (
-          applications.map((item) => (
-            <article key={item.id} className="rounded-2xl border border-slate-200 p-3">
-              <div className="flex items-center justify-between gap-2">
-                <div>
-                  <h4 className="font-bold text-slate-900">{item.name}</h4>
-                  <p className="text-xs text-slate-600">{item.project} • {item.appliedAt}</p>
+          applications.map((item) => {
+            const taskCount = onboardingTaskCounts[item.projectId] || 0;
+            return (
+              <article key={item.id} className="rounded-2xl border border-slate-200 p-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div>
+                    <h4 className="font-bold text-slate-900">{item.name}</h4>
+                    <p className="text-xs text-slate-600">{item.project} • {item.appliedAt}</p>
+                  </div>
+                  <div className="flex gap-1.5">
+                    {item.state !== 'pending' ? (
+                      <span className="rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">{item.state}</span>
+                    ) : null}
+                    <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">{item.skillsMatch}% match</span>
+                  </div>
+                </div>
+                <p className="mt-2 text-sm text-slate-600">{item.message}</p>
+                <p className="mt-1 text-xs text-slate-500">Availability: {item.availability}</p>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  <button
+                    disabled={isBusy}
+                    onClick={() => setDeciding({ id: item.id, decision: 'accepted', note: '', createOnboardingTasks: taskCount > 0 })}
+                    className="rounded-lg bg-emerald-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    disabled={isBusy}
+                    onClick={() => setDeciding({ id: item.id, decision: 'rejected', note: '', createOnboardingTasks: false })}
+                    className="rounded-lg bg-rose-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-rose-700 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  {item.state === 'saved' ? (
+                    <button disabled={isBusy} onClick={() => onStateChange(item.id, 'pending')} className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50">Back to pending</button>
+                  ) : (
+                    <button disabled={isBusy} onClick={() => onStateChange(item.id, 'saved')} className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50">Save for later</button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onMessage?.(item.id)}
+                    className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50"
+                  >
+                    Message
+                  </button>
                 </div>
-                <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">{item.skillsMatch}% match</span>
-              </div>
-              <p className="mt-2 text-sm text-slate-600">{item.message}</p>
-              <p className="mt-1 text-xs text-slate-500">Availability: {item.availability}</p>
-              <div className="mt-2 flex flex-wrap gap-2">
-                <button onClick={() => onStateChange(item.id, 'accepted')} className="rounded-lg bg-emerald-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700">Accept</button>
-                <button onClick={() => onStateChange(item.id, 'rejected')} className="rounded-lg bg-rose-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-rose-700">Reject</button>
-                <button onClick={() => onStateChange(item.id, 'saved')} className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50">Save for later</button>
-                <button
-                  type="button"
-                  onClick={() => onMessage?.(item.id)}
-                  className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50"
-                >
-                  Message
-                </button>
-              </div>
-            </article>
-          ))
+                {deciding?.id === item.id ? (
+                  <div
+                    className={`mt-3 space-y-2 rounded-xl border p-3 ${
+                      deciding.decision === 'accepted' ? 'border-emerald-200 bg-emerald-50' : 'border-rose-200 bg-rose-50'
+                    }`}
+                  >
+                    <p className={`text-xs font-semibold ${deciding.decision === 'accepted' ? 'text-emerald-800' : 'text-rose-800'}`}>
+                      {deciding.decision === 'accepted'
+                        ? `Add ${item.name} to ${item.project}? They are notified and a message thread with you opens.`
+                        : `Reject ${item.name}'s application? They are notified with your note.`}
+                    </p>
+                    <input
+                      value={deciding.note}
+                      onChange={(e) => setDeciding({ ...deciding, note: e.target.value })}
+                      placeholder={deciding.decision === 'accepted' ? 'Optional welcome note' : 'Optional note for the volunteer'}
+                      className="w-full rounded-lg border border-slate-200 bg-white px-2.5 py-1.5 text-xs"
+                    />
+                    {deciding.decision === 'accepted' && taskCount > 0 ? (
+                      <label className="flex items-center gap-2 text-xs text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={deciding.createOnboardingTasks}
+                          onChange={(e) => setDeciding({ ...deciding, createOnboardingTasks: e.target.checked })}
+                        />
+                        Assign the project's {taskCount} onboarding {taskCount === 1 ? 'task' : 'tasks'}
+                      </label>
+                    ) : null}
+                    <div className="flex gap-2">
+                      <button
+                        disabled={isBusy}
+                        onClick={() => void confirmDecision()}
+                        className={`rounded-lg px-2.5 py-1 text-xs font-semibold text-white transition disabled:opacity-50 ${
+                          deciding.decision === 'accepted' ? 'bg-emerald-600 hover:bg-emerald-700' : 'bg-rose-600 hover:bg-rose-700'
+                        }`}
+                      >
+                        {deciding.decision === 'accepted' ? 'Accept Volunteer' : 'Reject Application'}
+                      </button>
+                      <button
+                        onClick={() => setDeciding(null)}
+                        className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : null}
+              </article>
+            );
+          })
         )}
       </div>
     </section>
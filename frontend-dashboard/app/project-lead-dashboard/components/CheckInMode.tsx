@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import QrCode from '../../components/QrCode';
+import type { AttendanceDoc, CheckInCodeDoc } from '../../../lib/turknodeDb';
+
+export type CheckInRosterEntry = {
+  uid: string;
+  name: string;
+  // False for walk-ins who checked in without an RSVP.
+  rsvped: boolean;
+  attendance?: AttendanceDoc;
+};
+
+export default function CheckInMode({
+  title,
+  when,
+  checkIn,
+  checkInUrl,
+  roster,
+  canCreditHours,
+  defaultHours,
+  isBusy,
+  onOpen,
+  onEnd,
+  onCheckIn,
+  onCredit,
+  onClose,
+}: {
+  title: string;
+  when: string;
+  // The open check-in for this date, if any.
+  checkIn?: CheckInCodeDoc;
+  checkInUrl: string;
+  roster: CheckInRosterEntry[];
+  // Hours can only be credited on events that belong to a project.
+  canCreditHours: boolean;
+  defaultHours: number;
+  isBusy?: boolean;
+  onOpen: () => void;
+  onEnd: () => void;
+  onCheckIn: (uid: string) => void;
+  onCredit: (attendance: AttendanceDoc[], hours: number) => void;
+  onClose: () => void;
+}) {
+  const [hours, setHours] = useState(String(defaultHours));
+  const checkedIn = roster.filter((entry) => entry.attendance);
+  const uncredited = checkedIn
+    .map((entry) => entry.attendance as AttendanceDoc)
+    .filter((attendance) => !attendance.creditedHours);
+  const creditHours = Number(hours);
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 p-4">
+      <div className="max-h-[90vh] w-full max-w-2xl overflow-y-auto rounded-2xl bg-white p-5">
+        <div className="mb-4 flex items-start justify-between gap-2">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Check-in: {title}</h3>
+            <p className="mt-1 text-sm text-slate-600">{when}</p>
+          </div>
+          <button type="button" onClick={onClose} className="rounded-lg p-1 text-slate-500 hover:bg-slate-100" aria-label="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        {checkIn ? (
+          <div className="flex flex-wrap items-center gap-5 rounded-2xl border border-slate-200 bg-slate-50 p-4">
+            <QrCode value={checkInUrl} size={176} label={`Check-in QR code for ${title}`} />
+            <div className="space-y-2">
+              <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Check-in code</p>
+              <p className="font-mono text-4xl font-black tracking-[0.3em] text-slate-900">{checkIn.id}</p>
+              <p className="text-xs text-slate-600">
+                Volunteers scan the code or enter it under Events. Open until {checkIn.closesAt.toLocaleString()}.
+              </p>
+              <button
+                disabled={isBusy}
+                onClick={onEnd}
+                className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+              >
+                End Check-in
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-dashed border-slate-300 bg-slate-50 p-4">
+            <p className="text-sm text-slate-600">Show a QR code and short code that volunteers use to check themselves in.</p>
+            <button
+              disabled={isBusy}
+              onClick={onOpen}
+              className="rounded-xl bg-[#0b1a37] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#13264d] disabled:opacity-60"
+            >
+              Start Check-in
+            </button>
+          </div>
+        )}
+
+        <div className="mt-5 flex flex-wrap items-center justify-between gap-2">
+          <h4 className="font-bold text-slate-900">
+            Attendance: {checkedIn.length} checked in
+            {roster.some((entry) => entry.rsvped) ? ` of ${roster.filter((entry) => entry.rsvped).length} RSVPs` : ''}
+          </h4>
+          {canCreditHours ? (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0.5}
+                max={24}
+                step={0.5}
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+                className="w-20 rounded-lg border border-slate-300 px-2 py-1 text-xs"
+                aria-label="Hours to credit"
+              />
+              <button
+                disabled={isBusy || uncredited.length === 0 || !(creditHours > 0)}
+                onClick={() => onCredit(uncredited, creditHours)}
+                className="rounded-lg bg-emerald-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-50"
+              >
+                Credit hours to {uncredited.length} {uncredited.length === 1 ? 'attendee' : 'attendees'}
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-500">Add the event to a project to credit attendance as hours.</p>
+          )}
+        </div>
+
+        <ul className="mt-3 divide-y divide-slate-100 rounded-2xl border border-slate-200">
+          {roster.length === 0 ? <li className="px-3 py-3 text-sm text-slate-600">No RSVPs or check-ins yet.</li> : null}
+          {roster.map((entry) => (
+            <li key={entry.uid} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2">
+              <div>
+                <p className="text-sm font-semibold text-slate-900">{entry.name}</p>
+                <p className="text-xs text-slate-500">
+                  {entry.rsvped ? 'RSVPed' : 'Walk-in'}
+                  {entry.attendance
+                    ? ` • checked in ${entry.attendance.method === 'code' ? 'with the code' : 'by an organizer'}${
+                        entry.attendance.checkedInAt ? ` at ${entry.attendance.checkedInAt.toLocaleTimeString()}` : ''
+                      }`
+                    : ''}
+                  {entry.attendance?.creditedHours ? ` • ${entry.attendance.creditedHours}h credited` : ''}
+                </p>
+              </div>
+              {entry.attendance ? (
+                <span className="rounded-full bg-emerald-100 px-2 py-1 text-xs font-semibold text-emerald-700">Present</span>
+              ) : (
+                <button
+                  disabled={isBusy}
+                  onClick={() => onCheckIn(entry.uid)}
+                  className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                >
+                  Check In
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { FileText } from 'lucide-react';
+import type { ContributionDecision, ContributionRow } from '../types';
+
+export default function ContributionReview({
+  contributions,
+  isBusy,
+  onDecision,
+}: {
+  contributions: ContributionRow[];
+  isBusy?: boolean;
+  onDecision: (id: string, decision: ContributionDecision, note: string) => Promise<boolean>;
+}) {
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const decide = async (id: string, decision: ContributionDecision) => {
+    const done = await onDecision(id, decision, notes[id] || '');
+    if (done) setNotes((prev) => ({ ...prev, [id]: '' }));
+  };
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
+      <h3 className="text-xl font-black tracking-tight text-slate-900">Hours Verification Queue</h3>
+      <p className="mb-4 mt-1 text-sm text-slate-600">Only verified hours count toward volunteer totals, impact scores and badges.</p>
+      <div className="space-y-3">
+        {contributions.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">No hours waiting for verification.</p>
+        ) : (
+          contributions.map((item) => (
+            <article key={item.id} className="rounded-2xl border border-slate-200 p-3">
+              <div className="flex gap-3">
+                {item.evidenceUrl ? (
+                  <a
+                    href={item.evidenceUrl}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="grid h-16 w-16 shrink-0 place-items-center overflow-hidden rounded-xl border border-slate-200 bg-slate-50"
+                    aria-label={`Open evidence from ${item.volunteer}`}
+                  >
+                    {item.evidenceIsImage ? (
+                      <img src={item.evidenceUrl} alt={`Evidence from ${item.volunteer}`} className="h-full w-full object-cover" loading="lazy" />
+                    ) : (
+                      <FileText className="h-6 w-6 text-slate-500" />
+                    )}
+                  </a>
+                ) : (
+                  <div className="grid h-16 w-16 shrink-0 place-items-center rounded-xl border border-dashed border-slate-300 text-[10px] font-semibold uppercase text-slate-400">
+                    No proof
+                  </div>
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div>
+                      <h4 className="font-bold text-slate-900">{item.volunteer}</h4>
+                      <p className="text-xs text-slate-600">{item.project} • {item.loggedAt}</p>
+                    </div>
+                    <div className="flex gap-1">
+                      <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">{item.hours}h</span>
+                      <span className="rounded-full bg-emerald-100 px-2 py-1 text-xs font-semibold text-emerald-700">+{item.points} pts</span>
+                    </div>
+                  </div>
+                  <p className="mt-1 text-sm text-slate-600">{item.notes}</p>
+                  {item.metricClaim ? <p className="mt-1 text-xs font-semibold text-slate-700">Reported: {item.metricClaim}</p> : null}
+                  {item.response ? <p className="mt-1 rounded-lg bg-slate-50 px-2 py-1 text-xs text-slate-700">Volunteer reply: {item.response}</p> : null}
+                  <p className="mt-1 text-xs text-slate-500">{item.onLedger ? 'Recorded on impact ledger' : 'Dashboard only'}</p>
+                  <p className="mt-1 text-xs text-slate-500">If approved: {item.scoreDetail}</p>
+                </div>
+              </div>
+              <input
+                value={notes[item.id] || ''}
+                onChange={(event) => setNotes((prev) => ({ ...prev, [item.id]: event.target.value }))}
+                placeholder="Note for the volunteer (required to reject or ask for more info)"
+                className="mt-3 w-full rounded-lg border border-slate-300 px-2.5 py-1.5 text-xs"
+              />
+              <div className="mt-2 flex flex-wrap gap-2">
+                <button disabled={isBusy} onClick={() => void decide(item.id, 'verified')} className="rounded-lg bg-emerald-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-emerald-700 disabled:opacity-60">Approve</button>
+                <button disabled={isBusy} onClick={() => void decide(item.id, 'rejected')} className="rounded-lg bg-rose-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-rose-700 disabled:opacity-60">Reject</button>
+                <button disabled={isBusy} onClick={() => void decide(item.id, 'needs_info')} className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-60">Request more info</button>
+              </div>
+            </article>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,216 @@
+import { FormEvent, useState } from 'react';
+import { X } from 'lucide-react';
+import type { EventDoc, EventInput, ProjectDoc, RecurrenceFrequency } from '../../../lib/turknodeDb';
+
+type Draft = {
+  title: string;
+  description: string;
+  type: EventInput['type'];
+  projectId: string;
+  location: string;
+  startsAt: string;
+  endsAt: string;
+  capacity: string;
+  repeat: RecurrenceFrequency | '';
+  interval: string;
+  // yyyy-mm-dd of the last date; empty for no end.
+  until: string;
+};
+
+const REPEAT_UNITS: Record<RecurrenceFrequency, string> = { daily: 'days', weekly: 'weeks', monthly: 'months' };
+
+// datetime-local inputs work in the viewer's time zone.
+function localInputValue(date: Date | undefined) {
+  if (!date) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function initialDraft(event?: EventDoc): Draft {
+  return {
+    title: event?.title || '',
+    description: event?.description || '',
+    type: event?.type || 'community',
+    projectId: event?.projectId || '',
+    location: event?.location || '',
+    startsAt: localInputValue(event?.startsAt),
+    endsAt: localInputValue(event?.endsAt),
+    capacity: event?.capacity ? String(event.capacity) : '',
+    repeat: event?.recurrence?.frequency || '',
+    interval: String(event?.recurrence?.interval || 1),
+    until: localInputValue(event?.recurrence?.until).slice(0, 10),
+  };
+}
+
+export default function EventEditor({
+  event,
+  projects,
+  isBusy,
+  onSave,
+  onClose,
+}: {
+  // The event being edited; a new event when absent.
+  event?: EventDoc;
+  projects: ProjectDoc[];
+  isBusy?: boolean;
+  onSave: (input: EventInput) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<Draft>(() => initialDraft(event));
+  const set = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const submit = async (formEvent: FormEvent<HTMLFormElement>) => {
+    formEvent.preventDefault();
+    const project = projects.find((row) => row.id === draft.projectId);
+    const saved = await onSave({
+      title: draft.title,
+      description: draft.description,
+      type: draft.type,
+      projectId: draft.projectId || undefined,
+      category: project?.category || event?.category || 'Community',
+      location: draft.location,
+      startsAt: new Date(draft.startsAt),
+      endsAt: draft.endsAt ? new Date(draft.endsAt) : undefined,
+      capacity: draft.capacity.trim() ? Number(draft.capacity) : undefined,
+      recurrence: draft.repeat
+        ? {
+            frequency: draft.repeat,
+            interval: Number(draft.interval),
+            until: draft.until ? new Date(`${draft.until}T23:59:59.999`) : undefined,
+            // A series keeps the time zone it was created in; new ones use the lead's.
+            timeZone: event?.recurrence?.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+          }
+        : undefined,
+    });
+    if (saved) onClose();
+  };
+
+  const inputClass = 'w-full rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 p-4">
+      <form onSubmit={submit} className="w-full max-w-lg rounded-2xl bg-white p-5">
+        <div className="mb-4 flex items-start justify-between gap-2">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">{event ? 'Edit Event' : 'Create Event'}</h3>
+            {event && event.rsvps.length > 0 ? (
+              <p className="mt-1 text-sm text-slate-600">
+                {event.rsvps.length} {event.rsvps.length === 1 ? 'volunteer is' : 'volunteers are'} attending and will be
+                notified of changes.
+              </p>
+            ) : null}
+          </div>
+          <button type="button" onClick={onClose} className="rounded-lg p-1 text-slate-500 hover:bg-slate-100" aria-label="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <input value={draft.title} onChange={(e) => set({ title: e.target.value })} placeholder="Event title" className={inputClass} required />
+          <textarea
+            value={draft.description}
+            onChange={(e) => set({ description: e.target.value })}
+            placeholder="What volunteers should know: agenda, what to bring, who it is for"
+            className={`${inputClass} h-20`}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <select value={draft.type} onChange={(e) => set({ type: e.target.value as Draft['type'] })} className={inputClass}>
+              <option value="community">Community</option>
+              <option value="training">Training</option>
+              <option value="meeting">Meeting</option>
+            </select>
+            <select value={draft.projectId} onChange={(e) => set({ projectId: e.target.value })} className={inputClass}>
+              <option value="">No project</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.title}
+                </option>
+              ))}
+            </select>
+          </div>
+          <input value={draft.location} onChange={(e) => set({ location: e.target.value })} placeholder="Location or Remote" className={inputClass} required />
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Starts
+              <input
+                type="datetime-local"
+                value={draft.startsAt}
+                onChange={(e) => set({ startsAt: e.target.value })}
+                className={`${inputClass} mt-1 font-normal normal-case tracking-normal text-slate-900`}
+                required
+              />
+            </label>
+            <label className="block text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Ends
+              <input
+                type="datetime-local"
+                value={draft.endsAt}
+                min={draft.startsAt}
+                onChange={(e) => set({ endsAt: e.target.value })}
+                className={`${inputClass} mt-1 font-normal normal-case tracking-normal text-slate-900`}
+              />
+            </label>
+          </div>
+          <input
+            type="number"
+            min={Math.max(1, event?.rsvps.length || 0)}
+            step={1}
+            value={draft.capacity}
+            onChange={(e) => set({ capacity: e.target.value })}
+            placeholder="Capacity (leave empty for no limit)"
+            className={inputClass}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <select value={draft.repeat} onChange={(e) => set({ repeat: e.target.value as Draft['repeat'] })} className={inputClass}>
+              <option value="">Does not repeat</option>
+              <option value="daily">Daily</option>
+              <option value="weekly">Weekly</option>
+              <option value="monthly">Monthly</option>
+            </select>
+            {draft.repeat ? (
+              <>
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                  Every
+                  <input
+                    type="number"
+                    min={1}
+                    max={52}
+                    step={1}
+                    value={draft.interval}
+                    onChange={(e) => set({ interval: e.target.value })}
+                    className={inputClass}
+                    required
+                  />
+                  {REPEAT_UNITS[draft.repeat]}
+                </label>
+                <input
+                  type="date"
+                  value={draft.until}
+                  min={draft.startsAt.slice(0, 10)}
+                  onChange={(e) => set({ until: e.target.value })}
+                  className={inputClass}
+                  aria-label="Repeat until"
+                  title="Repeat until (leave empty for no end)"
+                />
+              </>
+            ) : null}
+          </div>
+          {event?.recurrence?.exceptions.length ? (
+            <p className="text-xs text-slate-500">
+              {event.recurrence.exceptions.length} skipped {event.recurrence.exceptions.length === 1 ? 'date stays' : 'dates stay'} skipped
+              unless the first date or how often it repeats changes.
+            </p>
+          ) : null}
+        </div>
+
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="mt-5 w-full rounded-xl bg-[#0b1a37] px-4 py-2.5 text-sm font-semibold text-white transition hover:bg-[#13264d] disabled:opacity-60"
+        >
+          {event ? 'Save Changes' : 'Create Event'}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,29 +1,146 @@
+import { useState } from 'react';
 import type { EventRow } from '../types';
 
-export default function EventsPanel({ events }: { events: EventRow[] }) {
+export default function EventsPanel({
+  events,
+  isBusy,
+  onCreate,
+  onEdit,
+  onCancel,
+  onSkip,
+  onCheckIn,
+}: {
+  events: EventRow[];
+  isBusy?: boolean;
+  onCreate: () => void;
+  onEdit: (id: string) => void;
+  onCancel: (id: string, reason: string) => Promise<boolean>;
+  // Skips one date of a repeating event.
+  onSkip: (id: string, occurrenceKey: string) => void;
+  // Opens check-in mode for one date of the event.
+  onCheckIn: (id: string, occurrenceKey: string) => void;
+}) {
+  // The row whose event cancellation is being confirmed, with the note sent to attendees.
+  const [cancelling, setCancelling] = useState<{ rowKey: string; id: string; reason: string } | null>(null);
+
+  const confirmCancel = async () => {
+    if (!cancelling) return;
+    const done = await onCancel(cancelling.id, cancelling.reason);
+    if (done) setCancelling(null);
+  };
+
   return (
     <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
       <div className="mb-4 flex items-center justify-between">
         <h3 className="text-xl font-black tracking-tight text-slate-900">Events & Schedule</h3>
-        <button className="rounded-xl bg-[#0b1a37] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#13264d]">Create Event</button>
+        <button onClick={onCreate} className="rounded-xl bg-[#0b1a37] px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-[#13264d]">Create Event</button>
       </div>
       <div className="space-y-3">
-        {events.map((event) => (
-          <article key={event.id} className="rounded-2xl border border-slate-200 p-3">
-            <div className="flex items-start justify-between gap-2">
-              <div>
-                <h4 className="font-bold text-slate-900">{event.title}</h4>
-                <p className="text-xs text-slate-600">{event.when} • {event.location}</p>
+        {events.length === 0 ? (
+          <p className="rounded-xl border border-dashed border-slate-300 bg-slate-50 px-4 py-4 text-sm text-slate-600">No events scheduled.</p>
+        ) : null}
+        {events.map((event) => {
+          const rowKey = `${event.id}:${event.occurrenceKey}`;
+          return (
+            <article key={rowKey} className={`rounded-2xl border border-slate-200 p-3 ${event.cancelled ? 'opacity-70' : ''}`}>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h4 className={`font-bold text-slate-900 ${event.cancelled ? 'line-through' : ''}`}>{event.title}</h4>
+                  <p className="text-xs text-slate-600">{event.when} • {event.location}</p>
+                  {event.repeats ? <p className="text-xs font-semibold text-slate-500">{event.repeats}</p> : null}
+                </div>
+                {event.cancelled ? (
+                  <span className="rounded-full bg-rose-100 px-2 py-1 text-xs font-semibold text-rose-700">cancelled</span>
+                ) : (
+                  <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">{event.type}</span>
+                )}
+              </div>
+              {event.description ? <p className="mt-2 text-xs text-slate-600">{event.description}</p> : null}
+              <div className="mt-2 flex flex-wrap gap-2">
+                <span className="rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">
+                  {event.capacity ? `${event.confirmed}/${event.capacity} confirmed` : `${event.confirmed} confirmed`}
+                </span>
+                {event.waitlisted > 0 ? (
+                  <span className="rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800">{event.waitlisted} waitlisted</span>
+                ) : null}
+                {event.checkedIn > 0 ? (
+                  <span className="rounded-full bg-emerald-100 px-2 py-1 text-xs font-semibold text-emerald-700">{event.checkedIn} checked in</span>
+                ) : null}
+                {event.noShowRate !== null ? (
+                  <span className="rounded-full bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800">
+                    No-shows {Math.round(event.noShowRate * 100)}%
+                  </span>
+                ) : null}
+                {event.canManage && !event.cancelled ? (
+                  <>
+                    <button
+                      disabled={isBusy}
+                      onClick={() => onCheckIn(event.id, event.occurrenceKey)}
+                      className={`rounded-lg px-2.5 py-1 text-xs font-semibold transition disabled:opacity-50 ${
+                        event.checkInOpen
+                          ? 'bg-emerald-600 text-white hover:bg-emerald-700'
+                          : 'border border-slate-300 bg-white text-slate-700 hover:bg-slate-50'
+                      }`}
+                    >
+                      {event.checkInOpen ? 'Check-in Open' : 'Check-in'}
+                    </button>
+                    <button
+                      disabled={isBusy}
+                      onClick={() => onEdit(event.id)}
+                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                    >
+                      {event.repeats ? 'Edit Series' : 'Edit Event'}
+                    </button>
+                    {event.repeats ? (
+                      <button
+                        disabled={isBusy}
+                        onClick={() => onSkip(event.id, event.occurrenceKey)}
+                        className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                      >
+                        Skip Date
+                      </button>
+                    ) : null}
+                    <button
+                      disabled={isBusy}
+                      onClick={() => setCancelling({ rowKey, id: event.id, reason: '' })}
+                      className="rounded-lg border border-rose-200 bg-white px-2.5 py-1 text-xs font-semibold text-rose-700 transition hover:bg-rose-50 disabled:opacity-50"
+                    >
+                      {event.repeats ? 'Cancel Series' : 'Cancel Event'}
+                    </button>
+                  </>
+                ) : null}
               </div>
-              <span className="rounded-full bg-blue-100 px-2 py-1 text-xs font-semibold text-blue-700">{event.type}</span>
-            </div>
-            <div className="mt-2 flex flex-wrap gap-2">
-              <span className="rounded-full bg-slate-100 px-2 py-1 text-xs font-semibold text-slate-700">{event.rsvpCount} RSVPs</span>
-              <button className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50">Edit Event</button>
-              <button className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50">Send Reminder</button>
-            </div>
-          </article>
-        ))}
+              {cancelling?.rowKey === rowKey ? (
+                <div className="mt-3 space-y-2 rounded-xl border border-rose-200 bg-rose-50 p-3">
+                  <p className="text-xs font-semibold text-rose-800">
+                    {event.repeats ? 'Cancel every date of this event?' : 'Cancel this event?'} {event.confirmed > 0 ? `All ${event.confirmed} attendees${event.waitlisted > 0 ? ` and ${event.waitlisted} waitlisted volunteers` : ''} will be notified.` : ''}
+                  </p>
+                  <input
+                    value={cancelling.reason}
+                    onChange={(e) => setCancelling({ rowKey, id: event.id, reason: e.target.value })}
+                    placeholder="Optional note for attendees"
+                    className="w-full rounded-lg border border-rose-200 bg-white px-2.5 py-1.5 text-xs"
+                  />
+                  <div className="flex gap-2">
+                    <button
+                      disabled={isBusy}
+                      onClick={() => void confirmCancel()}
+                      className="rounded-lg bg-rose-600 px-2.5 py-1 text-xs font-semibold text-white transition hover:bg-rose-700 disabled:opacity-50"
+                    >
+                      Cancel Event
+                    </button>
+                    <button
+                      onClick={() => setCancelling(null)}
+                      className="rounded-lg border border-slate-300 bg-white px-2.5 py-1 text-xs font-semibold text-slate-700 transition hover:bg-slate-50"
+                    >
+                      Keep Event
+                    </button>
+                  </div>
+                </div>
+              ) : null}
+            </article>
+          );
+        })}
       </div>
     </section>
   );
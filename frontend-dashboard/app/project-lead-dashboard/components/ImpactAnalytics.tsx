@@ -1,23 +1,76 @@
+import { useMemo, useState } from 'react';
+import type { ImpactMetricTotal } from '../../../lib/impactMetrics';
+import {
+  MOMENTUM_METRICS,
+  momentumSeries,
+  type BucketSize,
+  type MomentumData,
+  type MomentumMetric,
+} from '../../../lib/timeSeries';
+
+function dateInputValue(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function defaultRange() {
+  const today = new Date();
+  const from = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - 5, 1));
+  return { from: dateInputValue(from), to: dateInputValue(today) };
+}
+
 export default function ImpactAnalytics({
   hours,
   activeInitiatives,
   completed,
+  metrics: impactMetrics,
+  momentum,
 }: {
   hours: number;
   activeInitiatives: number;
   completed: number;
+  // Organization-wide progress per project impact metric (verified contributions only).
+  metrics: ImpactMetricTotal[];
+  // Contributions, tasks and projects of the lead's projects, for the momentum chart.
+  momentum: MomentumData;
 }) {
+  const [metric, setMetric] = useState<MomentumMetric>('hours');
+  const [size, setSize] = useState<BucketSize>('month');
+  const [range, setRange] = useState(defaultRange);
+  const [projectId, setProjectId] = useState('');
+  const [category, setCategory] = useState('');
+
+  const categories = useMemo(
+    () => Array.from(new Set(momentum.projects.map((project) => project.category).filter(Boolean))).sort(),
+    [momentum.projects]
+  );
+
+  const series = useMemo(() => {
+    const from = new Date(`${range.from}T00:00:00Z`);
+    const through = new Date(`${range.to}T00:00:00Z`);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(through.getTime()) || through < from) return [];
+    // The "to" date is inclusive in the form; the series end is exclusive.
+    const to = new Date(through.getTime() + 24 * 60 * 60 * 1000);
+    return momentumSeries(momentum, { metric, size, from, to, projectId, category });
+  }, [momentum, metric, size, range, projectId, category]);
+
+  const peak = Math.max(0, ...series.map((bucket) => bucket.value));
+  const total = Math.round(series.reduce((sum, bucket) => sum + bucket.value, 0) * 10) / 10;
+  const metricLabel = MOMENTUM_METRICS.find((entry) => entry.id === metric)?.label || '';
+
   const metrics = [
-    { label: 'Volunteer hours contributed', value: `${hours.toFixed(1)}h` },
-    { label: 'Initiatives completed', value: `${completed}` },
-    { label: 'People helped', value: '1,200' },
-    { label: 'Trees planted', value: '340' },
-    { label: 'Workshops hosted', value: '75' },
-    { label: 'Active partners', value: `${Math.max(6, activeInitiatives + 2)}` },
+    { label: 'Volunteer hours contributed', value: `${hours.toFixed(1)}h`, detail: '' },
+    { label: 'Initiatives completed', value: `${completed}`, detail: '' },
+    ...impactMetrics.map((metric) => ({
+      label: metric.metric,
+      value: metric.achieved.toLocaleString(),
+      detail:
+        metric.percent === null
+          ? `${metric.projects} ${metric.projects === 1 ? 'project' : 'projects'}, no target set`
+          : `${metric.percent}% of ${metric.target.toLocaleString()} across ${metric.projects} ${metric.projects === 1 ? 'project' : 'projects'}`,
+    })),
+    { label: 'Active partners', value: `${Math.max(6, activeInitiatives + 2)}`, detail: '' },
   ];
 
-  const chartBars = [62, 74, 58, 83, 91, 77];
-
   return (
     <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
       <h3 className="text-xl font-black tracking-tight text-slate-900">Impact Analytics</h3>
@@ -28,17 +81,107 @@ export default function ImpactAnalytics({
           <article key={metric.label} className="rounded-2xl border border-slate-200 p-3">
             <p className="text-xs uppercase tracking-wide text-slate-500">{metric.label}</p>
             <p className="mt-1 text-2xl font-black text-slate-900">{metric.value}</p>
+            {metric.detail ? <p className="mt-1 text-xs text-slate-500">{metric.detail}</p> : null}
           </article>
         ))}
       </div>
 
       <div className="mt-4 rounded-2xl border border-slate-200 p-4">
-        <p className="text-sm font-semibold text-slate-700">Monthly initiative momentum</p>
-        <div className="mt-3 flex h-28 items-end gap-2">
-          {chartBars.map((height, idx) => (
-            <div key={idx} className="flex-1 rounded-t-md bg-gradient-to-t from-[#0b1a37] to-[#2563eb]" style={{ height: `${height}%` }} />
-          ))}
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <p className="text-sm font-semibold text-slate-700">
+            {size === 'month' ? 'Monthly' : 'Weekly'} momentum: {metricLabel.toLowerCase()}
+          </p>
+          <p className="text-xs text-slate-500">Total {total.toLocaleString()}</p>
         </div>
+
+        <div className="mt-3 grid gap-2 text-xs sm:grid-cols-3 xl:grid-cols-6">
+          <select
+            value={metric}
+            onChange={(event) => setMetric(event.target.value as MomentumMetric)}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="Chart metric"
+          >
+            {MOMENTUM_METRICS.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={size}
+            onChange={(event) => setSize(event.target.value as BucketSize)}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="Group by"
+          >
+            <option value="month">By month</option>
+            <option value="week">By week</option>
+          </select>
+          <input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(event) => setRange((current) => ({ ...current, from: event.target.value }))}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="From"
+          />
+          <input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(event) => setRange((current) => ({ ...current, to: event.target.value }))}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="To"
+          />
+          <select
+            value={projectId}
+            onChange={(event) => setProjectId(event.target.value)}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="Project"
+          >
+            <option value="">All projects</option>
+            {momentum.projects.map((project) => (
+              <option key={project.id} value={project.id}>
+                {project.title}
+              </option>
+            ))}
+          </select>
+          <select
+            value={category}
+            onChange={(event) => setCategory(event.target.value)}
+            className="rounded-xl border border-slate-200 px-2 py-1.5 text-slate-700"
+            aria-label="Category"
+          >
+            <option value="">All categories</option>
+            {categories.map((entry) => (
+              <option key={entry} value={entry}>
+                {entry}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {series.length === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">Choose a start date on or before the end date.</p>
+        ) : peak === 0 ? (
+          <p className="mt-4 text-sm text-slate-500">No activity in this range.</p>
+        ) : (
+          <div className="mt-4 flex h-36 items-end gap-1 overflow-x-auto">
+            {series.map((bucket) => (
+              <div
+                key={bucket.start.toISOString()}
+                className="flex h-full min-w-[2rem] flex-1 flex-col items-center justify-end gap-1"
+                title={`${bucket.label}: ${bucket.value.toLocaleString()}`}
+              >
+                <span className="text-[10px] font-semibold text-slate-600">{bucket.value > 0 ? bucket.value : ''}</span>
+                <div
+                  className="w-full rounded-t-md bg-gradient-to-t from-[#0b1a37] to-[#2563eb]"
+                  style={{ height: `${(bucket.value / peak) * 80}%` }}
+                />
+                <span className="whitespace-nowrap text-[10px] text-slate-500">{bucket.label}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </section>
   );
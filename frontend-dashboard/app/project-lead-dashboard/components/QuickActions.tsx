@@ -2,14 +2,18 @@ import { Megaphone, PlusCircle, Presentation, Upload } from 'lucide-react';
 
 export default function QuickActions({
   onCreateProject,
+  onAddEvent,
+  onExportReport,
 }: {
   onCreateProject: () => void;
+  onAddEvent: () => void;
+  onExportReport: () => void;
 }) {
   const actions = [
     { label: 'Create Project', icon: PlusCircle, onClick: onCreateProject },
-    { label: 'Add Event', icon: Presentation },
+    { label: 'Add Event', icon: Presentation, onClick: onAddEvent },
     { label: 'Broadcast Update', icon: Megaphone },
-    { label: 'Export Report', icon: Upload },
+    { label: 'Export Report', icon: Upload, onClick: onExportReport },
   ];
 
   return (
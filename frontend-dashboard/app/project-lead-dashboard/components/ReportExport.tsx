@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { FileDown, Printer, X } from 'lucide-react';
+import type { ProjectDoc } from '../../../lib/turknodeTypes';
+
+export type ReportFormat = 'csv' | 'pdf';
+
+export type ReportRequest = {
+  format: ReportFormat;
+  projectId: string;
+  // yyyy-mm-dd, both inclusive.
+  from: string;
+  through: string;
+};
+
+function dateInputValue(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function ReportExport({
+  projects,
+  isBusy,
+  onExport,
+  onClose,
+}: {
+  projects: ProjectDoc[];
+  isBusy?: boolean;
+  onExport: (request: ReportRequest) => void;
+  onClose: () => void;
+}) {
+  const [projectId, setProjectId] = useState('');
+  const [from, setFrom] = useState(() => {
+    const today = new Date();
+    return dateInputValue(new Date(Date.UTC(today.getUTCFullYear(), 0, 1)));
+  });
+  const [through, setThrough] = useState(() => dateInputValue(new Date()));
+  const isValid = Boolean(from && through && from <= through);
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 p-4">
+      <section className="w-full max-w-md rounded-2xl bg-white p-5">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Export Impact Report</h3>
+            <p className="mt-1 text-sm text-slate-600">
+              Volunteer roster, hours, verification, metric progress and events for grant reporting.
+            </p>
+          </div>
+          <button onClick={onClose} className="rounded-lg p-1 text-slate-500 hover:bg-slate-100" aria-label="Close">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div className="mt-4 space-y-3 text-sm">
+          <label className="block">
+            <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Projects</span>
+            <select
+              value={projectId}
+              onChange={(event) => setProjectId(event.target.value)}
+              className="mt-1 w-full rounded-xl border border-slate-300 bg-white px-3 py-2"
+            >
+              <option value="">All my projects</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label className="block">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">From</span>
+              <input
+                type="date"
+                value={from}
+                max={through}
+                onChange={(event) => setFrom(event.target.value)}
+                className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2"
+              />
+            </label>
+            <label className="block">
+              <span className="text-xs font-semibold uppercase tracking-wide text-slate-500">Through</span>
+              <input
+                type="date"
+                value={through}
+                min={from}
+                onChange={(event) => setThrough(event.target.value)}
+                className="mt-1 w-full rounded-xl border border-slate-300 px-3 py-2"
+              />
+            </label>
+          </div>
+          {!isValid ? <p className="text-xs text-red-600">Choose a start date on or before the end date.</p> : null}
+        </div>
+
+        <div className="mt-5 grid grid-cols-2 gap-2">
+          <button
+            disabled={isBusy || !isValid}
+            onClick={() => onExport({ format: 'csv', projectId, from, through })}
+            className="inline-flex items-center justify-center gap-2 rounded-xl border border-slate-300 bg-white px-3 py-2 text-sm font-semibold text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+          >
+            <FileDown className="h-4 w-4" /> Download CSV
+          </button>
+          <button
+            disabled={isBusy || !isValid}
+            onClick={() => onExport({ format: 'pdf', projectId, from, through })}
+            className="inline-flex items-center justify-center gap-2 rounded-xl bg-[#0b1a37] px-3 py-2 text-sm font-semibold text-white transition hover:bg-[#13264d] disabled:opacity-50"
+          >
+            <Printer className="h-4 w-4" /> Print / PDF
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import LoadMoreSentinel from '../../components/LoadMoreSentinel';
 import type { VolunteerRow } from '../types';
 
 const statusTone: Record<VolunteerRow['status'], string> = {
@@ -6,7 +7,17 @@ const statusTone: Record<VolunteerRow['status'], string> = {
   'needs-assignment': 'bg-amber-100 text-amber-700',
 };
 
-export default function VolunteersModule({ volunteers }: { volunteers: VolunteerRow[] }) {
+export default function VolunteersModule({
+  volunteers,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: {
+  volunteers: VolunteerRow[];
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+}) {
   return (
     <section className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
       <div className="mb-4 flex items-center justify-between">
@@ -37,6 +48,9 @@ export default function VolunteersModule({ volunteers }: { volunteers: Volunteer
           </article>
         ))}
       </div>
+      {onLoadMore ? (
+        <LoadMoreSentinel hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} label="Load more volunteers" />
+      ) : null}
     </section>
   );
 }
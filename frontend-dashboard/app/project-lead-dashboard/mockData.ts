@@ -50,6 +50,7 @@ export const applicationsMock: ApplicationRow[] = [
   {
     id: 'a1',
     name: 'Benjamin Kofi Amoah',
+    projectId: 'p1',
     project: 'Digital Access Initiative',
     skillsMatch: 88,
     availability: 'Weekends',
@@ -60,6 +61,7 @@ export const applicationsMock: ApplicationRow[] = [
   {
     id: 'a2',
     name: 'Nora Mensah',
+    projectId: 'p2',
     project: 'Urban Tree Stewardship',
     skillsMatch: 79,
     availability: 'Evenings',
@@ -102,19 +104,37 @@ export const tasksMock: TaskRow[] = [
 export const eventsMock: EventRow[] = [
   {
     id: 'e1',
+    occurrenceKey: '2026-03-15T18:00:00.000Z',
     title: 'Volunteer Training Session',
     type: 'training',
     when: 'Mar 15, 2026 • 6:00 PM',
     location: 'Remote',
-    rsvpCount: 23,
+    description: 'Orientation for new volunteers joining this month.',
+    confirmed: 40,
+    waitlisted: 6,
+    capacity: 40,
+    checkedIn: 33,
+    noShowRate: 0.18,
+    checkInOpen: false,
+    cancelled: false,
+    canManage: true,
   },
   {
     id: 'e2',
+    occurrenceKey: '2026-03-16T13:30:00.000Z',
+    repeats: 'Every week',
     title: 'Tree Planting Kickoff',
     type: 'community',
     when: 'Mar 16, 2026 • 9:30 AM',
     location: 'Fairmount Park',
-    rsvpCount: 31,
+    description: 'Meet the crew leads and pick up tools for the first planting day.',
+    confirmed: 31,
+    waitlisted: 0,
+    checkedIn: 0,
+    noShowRate: null,
+    checkInOpen: true,
+    cancelled: false,
+    canManage: true,
   },
 ];
 
@@ -3,30 +3,74 @@
 import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { Loader2, LogOut, Menu, X } from "lucide-react";
-import { auth, firebaseReady } from "../../lib/firebase";
-import { signOut } from "firebase/auth";
+import { endSession, onSessionChange, sessionAvailable } from "../../lib/turknodeSession";
 import {
-  createProject,
-  listApplicationsForLead,
+  DEFAULT_PAGE_SIZE,
+  cancelEvent,
+  checkInAttendee,
+  closeCheckIn,
+  openCheckIn,
+  skipEventOccurrence,
+  createEvent,
+  describeInvalidDocument,
+  getImpactScoreModel,
+  getOpenCheckIn,
+  listContributionsForLead,
+  listProjects,
+  listAttendanceForEvents,
   listEvents,
-  listTasksForLead,
-  listThreads,
   listVolunteers,
+  listVolunteersPage,
   getUserProfile,
-  listProjects,
+  onInvalidDocument,
   seedIfEmpty,
+  setProjectImpactTarget,
+  setProjectJoinPolicy,
+  subscribeToEventAttendance,
+  subscribeToEvents,
+  subscribeToLeadApplications,
+  subscribeToLeadContributions,
+  subscribeToLeadProjects,
+  subscribeToLeadTasks,
+  subscribeToThreads,
+  reviewApplication,
   updateApplicationState,
+  updateEvent,
   updateTaskStatus,
   upsertUserProfile,
+  type ApplicationDecision,
   type ApplicationDoc,
+  type ApplicationReviewOptions,
+  type AttendanceDoc,
+  type CheckInCodeDoc,
+  type ContributionDoc,
   type EventDoc,
+  type EventInput,
+  type ImpactScoreModelDoc,
   type ProjectDoc,
+  type ProjectJoinPolicy,
   type TaskDoc,
   type UserProfileDoc,
 } from "../../lib/turknodeDb";
+import { downloadFile, printHtml } from "../../lib/browserFiles";
+import { describeRecurrence, findOccurrence, scheduleOccurrences } from "../../lib/eventRecurrence";
+import { isImageEvidence } from "../../lib/evidenceUpload";
+import { summarizeImpactMetrics } from "../../lib/impactMetrics";
+import { buildImpactReport, reportToCsv, reportToHtml } from "../../lib/impactReport";
+import { creditAttendanceHours, reviewContribution } from "../../lib/impactLedger";
+import {
+  DEFAULT_IMPACT_SCORE_MODEL,
+  describeContributionScore,
+  scoreContribution,
+  type ContributionScore,
+} from "../../lib/impactScore";
+import { publishProject, setProjectStatus, syncLeadProjects } from "../../lib/projectService";
 import ActiveProjectsModule from "./components/ActiveProjectsModule";
 import ApplicationsQueue from "./components/ApplicationsQueue";
+import CheckInMode, { type CheckInRosterEntry } from "./components/CheckInMode";
 import CommandSummary from "./components/CommandSummary";
+import ContributionReview from "./components/ContributionReview";
+import EventEditor from "./components/EventEditor";
 import EventsPanel from "./components/EventsPanel";
 import ImpactAnalytics from "./components/ImpactAnalytics";
 import KPIGrid from "./components/KPIGrid";
@@ -34,9 +78,26 @@ import ManagerHeader from "./components/ManagerHeader";
 import ManagerSidebar from "./components/ManagerSidebar";
 import MessagesPanel from "./components/MessagesPanel";
 import QuickActions from "./components/QuickActions";
+import ReportExport, { type ReportRequest } from "./components/ReportExport";
 import TaskTracker from "./components/TaskTracker";
 import VolunteersModule from "./components/VolunteersModule";
-import type { ApplicationRow, ManagerSection, ManagerTab, MessageThread, TaskRow, VolunteerRow } from "./types";
+import type {
+  ApplicationRow,
+  ContributionDecision,
+  ContributionRow,
+  EventRow,
+  ManagerSection,
+  ManagerTab,
+  MessageThread,
+  TaskRow,
+  VolunteerRow,
+} from "./types";
+
+// Repeating events are listed by their dates in the last four and next eight weeks, so
+// attendance on recent dates stays in view.
+const EVENT_PAST_DAYS = 28;
+const EVENT_WINDOW_DAYS = 56;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 type FormState = {
   title: string;
@@ -47,6 +108,10 @@ type FormState = {
   startDate: string;
   endDate: string;
   impactMetric: string;
+  impactTarget: string;
+  joinPolicy: ProjectJoinPolicy;
+  // One task per line, assigned to volunteers whose applications are accepted.
+  onboardingTasks: string;
 };
 
 const initialForm: FormState = {
@@ -58,17 +123,21 @@ const initialForm: FormState = {
   startDate: "",
   endDate: "",
   impactMetric: "",
+  impactTarget: "",
+  joinPolicy: "open",
+  onboardingTasks: "",
 };
 
 function mapApplication(doc: ApplicationDoc): ApplicationRow {
   return {
     id: doc.id,
     name: doc.applicantName,
+    projectId: doc.projectId,
     project: doc.projectTitle,
     skillsMatch: doc.skillsMatch || 0,
     availability: doc.availability || "Not specified",
     message: doc.message || "No message included.",
-    appliedAt: doc.createdAt ? new Date(doc.createdAt).toLocaleDateString() : "Recently",
+    appliedAt: doc.createdAt ? doc.createdAt.toLocaleDateString() : "Recently",
     state: doc.state || "pending",
   };
 }
@@ -85,6 +154,38 @@ function mapTask(doc: TaskDoc): TaskRow {
   };
 }
 
+// `score` is what the contribution earns once verified.
+function mapContribution(doc: ContributionDoc, score: ContributionScore, project?: ProjectDoc): ContributionRow {
+  return {
+    id: doc.id,
+    volunteer: doc.volunteerName || "Volunteer",
+    project: doc.projectTitle || "General",
+    hours: doc.hours,
+    notes: doc.notes || "No notes included.",
+    loggedAt: doc.createdAt ? doc.createdAt.toLocaleDateString() : "Recently",
+    onLedger: Boolean(doc.transactionId),
+    evidenceUrl: doc.evidenceUrl,
+    evidenceIsImage: isImageEvidence(doc.evidenceContentType),
+    response: doc.volunteerResponse,
+    metricClaim:
+      doc.metricQuantity !== undefined ? `${doc.metricQuantity} × ${project?.impactMetric || "impact metric"}` : undefined,
+    points: score.points,
+    scoreDetail: describeContributionScore(score),
+  };
+}
+
+function mapThread(thread: Record<string, unknown>): MessageThread {
+  return {
+    id: String(thread.id),
+    title: Array.isArray(thread.members)
+      ? `Conversation (${(thread.members as string[]).length} members)`
+      : "Conversation",
+    preview: String(thread.lastMessage || "No messages yet."),
+    unread: 0,
+    updatedAt: thread.updatedAt ? new Date(thread.updatedAt as Date | string).toLocaleString() : "Recently",
+  };
+}
+
 function mapVolunteer(row: UserProfileDoc): VolunteerRow {
   const isAssigned = (row.completedProjects || 0) > 0 || (row.hoursContributed || 0) > 0;
   return {
@@ -108,6 +209,7 @@ export default function ProjectLeadDashboardPage() {
   const [uid, setUid] = useState("");
   const [profile, setProfile] = useState<UserProfileDoc | null>(null);
   const [projects, setProjects] = useState<ProjectDoc[]>([]);
+  const [organizationProjects, setOrganizationProjects] = useState<ProjectDoc[]>([]);
   const [form, setForm] = useState<FormState>(initialForm);
   const [isBusy, setIsBusy] = useState(false);
   const [notice, setNotice] = useState("");
@@ -116,58 +218,60 @@ export default function ProjectLeadDashboardPage() {
   const [activeSection, setActiveSection] = useState<ManagerSection>("dashboard");
   const [tab, setTab] = useState<ManagerTab>("overview");
   const [applications, setApplications] = useState<ApplicationRow[]>([]);
-  const [tasks, setTasks] = useState<TaskRow[]>([]);
+  // Every contribution and task on the lead's projects, kept live; the task board, the review
+  // queue and the momentum chart all read from these.
+  const [leadContributions, setLeadContributions] = useState<ContributionDoc[]>([]);
+  const [leadTasks, setLeadTasks] = useState<TaskDoc[]>([]);
+  const [impactModel, setImpactModel] = useState<ImpactScoreModelDoc>(DEFAULT_IMPACT_SCORE_MODEL);
   const [volunteers, setVolunteers] = useState<VolunteerRow[]>([]);
+  const [volunteersCursor, setVolunteersCursor] = useState<string | null>(null);
+  const [isLoadingMoreVolunteers, setIsLoadingMoreVolunteers] = useState(false);
   const [threads, setThreads] = useState<MessageThread[]>([]);
   const [events, setEvents] = useState<EventDoc[]>([]);
+  const [showReportExport, setShowReportExport] = useState(false);
+  // The event editor: a new event when eventId is absent.
+  const [eventEditor, setEventEditor] = useState<{ eventId?: string } | null>(null);
+  // Attendance on the events the lead manages, for check-in counts and no-show rates.
+  const [attendance, setAttendance] = useState<AttendanceDoc[]>([]);
+  // The event date open in check-in mode, with its live attendance and RSVP names.
+  const [checkInTarget, setCheckInTarget] = useState<{ eventId: string; occurrenceKey: string } | null>(null);
+  const [checkInAttendance, setCheckInAttendance] = useState<AttendanceDoc[]>([]);
+  // The open check-in code, kept off the event document that volunteers can read.
+  const [checkInCode, setCheckInCode] = useState<CheckInCodeDoc | null>(null);
+  const [rsvpNames, setRsvpNames] = useState<Record<string, string>>({});
+
+  const loadedVolunteerCount = useRef(0);
 
   const refresh = async (currentUid: string) => {
-    const [profileRow, projectsRows, volunteerRows, threadRows, eventRows] = await Promise.all([
+    const [profileRow, volunteerPage, model, allProjects] = await Promise.all([
       getUserProfile(currentUid),
+      listVolunteersPage({ pageSize: Math.max(DEFAULT_PAGE_SIZE, loadedVolunteerCount.current) }),
+      getImpactScoreModel(),
       listProjects(),
-      listVolunteers(),
-      listThreads(currentUid),
-      listEvents(),
     ]);
     setProfile(profileRow);
-    setProjects(projectsRows);
-    setVolunteers(volunteerRows.map(mapVolunteer));
-    setThreads(
-      threadRows.map((thread) => ({
-        id: String(thread.id),
-        title: Array.isArray(thread.members)
-          ? `Conversation (${(thread.members as string[]).length} members)`
-          : "Conversation",
-        preview: String(thread.lastMessage || "No messages yet."),
-        unread: 0,
-        updatedAt: thread.updatedAt
-          ? new Date(String(thread.updatedAt)).toLocaleString()
-          : "Recently",
-      }))
-    );
-    setEvents(eventRows);
+    setImpactModel(model);
+    setOrganizationProjects(allProjects);
+    loadedVolunteerCount.current = volunteerPage.items.length;
+    setVolunteers(volunteerPage.items.map(mapVolunteer));
+    setVolunteersCursor(volunteerPage.nextCursor);
 
     const leadEmail = (profileRow?.email || "").trim();
     if (leadEmail) {
-      const [applicationRows, taskRows] = await Promise.all([
-        listApplicationsForLead(leadEmail),
-        listTasksForLead(leadEmail),
-      ]);
-      setApplications(applicationRows.map(mapApplication));
-      setTasks(taskRows.map(mapTask));
-    } else {
-      setApplications([]);
-      setTasks([]);
+      // Projects posted through the orchestrator show up via the lead project subscription once synced.
+      await syncLeadProjects(leadEmail).catch((err) =>
+        setError(`Projects posted through the orchestrator were not synced: ${err instanceof Error ? err.message : String(err)}`)
+      );
     }
   };
 
   useEffect(() => {
-    if (!firebaseReady || !auth) {
+    if (!sessionAvailable) {
       setAuthStatus("unavailable");
       return;
     }
 
-    const unsub = auth.onAuthStateChanged(async (user) => {
+    const unsub = onSessionChange(async (user) => {
       if (!user) {
         setUid("");
         setProfile(null);
@@ -200,16 +304,190 @@ export default function ProjectLeadDashboardPage() {
     return () => unsub();
   }, []);
 
+  const leadEmail = (profile?.email || "").trim();
+
+  useEffect(() => onInvalidDocument((report) => setError(describeInvalidDocument(report))), []);
+
+  useEffect(() => {
+    if (!uid) return;
+    const onError = (err: Error) => setError(err.message || "Live workspace updates failed.");
+    const unsubscribers = [
+      subscribeToThreads(uid, (rows) => setThreads(rows.map(mapThread)), onError),
+      subscribeToEvents(setEvents, onError),
+    ];
+    if (leadEmail) {
+      unsubscribers.push(
+        subscribeToLeadProjects(leadEmail, setProjects, onError),
+        subscribeToLeadApplications(leadEmail, (rows) => setApplications(rows.map(mapApplication)), onError),
+        subscribeToLeadTasks(leadEmail, setLeadTasks, onError),
+        subscribeToLeadContributions(leadEmail, setLeadContributions, onError)
+      );
+    } else {
+      setProjects([]);
+      setApplications([]);
+      setLeadTasks([]);
+      setLeadContributions([]);
+    }
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [uid, leadEmail]);
+
+  const tasks = useMemo(() => leadTasks.map(mapTask), [leadTasks]);
+  const pendingContributions = useMemo(
+    () => leadContributions.filter((row) => row.verification === "pending"),
+    [leadContributions]
+  );
+
   const managerProjects = useMemo(() => {
     const email = (profile?.email || "").toLowerCase();
     return projects.filter((project) => (project.projectLead || "").toLowerCase() === email);
   }, [projects, profile?.email]);
 
+  const onboardingTaskCounts = useMemo(
+    () => Object.fromEntries(managerProjects.map((project) => [project.id, project.onboardingTasks.length])),
+    [managerProjects]
+  );
+
   const activeProjects = useMemo(
     () => managerProjects.filter((project) => project.status === "active"),
     [managerProjects]
   );
 
+  // The lead's own projects are live; the rest of the organization is as of the last refresh.
+  const organizationMetrics = useMemo(() => {
+    const leadProjectIds = new Set(managerProjects.map((project) => project.id));
+    return summarizeImpactMetrics([
+      ...managerProjects,
+      ...organizationProjects.filter((project) => !leadProjectIds.has(project.id)),
+    ]);
+  }, [managerProjects, organizationProjects]);
+
+  const managedEventIds = useMemo(
+    () =>
+      events
+        .filter((event) => event.organizerUid === uid || managerProjects.some((project) => project.id === event.projectId))
+        .map((event) => event.id),
+    [events, managerProjects, uid]
+  );
+  const managedEventKey = managedEventIds.join(",");
+
+  useEffect(() => {
+    if (authStatus !== "ready") return;
+    let cancelled = false;
+    listAttendanceForEvents(managedEventKey ? managedEventKey.split(",") : [])
+      .then((rows) => {
+        if (!cancelled) setAttendance(rows);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unable to load attendance.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [authStatus, managedEventKey]);
+
+  const eventRows = useMemo<EventRow[]>(() => {
+    const now = new Date();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const from = new Date(today.getTime() - EVENT_PAST_DAYS * DAY_MS);
+    const to = new Date(today.getTime() + EVENT_WINDOW_DAYS * DAY_MS);
+    const managed = new Set(managedEventIds);
+    return scheduleOccurrences(events, from, to).map(({ event, key, startsAt, endsAt }) => {
+      const rsvps = event.rsvps || [];
+      const present = new Set(
+        attendance.filter((row) => row.eventId === event.id && row.occurrenceKey === key).map((row) => row.uid)
+      );
+      return {
+        id: String(event.id),
+        occurrenceKey: key,
+        repeats: event.recurrence ? describeRecurrence(event.recurrence) : undefined,
+        title: event.title,
+        type: event.type || "community",
+        when: endsAt ? `${startsAt.toLocaleString()} – ${endsAt.toLocaleTimeString()}` : startsAt.toLocaleString(),
+        location: event.location,
+        description: event.description,
+        confirmed: rsvps.length,
+        waitlisted: event.waitlist.length,
+        capacity: event.capacity,
+        checkedIn: present.size,
+        noShowRate:
+          startsAt < now && rsvps.length > 0 && event.status !== "cancelled"
+            ? rsvps.filter((rsvpUid) => !present.has(rsvpUid)).length / rsvps.length
+            : null,
+        checkInOpen: event.checkIn?.occurrenceKey === key && event.checkIn.closesAt > now,
+        cancelled: event.status === "cancelled",
+        canManage: managed.has(event.id),
+      };
+    });
+  }, [events, attendance, managedEventIds]);
+
+  const checkInEvent = checkInTarget ? events.find((event) => event.id === checkInTarget.eventId) : undefined;
+  const checkInOccurrence = checkInEvent && checkInTarget ? findOccurrence(checkInEvent, checkInTarget.occurrenceKey) : null;
+  const checkInRsvpKey = (checkInEvent?.rsvps || []).join(",");
+  const checkInWindowKey = checkInEvent?.checkIn
+    ? `${checkInEvent.checkIn.occurrenceKey}:${checkInEvent.checkIn.closesAt.getTime()}`
+    : "";
+
+  useEffect(() => {
+    setCheckInCode(null);
+    if (!checkInTarget || !checkInWindowKey) return;
+    let cancelled = false;
+    getOpenCheckIn(checkInTarget.eventId)
+      .then((code) => {
+        if (!cancelled) setCheckInCode(code);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Unable to load the check-in code.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [checkInTarget, checkInWindowKey]);
+
+  useEffect(() => {
+    if (!checkInTarget) return;
+    setCheckInAttendance([]);
+    return subscribeToEventAttendance(
+      checkInTarget.eventId,
+      (rows) => setCheckInAttendance(rows.filter((row) => row.occurrenceKey === checkInTarget.occurrenceKey)),
+      (err) => setError(err.message)
+    );
+  }, [checkInTarget]);
+
+  useEffect(() => {
+    const missing = (checkInRsvpKey ? checkInRsvpKey.split(",") : []).filter((rsvpUid) => !rsvpNames[rsvpUid]);
+    if (missing.length === 0) return;
+    void Promise.all(missing.map((rsvpUid) => getUserProfile(rsvpUid).catch(() => null))).then((profiles) =>
+      setRsvpNames((current) => ({
+        ...current,
+        ...Object.fromEntries(missing.map((rsvpUid, index) => [rsvpUid, profiles[index]?.displayName || "Volunteer"])),
+      }))
+    );
+    // Keyed on the RSVP list only; names already looked up are skipped above.
+  }, [checkInRsvpKey]);
+
+  // RSVPs first, then walk-ins who checked in without one.
+  const checkInRoster = useMemo<CheckInRosterEntry[]>(() => {
+    const byUid = new Map(checkInAttendance.map((row) => [row.uid, row]));
+    const rsvps = checkInEvent?.rsvps || [];
+    return [
+      ...rsvps.map((rsvpUid) => ({
+        uid: rsvpUid,
+        name: byUid.get(rsvpUid)?.volunteerName || rsvpNames[rsvpUid] || "Volunteer",
+        rsvped: true,
+        attendance: byUid.get(rsvpUid),
+      })),
+      ...checkInAttendance
+        .filter((row) => !rsvps.includes(row.uid))
+        .map((row) => ({ uid: row.uid, name: row.volunteerName, rsvped: false, attendance: row })),
+    ];
+  }, [checkInAttendance, checkInEvent?.rsvps, rsvpNames]);
+
+  const momentum = useMemo(
+    () => ({ contributions: leadContributions, tasks: leadTasks, projects: managerProjects }),
+    [leadContributions, leadTasks, managerProjects]
+  );
+
   const kpis = useMemo(
     () => [
       { label: "Active Projects", value: `${activeProjects.length}`, tone: "accent" as const },
@@ -232,6 +510,24 @@ export default function ProjectLeadDashboardPage() {
     [activeProjects, applications, events.length, profile?.impactScore, tasks]
   );
 
+  const loadMoreVolunteers = async () => {
+    if (!volunteersCursor || isLoadingMoreVolunteers) return;
+    setIsLoadingMoreVolunteers(true);
+    try {
+      const page = await listVolunteersPage({ cursor: volunteersCursor });
+      setVolunteers((prev) => {
+        const next = [...prev, ...page.items.map(mapVolunteer).filter((item) => !prev.some((row) => row.id === item.id))];
+        loadedVolunteerCount.current = next.length;
+        return next;
+      });
+      setVolunteersCursor(page.nextCursor);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to load more volunteers.");
+    } finally {
+      setIsLoadingMoreVolunteers(false);
+    }
+  };
+
   const handleCreateProject = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     if (!uid || !profile) return;
@@ -240,7 +536,7 @@ export default function ProjectLeadDashboardPage() {
     setNotice("");
 
     try {
-      await createProject({
+      await publishProject({
         title: form.title,
         description: form.description,
         category: form.category,
@@ -252,11 +548,18 @@ export default function ProjectLeadDashboardPage() {
         startDate: form.startDate,
         endDate: form.endDate,
         impactMetric: form.impactMetric,
+        impactTarget: form.impactTarget.trim() ? Number(form.impactTarget) : undefined,
+        joinPolicy: form.joinPolicy,
+        onboardingTasks: form.joinPolicy === "application" ? form.onboardingTasks.split("\n") : [],
         projectLead: profile.email,
       });
       setForm(initialForm);
       await refresh(uid);
-      setNotice("Project published. Volunteers can now discover and join it.");
+      setNotice(
+        form.joinPolicy === "application"
+          ? "Project published. Volunteers can now discover it and apply."
+          : "Project published. Volunteers can now discover and join it."
+      );
       setActiveSection("projects");
       setTab("projects");
     } catch (err) {
@@ -267,11 +570,10 @@ export default function ProjectLeadDashboardPage() {
   };
 
   const handleSignOut = async () => {
-    if (!auth) return;
     setIsBusy(true);
     setError("");
     try {
-      await signOut(auth);
+      await endSession();
       router.replace("/");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to sign out.");
@@ -279,7 +581,7 @@ export default function ProjectLeadDashboardPage() {
     }
   };
 
-  const handleApplicationState = async (id: string, state: ApplicationRow["state"]) => {
+  const handleApplicationState = async (id: string, state: "pending" | "saved") => {
     try {
       setIsBusy(true);
       setError("");
@@ -293,12 +595,58 @@ export default function ProjectLeadDashboardPage() {
     }
   };
 
+  const handleReviewApplication = async (
+    id: string,
+    decision: ApplicationDecision,
+    options: ApplicationReviewOptions
+  ) => {
+    if (!uid) return false;
+    try {
+      setIsBusy(true);
+      setError("");
+      const tasksCreated = await reviewApplication(id, decision, { uid, email: leadEmail }, options);
+      setNotice(
+        decision === "accepted"
+          ? `Volunteer added to the project${tasksCreated > 0 ? ` with ${tasksCreated} onboarding ${tasksCreated === 1 ? "task" : "tasks"}` : ""}.`
+          : "Application rejected. The volunteer has been notified."
+      );
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to review the application.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleContributionDecision = async (id: string, decision: ContributionDecision, note: string) => {
+    const contribution = pendingContributions.find((row) => row.id === id);
+    if (!contribution) return false;
+    try {
+      setIsBusy(true);
+      setError("");
+      await reviewContribution(contribution, decision, leadEmail, note);
+      setNotice(
+        decision === "verified"
+          ? `Verified ${contribution.hours}h from ${contribution.volunteerName || "the volunteer"}.`
+          : decision === "rejected"
+            ? "Contribution rejected and the volunteer notified."
+            : "Asked the volunteer for more information."
+      );
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to record the verification decision.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
   const handleTaskState = async (id: string, status: TaskRow["status"]) => {
     try {
       setIsBusy(true);
       setError("");
       await updateTaskStatus(id, status);
-      setTasks((prev) => prev.map((task) => (task.id === id ? { ...task, status } : task)));
       setNotice(`Task updated to ${status.replace("_", " ")}.`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to update task status.");
@@ -307,7 +655,207 @@ export default function ProjectLeadDashboardPage() {
     }
   };
 
-  const handleProjectAction = (projectId: string, action: "view" | "edit" | "assign" | "tasks") => {
+  const handleCompleteProject = async (projectId: string) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      const { dashboardCopyError } = await setProjectStatus(projectId, "COMPLETED");
+      setNotice("Project marked as completed and intake closed.");
+      if (dashboardCopyError) {
+        setError(`The dashboard still lists the project as active until your next sign-in: ${dashboardCopyError}`);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update project status.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleImpactTarget = async (projectId: string, impactTarget: number) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      await setProjectImpactTarget(projectId, impactTarget);
+      setNotice("Impact target updated.");
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to update the impact target.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleJoinPolicy = async (projectId: string, joinPolicy: ProjectJoinPolicy) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      await setProjectJoinPolicy(projectId, joinPolicy);
+      setNotice(
+        joinPolicy === "application"
+          ? "Volunteers now apply to join this project."
+          : "Volunteers can now join this project directly."
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to change how volunteers join.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExportReport = async (request: ReportRequest) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      const from = new Date(`${request.from}T00:00:00Z`);
+      const to = new Date(new Date(`${request.through}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+      // All events, so repeating events that began before the range still report their occurrences.
+      const [contributions, allEvents, volunteerProfiles] = await Promise.all([
+        listContributionsForLead(leadEmail),
+        listEvents(),
+        listVolunteers(),
+      ]);
+      const report = buildImpactReport(
+        { projects: managerProjects, contributions, events: allEvents, volunteers: volunteerProfiles },
+        { from, to, projectId: request.projectId || undefined, organizerUid: uid }
+      );
+      const slug = report.scope.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "report";
+      if (request.format === "csv") {
+        downloadFile(`impact-report-${slug}-${request.from}-to-${request.through}.csv`, reportToCsv(report), "text/csv;charset=utf-8");
+      } else {
+        printHtml(reportToHtml(report));
+      }
+      setShowReportExport(false);
+      setNotice(request.format === "csv" ? "Impact report downloaded." : "Impact report sent to the print dialog.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export the impact report.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSaveEvent = async (input: EventInput) => {
+    const eventId = eventEditor?.eventId;
+    try {
+      setIsBusy(true);
+      setError("");
+      if (eventId) {
+        await updateEvent(eventId, input);
+        setNotice("Event updated. Attendees were notified of the changes.");
+      } else {
+        await createEvent(uid, input);
+        setNotice("Event created. Volunteers can now RSVP.");
+      }
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to save the event.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCancelEvent = async (eventId: string, reason: string) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      await cancelEvent(eventId, reason);
+      setNotice("Event cancelled and attendees notified.");
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to cancel the event.");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSkipOccurrence = async (eventId: string, key: string) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      await skipEventOccurrence(eventId, key);
+      setNotice(`Skipped ${new Date(key).toLocaleString()}. Attendees were notified.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to skip this date.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const closeCheckInMode = () => {
+    // Counts on the events list pick up whatever was checked in while the modal was open.
+    setAttendance((current) => [
+      ...current.filter(
+        (row) => !checkInTarget || row.eventId !== checkInTarget.eventId || row.occurrenceKey !== checkInTarget.occurrenceKey
+      ),
+      ...checkInAttendance,
+    ]);
+    setCheckInTarget(null);
+  };
+
+  const handleOpenCheckIn = async () => {
+    if (!checkInTarget) return;
+    try {
+      setIsBusy(true);
+      setError("");
+      setCheckInCode(await openCheckIn(checkInTarget.eventId, checkInTarget.occurrenceKey));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to start check-in.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleEndCheckIn = async () => {
+    if (!checkInTarget) return;
+    try {
+      setIsBusy(true);
+      setError("");
+      await closeCheckIn(checkInTarget.eventId);
+      setCheckInCode(null);
+      setNotice("Check-in closed. The code no longer works.");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to end check-in.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheckInAttendee = async (attendeeUid: string) => {
+    if (!checkInTarget) return;
+    try {
+      setIsBusy(true);
+      setError("");
+      await checkInAttendee(checkInTarget.eventId, checkInTarget.occurrenceKey, attendeeUid, uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to check in this volunteer.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreditAttendance = async (rows: AttendanceDoc[], hours: number) => {
+    try {
+      setIsBusy(true);
+      setError("");
+      // One at a time, so a failure part way leaves the earlier credits in place and reported.
+      for (const row of rows) {
+        await creditAttendanceHours(row.id, hours, leadEmail);
+      }
+      setNotice(`Credited ${hours}h to ${rows.length} ${rows.length === 1 ? "attendee" : "attendees"}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to credit attendance hours.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleProjectAction = (projectId: string, action: "view" | "edit" | "assign" | "tasks" | "complete") => {
+    if (action === "complete") {
+      void handleCompleteProject(projectId);
+      return;
+    }
     if (action === "tasks") {
       setActiveSection("tasks");
       setTab("projects");
@@ -430,15 +978,29 @@ export default function ProjectLeadDashboardPage() {
           <div className="grid gap-5 xl:grid-cols-[minmax(0,1fr)_300px]">
             <div className="space-y-5">
               {(showOverview || tab === "projects" || activeSection === "projects") && (
-                <ActiveProjectsModule projects={activeProjects} onAction={handleProjectAction} />
+                <ActiveProjectsModule
+                  projects={activeProjects}
+                  isBusy={isBusy}
+                  onAction={handleProjectAction}
+                  onSetImpactTarget={handleImpactTarget}
+                  onSetJoinPolicy={(projectId, joinPolicy) => void handleJoinPolicy(projectId, joinPolicy)}
+                />
               )}
 
               {(showOverview || tab === "volunteers" || activeSection === "volunteers" || activeSection === "applications") && (
                 <div className="grid gap-5 xl:grid-cols-2">
-                  <VolunteersModule volunteers={volunteers} />
+                  <VolunteersModule
+                    volunteers={volunteers}
+                    hasMore={Boolean(volunteersCursor)}
+                    isLoadingMore={isLoadingMoreVolunteers}
+                    onLoadMore={() => void loadMoreVolunteers()}
+                  />
                   <ApplicationsQueue
                     applications={applications.filter((item) => item.state === "pending" || item.state === "saved")}
-                    onStateChange={handleApplicationState}
+                    onboardingTaskCounts={onboardingTaskCounts}
+                    isBusy={isBusy}
+                    onStateChange={(id, state) => void handleApplicationState(id, state)}
+                    onDecide={handleReviewApplication}
                     onMessage={(applicationId) => {
                       setActiveSection("messages");
                       setNotice(`Message workspace opened for applicant ${applicationId}.`);
@@ -451,25 +1013,41 @@ export default function ProjectLeadDashboardPage() {
                 <div className="grid gap-5 xl:grid-cols-2">
                   <TaskTracker tasks={tasks} onStatus={handleTaskState} />
                   <EventsPanel
-                    events={events.map((event) => ({
-                      id: String(event.id),
-                      title: event.title,
-                      type: event.type || "community",
-                      when: new Date(event.startsAt).toLocaleString(),
-                      location: event.location,
-                      rsvpCount: (event.rsvps || []).length,
-                    }))}
+                    events={eventRows}
+                    isBusy={isBusy}
+                    onCreate={() => setEventEditor({})}
+                    onEdit={(eventId) => setEventEditor({ eventId })}
+                    onCancel={handleCancelEvent}
+                    onSkip={(eventId, key) => void handleSkipOccurrence(eventId, key)}
+                    onCheckIn={(eventId, key) => setCheckInTarget({ eventId, occurrenceKey: key })}
                   />
                 </div>
               )}
 
               {(showOverview || activeSection === "messages") && <MessagesPanel threads={threads} />}
 
+              {(showOverview || tab === "analytics" || activeSection === "impact") && (
+                <ContributionReview
+                  contributions={pendingContributions.map((doc) => {
+                    const project = projects.find((row) => row.id === doc.projectId);
+                    return mapContribution(
+                      doc,
+                      scoreContribution({ ...doc, verification: "verified" }, project?.category, impactModel),
+                      project
+                    );
+                  })}
+                  isBusy={isBusy}
+                  onDecision={handleContributionDecision}
+                />
+              )}
+
               {(showOverview || tab === "analytics" || activeSection === "impact") && (
                 <ImpactAnalytics
                   hours={profile.hoursContributed}
                   activeInitiatives={activeProjects.length}
                   completed={profile.completedProjects}
+                  metrics={organizationMetrics}
+                  momentum={momentum}
                 />
               )}
 
@@ -494,7 +1072,11 @@ export default function ProjectLeadDashboardPage() {
             </div>
 
             <div className="space-y-5">
-              <QuickActions onCreateProject={() => formRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })} />
+              <QuickActions
+                onCreateProject={() => formRef.current?.scrollIntoView({ behavior: "smooth", block: "start" })}
+                onAddEvent={() => setEventEditor({})}
+                onExportReport={() => setShowReportExport(true)}
+              />
 
               <section ref={formRef} className="rounded-3xl border border-slate-200 bg-white p-5 shadow-sm">
                 <h3 className="text-xl font-black tracking-tight text-slate-900">Create Project</h3>
@@ -522,7 +1104,22 @@ export default function ProjectLeadDashboardPage() {
                     <input type="date" value={form.endDate} onChange={(event) => setForm((prev) => ({ ...prev, endDate: event.target.value }))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" required />
                   </div>
                   <input value={form.skillsRequired} onChange={(event) => setForm((prev) => ({ ...prev, skillsRequired: event.target.value }))} placeholder="Skills required (comma separated)" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" />
-                  <input value={form.impactMetric} onChange={(event) => setForm((prev) => ({ ...prev, impactMetric: event.target.value }))} placeholder="Impact metric" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" />
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    <input value={form.impactMetric} onChange={(event) => setForm((prev) => ({ ...prev, impactMetric: event.target.value }))} placeholder="Impact metric (e.g. Trees planted)" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" />
+                    <input type="number" min="1" step="any" value={form.impactTarget} onChange={(event) => setForm((prev) => ({ ...prev, impactTarget: event.target.value }))} placeholder="Target (optional)" className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" />
+                  </div>
+                  <select value={form.joinPolicy} onChange={(event) => setForm((prev) => ({ ...prev, joinPolicy: event.target.value as ProjectJoinPolicy }))} className="w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm" aria-label="How volunteers join">
+                    <option value="open">Open: volunteers join directly</option>
+                    <option value="application">By application: you review each volunteer first</option>
+                  </select>
+                  {form.joinPolicy === "application" ? (
+                    <textarea
+                      value={form.onboardingTasks}
+                      onChange={(event) => setForm((prev) => ({ ...prev, onboardingTasks: event.target.value }))}
+                      placeholder="Onboarding tasks for accepted volunteers (one per line, optional)"
+                      className="h-20 w-full rounded-xl border border-slate-300 bg-white px-3 py-2.5 text-sm"
+                    />
+                  ) : null}
                   <button
                     type="submit"
                     disabled={isBusy}
@@ -536,6 +1133,54 @@ export default function ProjectLeadDashboardPage() {
           </div>
         </div>
       </div>
+
+      {eventEditor ? (
+        <EventEditor
+          event={events.find((event) => event.id === eventEditor.eventId)}
+          projects={managerProjects}
+          isBusy={isBusy}
+          onSave={handleSaveEvent}
+          onClose={() => setEventEditor(null)}
+        />
+      ) : null}
+
+      {checkInTarget && checkInEvent && checkInOccurrence ? (
+        <CheckInMode
+          key={`${checkInTarget.eventId}:${checkInTarget.occurrenceKey}`}
+          title={checkInEvent.title}
+          when={checkInOccurrence.startsAt.toLocaleString()}
+          checkIn={
+            checkInCode?.occurrenceKey === checkInTarget.occurrenceKey && checkInCode.closesAt > new Date()
+              ? checkInCode
+              : undefined
+          }
+          checkInUrl={
+            checkInCode ? `${window.location.origin}/volunteer-dashboard?section=events&checkin=${checkInCode.id}` : ""
+          }
+          roster={checkInRoster}
+          canCreditHours={Boolean(checkInEvent.projectId)}
+          defaultHours={
+            checkInOccurrence.endsAt
+              ? Math.max(0.5, Math.round(((checkInOccurrence.endsAt.getTime() - checkInOccurrence.startsAt.getTime()) / 3600000) * 2) / 2)
+              : 1
+          }
+          isBusy={isBusy}
+          onOpen={() => void handleOpenCheckIn()}
+          onEnd={() => void handleEndCheckIn()}
+          onCheckIn={(attendeeUid) => void handleCheckInAttendee(attendeeUid)}
+          onCredit={(rows, hours) => void handleCreditAttendance(rows, hours)}
+          onClose={closeCheckInMode}
+        />
+      ) : null}
+
+      {showReportExport ? (
+        <ReportExport
+          projects={managerProjects}
+          isBusy={isBusy}
+          onExport={(request) => void handleExportReport(request)}
+          onClose={() => setShowReportExport(false)}
+        />
+      ) : null}
     </main>
   );
 }
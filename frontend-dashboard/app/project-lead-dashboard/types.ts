@@ -23,6 +23,7 @@ export type VolunteerRow = {
 export type ApplicationRow = {
   id: string;
   name: string;
+  projectId: string;
   project: string;
   skillsMatch: number;
   availability: string;
@@ -41,13 +42,29 @@ export type TaskRow = {
   status: 'todo' | 'in_progress' | 'done' | 'overdue';
 };
 
+// One occurrence of an event; repeating events have a row per upcoming date.
 export type EventRow = {
   id: string;
+  occurrenceKey: string;
+  // How the event repeats, e.g. "Every week"; unset for one-off events.
+  repeats?: string;
   title: string;
   type: 'meeting' | 'training' | 'community';
   when: string;
   location: string;
-  rsvpCount: number;
+  description: string;
+  // Confirmed RSVPs; volunteers who RSVPed to a full event wait in line.
+  confirmed: number;
+  waitlisted: number;
+  capacity?: number;
+  checkedIn: number;
+  // Share of RSVPs who did not check in, for past dates with RSVPs; null otherwise.
+  noShowRate: number | null;
+  // Whether volunteers can currently check in to this date with a code.
+  checkInOpen: boolean;
+  cancelled: boolean;
+  // Events the lead organizes or that belong to their projects.
+  canManage: boolean;
 };
 
 export type MessageThread = {
@@ -57,3 +74,24 @@ export type MessageThread = {
   unread: number;
   updatedAt: string;
 };
+
+export type ContributionRow = {
+  id: string;
+  volunteer: string;
+  project: string;
+  hours: number;
+  notes: string;
+  loggedAt: string;
+  onLedger: boolean;
+  evidenceUrl?: string;
+  evidenceIsImage: boolean;
+  // The volunteer's reply to an earlier request for more information.
+  response?: string;
+  // The amount of the project's impact metric claimed, e.g. "12 × Trees planted".
+  metricClaim?: string;
+  // Impact points the contribution earns if approved, and how they are computed.
+  points: number;
+  scoreDetail: string;
+};
+
+export type ContributionDecision = 'verified' | 'rejected' | 'needs_info';
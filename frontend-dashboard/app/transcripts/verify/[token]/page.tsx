@@ -0,0 +1,96 @@
+import type { Metadata } from "next";
+import { ShieldCheck, ShieldX } from "lucide-react";
+import { verifyTranscriptToken } from "../../../../lib/transcriptSigning";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const metadata: Metadata = {
+  title: "Verify service transcript | TurkNode",
+  robots: { index: false },
+};
+
+// Public: anyone holding a transcript can confirm it here without signing in.
+export default function VerifyTranscriptPage({ params }: { params: { token: string } }) {
+  let result: ReturnType<typeof verifyTranscriptToken> = null;
+  // Why verification could not run, e.g. a missing signing secret.
+  let unavailable = "";
+  try {
+    result = verifyTranscriptToken(decodeURIComponent(params.token));
+  } catch (err) {
+    unavailable = err instanceof Error ? err.message : "Transcript verification failed.";
+  }
+
+  return (
+    <main className="min-h-screen bg-slate-50 px-4 py-10">
+      <section className="mx-auto max-w-2xl rounded-3xl border border-slate-200 bg-white p-6 shadow-sm">
+        {result ? (
+          <>
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="h-8 w-8 text-emerald-600" />
+              <div>
+                <h1 className="text-2xl font-black tracking-tight text-slate-900">Authentic transcript</h1>
+                <p className="text-sm text-slate-600">
+                  Issued by TurkNode on {result.transcript.issuedAt.slice(0, 10)}. Verification code{" "}
+                  <span className="font-mono font-bold text-slate-900">{result.code}</span>
+                </p>
+              </div>
+            </div>
+
+            <p className="mt-5 text-lg font-bold text-slate-900">{result.transcript.volunteerName}</p>
+            <p className="text-sm text-slate-600">{result.transcript.totalHours} verified hours</p>
+
+            <div className="mt-4 overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-wide text-slate-500">
+                  <tr>
+                    <th className="py-2 pr-3">Project</th>
+                    <th className="py-2 pr-3">Project lead</th>
+                    <th className="py-2 pr-3">Dates</th>
+                    <th className="py-2 text-right">Hours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.transcript.projects.map((entry) => (
+                    <tr key={entry.projectId} className="border-t border-slate-200">
+                      <td className="py-2 pr-3 font-semibold text-slate-900">{entry.title}</td>
+                      <td className="py-2 pr-3 text-slate-600">{entry.lead}</td>
+                      <td className="py-2 pr-3 text-slate-600">
+                        {entry.firstDate} to {entry.lastDate}
+                      </td>
+                      <td className="py-2 text-right font-semibold text-slate-900">{entry.hours}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {result.transcript.badges.length > 0 ? (
+              <p className="mt-4 text-sm text-slate-600">
+                Badges: {result.transcript.badges.map((badge) => badge.name).join(", ")}
+              </p>
+            ) : null}
+            <p className="mt-4 text-xs text-slate-500">
+              Check that these details match the transcript you were given. Only hours verified by a project lead are
+              listed.
+            </p>
+          </>
+        ) : (
+          <div className="flex items-center gap-3">
+            <ShieldX className="h-8 w-8 text-red-600" />
+            <div>
+              <h1 className="text-2xl font-black tracking-tight text-slate-900">
+                {unavailable ? "Verification unavailable" : "Transcript not verified"}
+              </h1>
+              <p className="text-sm text-slate-600">
+                {unavailable
+                  ? `Transcripts cannot be checked on this server right now (${unavailable}). Try again later.`
+                  : "This link does not match a transcript issued by TurkNode. It may have been altered or copied incorrectly."}
+              </p>
+            </div>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,80 @@
+import { FormEvent, useState } from "react";
+import { computeSkillsMatch, type ApplicationInput, type ProjectDoc } from "../../../lib/turknodeDb";
+
+type ApplyModalProps = {
+  project: ProjectDoc;
+  volunteerSkills: string[];
+  isBusy: boolean;
+  error: string;
+  onSubmit: (input: ApplicationInput) => Promise<boolean>;
+  onClose: () => void;
+};
+
+export default function ApplyModal({ project, volunteerSkills, isBusy, error, onSubmit, onClose }: ApplyModalProps) {
+  const [draft, setDraft] = useState<ApplicationInput>({ availability: "", message: "" });
+  const skillsMatch = computeSkillsMatch(volunteerSkills, project.skillsRequired);
+  const ownSkills = new Set(volunteerSkills.map((skill) => skill.trim().toLowerCase()));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (await onSubmit(draft)) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 p-4">
+      <form onSubmit={(e) => void handleSubmit(e)} className="w-full max-w-lg rounded-2xl bg-white p-5">
+        <h3 className="text-xl font-bold">Apply to {project.title}</h3>
+        <p className="mt-1 text-sm text-slate-600">The project lead reviews applications before volunteers join.</p>
+        {project.skillsRequired.length > 0 ? (
+          <div className="mt-3 rounded-xl bg-slate-50 p-3">
+            <p className="text-xs font-semibold uppercase text-slate-500">Skills match: {skillsMatch}%</p>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {project.skillsRequired.map((skill) => (
+                <span
+                  key={skill}
+                  className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                    ownSkills.has(skill.trim().toLowerCase()) ? "bg-emerald-100 text-emerald-700" : "bg-slate-200 text-slate-600"
+                  }`}
+                >
+                  {skill}
+                </span>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-slate-500">Skills come from your profile. Update it to include what you bring.</p>
+          </div>
+        ) : null}
+        <div className="mt-4 space-y-2">
+          <input
+            value={draft.availability}
+            onChange={(e) => setDraft((prev) => ({ ...prev, availability: e.target.value }))}
+            className="w-full rounded-xl border border-slate-200 px-3 py-2"
+            placeholder="Availability, e.g. Weekends or Tuesday evenings"
+            required
+          />
+          <textarea
+            value={draft.message}
+            onChange={(e) => setDraft((prev) => ({ ...prev, message: e.target.value }))}
+            className="w-full rounded-xl border border-slate-200 px-3 py-2"
+            rows={4}
+            placeholder="Why you want to join and what you can help with"
+            minLength={20}
+            required
+          />
+          {error ? <p className="text-sm font-medium text-red-700">{error}</p> : null}
+        </div>
+        <div className="mt-4 flex justify-end gap-2">
+          <button type="button" onClick={onClose} className="rounded-xl border px-3 py-2 text-sm">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Send application
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
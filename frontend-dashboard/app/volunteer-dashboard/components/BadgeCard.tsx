@@ -1,19 +1,57 @@
-import { Award } from "lucide-react";
+import { Award, BookOpen, CalendarDays, Clock, Flame, Leaf, Lock, Star, Users } from "lucide-react";
+import type { BadgeIcon } from "../../../lib/turknodeDb";
 import type { Badge } from "../types";
 
+const icons: Record<BadgeIcon, typeof Award> = {
+  award: Award,
+  clock: Clock,
+  users: Users,
+  book: BookOpen,
+  leaf: Leaf,
+  flame: Flame,
+  calendar: CalendarDays,
+  star: Star,
+};
+
 type BadgeCardProps = {
   badge: Badge;
 };
 
 export default function BadgeCard({ badge }: BadgeCardProps) {
+  const Icon = icons[badge.icon] || Award;
   return (
-    <article className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm transition hover:-translate-y-0.5 hover:shadow-md">
-      <div className="mb-3 inline-flex rounded-full bg-amber-100 p-2 text-amber-700">
-        <Award className="h-4 w-4" />
+    <article
+      className={`rounded-2xl border p-5 shadow-sm transition hover:-translate-y-0.5 hover:shadow-md ${
+        badge.unlocked ? "border-amber-200 bg-white" : "border-slate-200 bg-slate-50"
+      }`}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <div
+          className={`inline-flex rounded-full p-2 ${
+            badge.unlocked ? "bg-amber-100 text-amber-700" : "bg-slate-200 text-slate-500"
+          }`}
+        >
+          <Icon className="h-4 w-4" />
+        </div>
+        {!badge.unlocked ? <Lock className="h-4 w-4 text-slate-400" aria-label="Locked" /> : null}
       </div>
-      <h3 className="text-lg font-bold text-slate-900">{badge.name}</h3>
+      <h3 className={`text-lg font-bold ${badge.unlocked ? "text-slate-900" : "text-slate-600"}`}>{badge.name}</h3>
       <p className="mt-2 text-sm text-slate-600">{badge.description}</p>
-      <p className="mt-3 text-xs font-semibold uppercase tracking-wide text-slate-500">Earned {badge.earnedOn}</p>
+      <div className="mt-4">
+        <div className="h-2 rounded-full bg-slate-200">
+          <div
+            className={`h-2 rounded-full ${badge.unlocked ? "bg-amber-500" : "bg-slate-400"}`}
+            style={{ width: `${badge.progress}%` }}
+          />
+        </div>
+        <p className="mt-1 text-xs text-slate-500">{badge.progressLabel}</p>
+      </div>
+      {badge.unlocked ? (
+        <p className="mt-3 text-xs font-semibold uppercase tracking-wide text-slate-500">
+          Earned {badge.earnedOn || "earlier"}
+          {badge.earnedFor ? ` · ${badge.earnedFor}` : ""}
+        </p>
+      ) : null}
     </article>
   );
 }
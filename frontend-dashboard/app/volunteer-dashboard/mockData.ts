@@ -1,6 +1,5 @@
 import type {
   ActiveProject,
-  Badge,
   CompletedProject,
   NavItem,
   Opportunity,
@@ -100,33 +99,6 @@ export const stats: Stat[] = [
   { id: "s4", label: "Badges Earned", value: "8", hint: "Milestones" },
 ];
 
-export const badges: Badge[] = [
-  {
-    id: "b1",
-    name: "100 Hours Badge",
-    description: "Completed over 100 verified service hours.",
-    earnedOn: "Dec 2025",
-  },
-  {
-    id: "b2",
-    name: "Community Builder",
-    description: "Led recurring neighborhood engagement activities.",
-    earnedOn: "Oct 2025",
-  },
-  {
-    id: "b3",
-    name: "Education Supporter",
-    description: "Contributed to youth mentorship and tutoring tracks.",
-    earnedOn: "Aug 2025",
-  },
-  {
-    id: "b4",
-    name: "Sustainability Champion",
-    description: "Delivered measurable impact in environmental initiatives.",
-    earnedOn: "May 2025",
-  },
-];
-
 export const recommendations: Opportunity[] = [
   {
     id: "r1",
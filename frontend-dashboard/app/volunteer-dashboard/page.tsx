@@ -6,29 +6,82 @@ import {
   BarChart3,
   Bell,
   CalendarClock,
+  CalendarPlus,
   CheckCircle2,
   ClipboardCheck,
+  FileBadge,
   Hourglass,
   Inbox,
   Loader2,
   LogOut,
   MapPin,
   MessageCircle,
+  Paperclip,
+  ScanLine,
   Sparkles,
 } from "lucide-react";
+import {
+  EVIDENCE_CONTENT_TYPES,
+  EVIDENCE_MAX_BYTES,
+  evidenceUploadAvailable,
+  isImageEvidence,
+  validateEvidenceFile,
+} from "../../lib/evidenceUpload";
+import { BADGE_METRIC_UNITS, badgeLabel } from "../../lib/badgeRules";
+import { describeRecurrence } from "../../lib/eventRecurrence";
+import { describeContributionScore } from "../../lib/impactScore";
+import type { ApplicationDoc, BadgeCatalogEntry, ContributionDoc, ProjectDoc } from "../../lib/turknodeDb";
+import LoadMoreSentinel from "../components/LoadMoreSentinel";
+import ApplyModal from "./components/ApplyModal";
+import BadgeCard from "./components/BadgeCard";
 import FloatingActions from "./components/FloatingActions";
 import HeroSection from "./components/HeroSection";
 import Sidebar from "./components/Sidebar";
 import TabNav from "./components/TabNav";
 import VolunteerProfileCard from "./components/VolunteerProfileCard";
 import { sidebarNav } from "./mockData";
-import type { DashboardTab } from "./types";
+import type { Badge, DashboardTab } from "./types";
 import { useVolunteerDashboard } from "./useVolunteerDashboard";
 import type { NavSection } from "./useVolunteerDashboard";
 
 const MAX_UPLOAD_DIMENSION = 512;
 const MAX_UPLOAD_BYTES = 350_000;
 
+const verificationLabels: Record<ContributionDoc["verification"], { label: string; tone: string }> = {
+  pending: { label: "Awaiting verification", tone: "bg-amber-100 text-amber-700" },
+  verified: { label: "Verified", tone: "bg-emerald-100 text-emerald-700" },
+  rejected: { label: "Not verified", tone: "bg-rose-100 text-rose-700" },
+  needs_info: { label: "More info needed", tone: "bg-blue-100 text-blue-700" },
+};
+
+// Leads can set an application aside; to the volunteer it is still in review.
+const applicationLabels: Record<ApplicationDoc["state"], { label: string; tone: string }> = {
+  pending: { label: "Application in review", tone: "bg-amber-100 text-amber-700" },
+  saved: { label: "Application in review", tone: "bg-amber-100 text-amber-700" },
+  accepted: { label: "Application accepted", tone: "bg-emerald-100 text-emerald-700" },
+  rejected: { label: "Not selected", tone: "bg-rose-100 text-rose-700" },
+};
+
+function mapBadge({ definition, evaluation, award }: BadgeCatalogEntry): Badge {
+  const unit = BADGE_METRIC_UNITS[definition.metric];
+  const unlocked = Boolean(award);
+  return {
+    id: definition.id,
+    name: award ? award.name : badgeLabel(definition, 0),
+    description: definition.description,
+    icon: definition.icon,
+    unlocked,
+    earnedOn: award?.earnedAt ? award.earnedAt.toLocaleDateString() : undefined,
+    earnedFor: award?.projectTitle,
+    progress: Math.round(evaluation.progress * 100),
+    progressLabel: evaluation.nextTier
+      ? `${evaluation.value} / ${evaluation.nextTier.threshold} ${unit}${
+          unlocked && evaluation.nextTier.name ? ` to ${evaluation.nextTier.name}` : ""
+        }`
+      : `${evaluation.value} ${unit}`,
+  };
+}
+
 async function fileToDataUrl(file: File) {
   const fileBuffer = await file.arrayBuffer();
   const blob = new Blob([fileBuffer], { type: file.type });
@@ -79,15 +132,23 @@ export default function VolunteerDashboardPage() {
   const {
     authStatus,
     profile,
-    projects,
+    hasMoreProjects,
+    isLoadingMoreProjects,
+    loadMoreProjects,
+    savedProjects,
     activeProjects,
     completedProjects,
     filteredProjects,
     recommendations,
     contributions,
+    badgeCatalog,
+    impactBreakdown,
     notifications,
     threads,
-    events,
+    applications,
+    eventOccurrences,
+    calendarFeedAvailable,
+    calendarFeedUrl,
     savedProjectIds,
     activeSection,
     setActiveSection,
@@ -98,19 +159,30 @@ export default function VolunteerDashboardPage() {
     filterSkill,
     setFilterSkill,
     totalHours,
+    ledgerSummary,
+    ledgerError,
+    offLedgerHours,
+    unverifiedHours,
+    evidenceProgress,
     isBusy,
     error,
     notice,
     onJoinProject,
     onLeaveProject,
+    onApplyToProject,
     onSaveProject,
     onLogContribution,
+    onResubmitContribution,
     onSendMessage,
     onToggleAvailability,
     onUpdateProfile,
     onUpdatePrefs,
     onRsvpEvent,
+    onCancelRsvp,
+    onCheckIn,
     onMarkNotificationRead,
+    onDownloadTranscript,
+    onSubscribeCalendar,
     onSignOut,
   } = useVolunteerDashboard();
 
@@ -134,7 +206,14 @@ export default function VolunteerDashboardPage() {
     hours: "2",
     notes: "",
     completedTask: false,
+    metricQuantity: "",
+    evidenceFile: null as File | null,
   });
+  const [evidenceError, setEvidenceError] = useState("");
+  const [infoResponses, setInfoResponses] = useState<Record<string, string>>({});
+  const [applyingTo, setApplyingTo] = useState<ProjectDoc | null>(null);
+  // Prefilled from the link in an event's check-in QR code.
+  const [checkInCode, setCheckInCode] = useState("");
 
   const panelTitle = useMemo(() => {
     if (activeTab === "projects") return "Discover and contribute to high-impact community projects";
@@ -143,6 +222,9 @@ export default function VolunteerDashboardPage() {
     return "Making community impact through service, collaboration, and innovation";
   }, [activeTab]);
 
+  const badges = useMemo(() => badgeCatalog.map(mapBadge), [badgeCatalog]);
+  const unlockedBadges = badges.filter((badge) => badge.unlocked);
+
   const missionClasses =
     themeMode === "clean"
       ? "bg-slate-50"
@@ -187,6 +269,22 @@ export default function VolunteerDashboardPage() {
     return () => window.removeEventListener("popstate", syncFromUrl);
   }, [activeSection, setActiveSection]);
 
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("checkin");
+    if (code) setCheckInCode(code);
+  }, []);
+
+  const handleCheckIn = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!(await onCheckIn(checkInCode))) return;
+    setCheckInCode("");
+    const url = new URL(window.location.href);
+    if (url.searchParams.has("checkin")) {
+      url.searchParams.delete("checkin");
+      window.history.replaceState(null, "", url.toString());
+    }
+  };
+
   useEffect(() => {
     if (authStatus === "ready" && !profile) {
       const next = encodeURIComponent(
@@ -265,19 +363,52 @@ export default function VolunteerDashboardPage() {
     setShowProfileEditor(false);
   };
 
+  const selectedContributionProject = activeProjects.find((p) => p.id === contributionDraft.projectId);
+
+  const applicationsByProject = useMemo(
+    () => new Map(applications.map((application) => [application.projectId, application])),
+    [applications]
+  );
+
+  // The apply button, or the state of the volunteer's application, for projects that take
+  // applications; null for open projects.
+  const renderApplicationAction = (project: ProjectDoc, buttonClassName: string) => {
+    if (project.joinPolicy !== "application") return null;
+    const application = applicationsByProject.get(String(project.id));
+    if (application && application.state !== "rejected") {
+      const status = applicationLabels[application.state];
+      return <span className={`rounded-full px-3 py-1.5 text-xs font-semibold ${status.tone}`}>{status.label}</span>;
+    }
+    return (
+      <button type="button" onClick={() => setApplyingTo(project)} disabled={project.status !== "active"} className={buttonClassName}>
+        {application ? "Apply again" : "Apply"}
+      </button>
+    );
+  };
+
   const handleContributionSubmit = async (event: FormEvent) => {
     event.preventDefault();
-    const project = projects.find((p) => p.id === contributionDraft.projectId);
-    if (!project) return;
-    await onLogContribution({
+    const project = selectedContributionProject;
+    if (!project || evidenceError) return;
+    const saved = await onLogContribution({
       projectId: contributionDraft.projectId,
       projectTitle: project.title,
       hours: Number(contributionDraft.hours),
       notes: contributionDraft.notes,
       completedTask: contributionDraft.completedTask,
+      metricQuantity: contributionDraft.metricQuantity.trim() ? Number(contributionDraft.metricQuantity) : undefined,
+      evidenceFile: contributionDraft.evidenceFile,
     });
+    if (!saved) return;
     setShowContributionModal(false);
-    setContributionDraft({ projectId: "", hours: "2", notes: "", completedTask: false });
+    setContributionDraft({
+      projectId: "",
+      hours: "2",
+      notes: "",
+      completedTask: false,
+      metricQuantity: "",
+      evidenceFile: null,
+    });
   };
 
   const handleSendMessage = async (event: FormEvent) => {
@@ -405,6 +536,9 @@ export default function VolunteerDashboardPage() {
                       <p className="text-xs font-semibold uppercase text-slate-500">{project.category} • {project.location}</p>
                       <h3 className="mt-1 text-lg font-bold">{project.title}</h3>
                       <p className="mt-1 text-sm text-slate-600">{project.description}</p>
+                      {project.joinPolicy === "application" ? (
+                        <p className="mt-1 text-xs font-semibold text-slate-500">Joins by application</p>
+                      ) : null}
                     </div>
                     <div className="flex gap-2">
                       <button
@@ -423,13 +557,18 @@ export default function VolunteerDashboardPage() {
                           Leave
                         </button>
                       ) : (
-                        <button
-                          type="button"
-                          onClick={() => void onJoinProject(String(project.id))}
-                          className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70"
-                        >
-                          Join Project
-                        </button>
+                        renderApplicationAction(
+                          project,
+                          "rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70 disabled:opacity-60"
+                        ) || (
+                          <button
+                            type="button"
+                            onClick={() => void onJoinProject(String(project.id))}
+                            className="rounded-full bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-700 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70"
+                          >
+                            Join Project
+                          </button>
+                        )
                       )}
                     </div>
                   </div>
@@ -437,19 +576,28 @@ export default function VolunteerDashboardPage() {
               );
             })}
           </div>
+          {activeTab === "projects" ? (
+            <LoadMoreSentinel
+              hasMore={hasMoreProjects}
+              isLoading={isLoadingMoreProjects}
+              onLoadMore={loadMoreProjects}
+              label="Load more projects"
+            />
+          ) : null}
         </SectionCard>
       )}
 
       {activeTab === "achievements" && (
         <SectionCard title="Achievements and Badges">
+          <p className="mb-4 text-sm text-slate-600">
+            {unlockedBadges.length} of {badges.length} badges unlocked. Progress counts verified hours only.
+          </p>
           <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-3">
-            {(profile.badgesEarned || []).length === 0 ? (
-              <p className="text-sm text-slate-600">No badges unlocked yet. Log contributions and complete project tasks.</p>
+            {badges.length === 0 ? (
+              <p className="text-sm text-slate-600">No badges are available yet.</p>
             ) : (
-              profile.badgesEarned.map((badge) => (
-                <div key={badge} className="rounded-2xl border border-emerald-200 bg-emerald-50 p-4">
-                  <p className="text-sm font-semibold text-emerald-800">{badge}</p>
-                </div>
+              [...unlockedBadges, ...badges.filter((badge) => !badge.unlocked)].map((badge) => (
+                <BadgeCard key={badge.id} badge={badge} />
               ))
             )}
           </div>
@@ -516,11 +664,59 @@ export default function VolunteerDashboardPage() {
                   key={`${item.projectId}-${index}`}
                   className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:-translate-y-0.5 hover:border-slate-300 hover:shadow-sm"
                 >
-                  <p className="text-sm font-semibold">{item.projectTitle}</p>
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <p className="text-sm font-semibold">{item.projectTitle}</p>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${verificationLabels[item.verification].tone}`}
+                    >
+                      {verificationLabels[item.verification].label}
+                    </span>
+                  </div>
                   <p className="text-sm text-slate-600">{item.hours}h • {item.notes}</p>
                   <p className="mt-1 text-xs text-slate-500">
                     Task completion: {item.completedTask ? "Completed" : "In progress"}
+                    {" • "}
+                    {item.transactionId ? `Ledger ${item.transactionId.slice(0, 8)}` : "Dashboard only"}
                   </p>
+                  {item.evidenceUrl ? (
+                    <a
+                      href={item.evidenceUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="mt-1 inline-flex items-center gap-1 text-xs font-semibold text-cyan-700 hover:underline"
+                    >
+                      <Paperclip className="h-3.5 w-3.5" /> View evidence
+                    </a>
+                  ) : null}
+                  {item.verificationNote ? (
+                    <p className="mt-2 rounded-xl bg-slate-50 px-3 py-2 text-xs text-slate-700">
+                      Project lead: {item.verificationNote}
+                    </p>
+                  ) : null}
+                  {item.verification === "needs_info" ? (
+                    <form
+                      className="mt-2 flex flex-col gap-2 sm:flex-row"
+                      onSubmit={async (event) => {
+                        event.preventDefault();
+                        const saved = await onResubmitContribution(item, infoResponses[item.id] || "");
+                        if (saved) setInfoResponses((prev) => ({ ...prev, [item.id]: "" }));
+                      }}
+                    >
+                      <input
+                        value={infoResponses[item.id] || ""}
+                        onChange={(e) => setInfoResponses((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                        className="flex-1 rounded-xl border border-slate-200 px-3 py-1.5 text-sm"
+                        placeholder="Add the details the lead asked for"
+                      />
+                      <button
+                        type="submit"
+                        disabled={isBusy}
+                        className="rounded-xl bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white disabled:opacity-60"
+                      >
+                        Send details
+                      </button>
+                    </form>
+                  ) : null}
                 </article>
               ))
             )}
@@ -583,6 +779,31 @@ export default function VolunteerDashboardPage() {
     if (activeSection === "opportunities") {
       return (
         <SectionCard title="Opportunities">
+          {applications.length > 0 ? (
+            <div className="mb-4 rounded-2xl border border-slate-200 p-4">
+              <p className="text-sm font-semibold text-slate-900">My applications</p>
+              <ul className="mt-2 divide-y divide-slate-100">
+                {applications.map((application) => {
+                  const status = applicationLabels[application.state];
+                  return (
+                    <li key={application.id} className="flex flex-wrap items-center justify-between gap-2 py-2">
+                      <div>
+                        <p className="text-sm font-semibold text-slate-800">{application.projectTitle}</p>
+                        <p className="text-xs text-slate-500">
+                          Applied {application.createdAt ? application.createdAt.toLocaleDateString() : "recently"} •{" "}
+                          {application.skillsMatch}% skills match
+                        </p>
+                        {application.decisionNote ? (
+                          <p className="mt-1 text-xs text-slate-600">Note from the project lead: {application.decisionNote}</p>
+                        ) : null}
+                      </div>
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${status.tone}`}>{status.label}</span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          ) : null}
           <p className="mb-3 text-sm text-slate-600">Rules-based recommendations matched by your interests and skills.</p>
           <div className="space-y-3">
             {recommendations.length === 0 ? (
@@ -600,13 +821,24 @@ export default function VolunteerDashboardPage() {
                 >
                   <h3 className="font-semibold">{project.title}</h3>
                   <p className="text-sm text-slate-600">{project.category} • {project.location}</p>
-                  <button
-                    type="button"
-                    onClick={() => void onJoinProject(String(project.id))}
-                    className="mt-2 rounded-xl bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-800 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70"
-                  >
-                    Join Opportunity
-                  </button>
+                  <div className="mt-2 flex">
+                    {(project.participants || []).includes(profile.uid) ? (
+                      <span className="rounded-full bg-emerald-100 px-3 py-1.5 text-xs font-semibold text-emerald-700">Joined</span>
+                    ) : (
+                      renderApplicationAction(
+                        project,
+                        "rounded-xl bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-800 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70 disabled:opacity-60"
+                      ) || (
+                        <button
+                          type="button"
+                          onClick={() => void onJoinProject(String(project.id))}
+                          className="rounded-xl bg-slate-900 px-3 py-1.5 text-xs font-semibold text-white transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-800 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70"
+                        >
+                          Join Opportunity
+                        </button>
+                      )
+                    )}
+                  </div>
                 </article>
               ))
             )}
@@ -618,8 +850,68 @@ export default function VolunteerDashboardPage() {
     if (activeSection === "events") {
       return (
         <SectionCard title="Events">
+          <form onSubmit={(e) => void handleCheckIn(e)} className="mb-4 rounded-2xl border border-slate-200 p-4">
+            <p className="text-sm font-semibold text-slate-900">Check in to an event</p>
+            <p className="text-sm text-slate-600">Scan the QR code at the event or enter the code the organizer shows.</p>
+            <div className="mt-3 flex flex-wrap gap-2">
+              <input
+                value={checkInCode}
+                onChange={(e) => setCheckInCode(e.target.value)}
+                placeholder="e.g. K7QF2M"
+                autoCapitalize="characters"
+                autoComplete="off"
+                maxLength={12}
+                className="w-40 rounded-xl border border-slate-300 px-3 py-2 font-mono text-sm uppercase tracking-widest"
+                aria-label="Check-in code"
+              />
+              <button
+                type="submit"
+                disabled={isBusy || !checkInCode.trim()}
+                className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-50"
+              >
+                <ScanLine className="h-4 w-4" /> Check in
+              </button>
+            </div>
+          </form>
+          {calendarFeedAvailable ? (
+            <div className="mb-4 rounded-2xl border border-slate-200 p-4">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm font-semibold text-slate-900">Calendar subscription</p>
+                  <p className="text-sm text-slate-600">
+                    Events you RSVP to and events on projects you joined, kept up to date in your calendar app.
+                  </p>
+                </div>
+                <button
+                  onClick={() => void onSubscribeCalendar()}
+                  disabled={isBusy}
+                  className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-50"
+                >
+                  <CalendarPlus className="h-4 w-4" /> Subscribe in calendar
+                </button>
+              </div>
+              {calendarFeedUrl ? (
+                <div className="mt-3 space-y-2">
+                  <input
+                    readOnly
+                    value={calendarFeedUrl}
+                    onFocus={(e) => e.target.select()}
+                    className="w-full rounded-xl border border-slate-300 bg-slate-50 px-3 py-2 text-xs text-slate-700"
+                    aria-label="Calendar feed URL"
+                  />
+                  <p className="text-xs text-slate-500">
+                    Paste this link into your calendar app&apos;s &quot;subscribe by URL&quot; option, or{" "}
+                    <a href={calendarFeedUrl.replace(/^https?:/, "webcal:")} className="font-semibold text-cyan-700 underline">
+                      open it in your calendar app
+                    </a>
+                    . Keep it private: anyone with the link can see your schedule.
+                  </p>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
           <div className="space-y-3">
-            {events.length === 0 ? (
+            {eventOccurrences.length === 0 ? (
               <div className="rounded-2xl border border-dashed border-slate-300 bg-slate-50 p-6 text-center">
                 <p className="text-base font-semibold text-slate-800">No upcoming events yet</p>
                 <p className="mt-1 text-sm text-slate-600">
@@ -627,27 +919,77 @@ export default function VolunteerDashboardPage() {
                 </p>
               </div>
             ) : (
-              events.map((event) => (
-                <article
-                  key={String(event.id)}
-                  className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:-translate-y-0.5 hover:border-slate-300 hover:shadow-sm"
-                >
-                  <h3 className="font-semibold">{event.title}</h3>
-                  <p className="flex items-center gap-1 text-sm text-slate-600">
-                    <CalendarClock className="h-3.5 w-3.5 text-cyan-600" /> {event.startsAt}
-                  </p>
-                  <p className="mt-0.5 flex items-center gap-1 text-sm text-slate-600">
-                    <MapPin className="h-3.5 w-3.5 text-cyan-600" /> {event.location}
-                  </p>
-                  <button
-                    type="button"
-                    onClick={() => void onRsvpEvent(String(event.id))}
-                    className="mt-2 rounded-xl border border-slate-300 px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70"
+              eventOccurrences.map(({ event, key, startsAt, endsAt }) => {
+                const isCancelled = event.status === "cancelled";
+                const isGoing = event.rsvps.includes(profile.uid);
+                const waitlistPosition = event.waitlist.indexOf(profile.uid) + 1;
+                const isFull = Boolean(event.capacity && event.rsvps.length >= event.capacity);
+                return (
+                  <article
+                    key={`${event.id}:${key}`}
+                    className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:-translate-y-0.5 hover:border-slate-300 hover:shadow-sm"
                   >
-                    RSVP
-                  </button>
-                </article>
-              ))
+                    <div className="flex items-start justify-between gap-2">
+                      <h3 className={`font-semibold ${isCancelled ? "text-slate-500 line-through" : ""}`}>{event.title}</h3>
+                      {isCancelled ? (
+                        <span className="rounded-full bg-rose-100 px-2 py-0.5 text-xs font-semibold text-rose-700">Cancelled</span>
+                      ) : null}
+                    </div>
+                    <p className="flex items-center gap-1 text-sm text-slate-600">
+                      <CalendarClock className="h-3.5 w-3.5 text-cyan-600" /> {startsAt.toLocaleString()}
+                      {endsAt ? ` – ${endsAt.toLocaleTimeString()}` : ""}
+                    </p>
+                    {event.recurrence ? (
+                      <p className="mt-0.5 text-xs font-semibold text-slate-500">
+                        {describeRecurrence(event.recurrence)}; your RSVP covers every date.
+                      </p>
+                    ) : null}
+                    <p className="mt-0.5 flex items-center gap-1 text-sm text-slate-600">
+                      <MapPin className="h-3.5 w-3.5 text-cyan-600" /> {event.location}
+                    </p>
+                    {event.description ? <p className="mt-1 text-sm text-slate-600">{event.description}</p> : null}
+                    {event.capacity ? (
+                      <p className="mt-1 text-xs text-slate-500">
+                        {Math.max(0, event.capacity - event.rsvps.length)} of {event.capacity} spots left
+                        {event.waitlist.length > 0 ? ` • ${event.waitlist.length} on the waitlist` : ""}
+                      </p>
+                    ) : null}
+                    {waitlistPosition > 0 && !isCancelled ? (
+                      <p className="mt-1 text-xs font-semibold text-amber-700">
+                        You&apos;re #{waitlistPosition} on the waitlist. We&apos;ll notify you if a spot opens.
+                      </p>
+                    ) : null}
+                    {isCancelled ? null : isGoing || waitlistPosition > 0 ? (
+                      <div className="mt-2 flex items-center gap-2">
+                        <span
+                          className={`rounded-full px-2 py-0.5 text-xs font-semibold ${
+                            isGoing ? "bg-emerald-100 text-emerald-700" : "bg-amber-100 text-amber-800"
+                          }`}
+                        >
+                          {isGoing ? "Going" : "Waitlisted"}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => void onCancelRsvp(String(event.id))}
+                          disabled={isBusy}
+                          className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70 disabled:translate-y-0 disabled:cursor-not-allowed disabled:opacity-60"
+                        >
+                          {isGoing ? "Cancel RSVP" : "Leave waitlist"}
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => void onRsvpEvent(String(event.id))}
+                        disabled={isBusy}
+                        className="mt-2 rounded-xl border border-slate-300 px-3 py-1.5 text-xs font-semibold transition-all duration-200 hover:-translate-y-0.5 hover:bg-slate-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-cyan-300/70 disabled:translate-y-0 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {isFull ? "Join waitlist" : "RSVP"}
+                      </button>
+                    )}
+                  </article>
+                );
+              })
             )}
           </div>
         </SectionCard>
@@ -659,8 +1001,12 @@ export default function VolunteerDashboardPage() {
         <SectionCard title="Impact Reports">
           <div className="mb-4 grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
             <div className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:border-slate-300 hover:shadow-sm">
-              <p className="text-xs uppercase text-slate-500">Hours contributed</p>
-              <p className="mt-1 text-2xl font-black">{profile.hoursContributed}h</p>
+              <p className="text-xs uppercase text-slate-500">
+                {ledgerSummary ? "Hours on impact ledger" : "Hours contributed"}
+              </p>
+              <p className="mt-1 text-2xl font-black">
+                {ledgerSummary ? ledgerSummary.hours : profile.hoursContributed}h
+              </p>
             </div>
             <div className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:border-slate-300 hover:shadow-sm">
               <p className="text-xs uppercase text-slate-500">Completed projects</p>
@@ -668,34 +1014,74 @@ export default function VolunteerDashboardPage() {
             </div>
             <div className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:border-slate-300 hover:shadow-sm">
               <p className="text-xs uppercase text-slate-500">Impact score</p>
-              <p className="mt-1 text-2xl font-black">{profile.impactScore}</p>
+              <p className="mt-1 text-2xl font-black">{impactBreakdown ? impactBreakdown.score : profile.impactScore}</p>
             </div>
             <div className="rounded-2xl border border-slate-200 p-4 transition-all duration-200 hover:border-slate-300 hover:shadow-sm">
               <p className="text-xs uppercase text-slate-500">Badges earned</p>
               <p className="mt-1 text-2xl font-black">{(profile.badgesEarned || []).length}</p>
             </div>
           </div>
+          <p className="mb-4 text-sm text-slate-600">
+            {ledgerSummary
+              ? `Ledger totals: ${ledgerSummary.entries} entries across ${ledgerSummary.projects} projects, ${ledgerSummary.totalImpact} impact units.`
+              : ledgerError
+                ? `Impact ledger unavailable (${ledgerError}). Showing dashboard totals.`
+                : "Showing dashboard totals; this data backend has no impact ledger."}
+            {ledgerSummary && offLedgerHours > 0
+              ? ` ${offLedgerHours.toFixed(1)}h logged on dashboard-only projects are not on the ledger.`
+              : ""}
+            {unverifiedHours > 0 ? ` ${unverifiedHours.toFixed(1)}h are waiting for project lead verification.` : ""}
+          </p>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-slate-200 p-4">
+            <div>
+              <p className="text-sm font-semibold text-slate-900">Service transcript</p>
+              <p className="text-sm text-slate-600">
+                A signed record of your verified hours, projects, project leads and badges for schools and employers.
+                Its verification code can be checked online by anyone you share it with.
+              </p>
+            </div>
+            <button
+              onClick={() => void onDownloadTranscript()}
+              disabled={isBusy}
+              className="inline-flex items-center gap-2 rounded-xl bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-800 disabled:opacity-50"
+            >
+              <FileBadge className="h-4 w-4" /> Download transcript
+            </button>
+          </div>
           <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
             <div className="mb-2 flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-slate-600">
-              <span>Impact progress</span>
-              <span>{Math.min(100, profile.impactScore)}%</span>
+              <span>Score breakdown</span>
+              <span>{impactBreakdown ? impactBreakdown.score : profile.impactScore} points</span>
             </div>
-            <div className="h-2 rounded-full bg-slate-200">
-              <div
-                className="h-2 rounded-full bg-gradient-to-r from-cyan-500 to-blue-500 transition-all duration-500"
-                style={{ width: `${Math.min(100, profile.impactScore)}%` }}
-              />
-            </div>
-            <p className="mt-2 text-sm text-slate-600">
-              Every contribution strengthens your impact profile across community initiatives.
+            <p className="mb-3 text-sm text-slate-600">
+              Each contribution earns points for its hours and completed task, multiplied by its verification status,
+              project category and how recent it is.
             </p>
+            {!impactBreakdown || impactBreakdown.contributions.length === 0 ? (
+              <p className="text-sm text-slate-600">Log a contribution to start building your impact score.</p>
+            ) : (
+              <ul className="space-y-2">
+                {impactBreakdown.contributions.map((entry) => (
+                  <li
+                    key={entry.contributionId}
+                    className="flex items-start justify-between gap-3 rounded-xl border border-slate-200 bg-white px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold text-slate-900">{entry.projectTitle || "General"}</p>
+                      <p className="text-xs text-slate-500">{describeContributionScore(entry)}</p>
+                    </div>
+                    <span className="shrink-0 text-sm font-bold text-slate-900">{entry.points} pts</span>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </SectionCard>
       );
     }
 
     if (activeSection === "saved") {
-      const saved = projects.filter((p) => savedProjectIds.includes(String(p.id)));
+      const saved = savedProjects.filter((p) => savedProjectIds.includes(String(p.id)));
       return (
         <SectionCard title="Saved Projects">
           {saved.length === 0 ? (
@@ -1025,6 +1411,17 @@ export default function VolunteerDashboardPage() {
         </div>
       ) : null}
 
+      {applyingTo ? (
+        <ApplyModal
+          project={applyingTo}
+          volunteerSkills={profile.skills || []}
+          isBusy={isBusy}
+          error={error}
+          onSubmit={(input) => onApplyToProject(String(applyingTo.id), input)}
+          onClose={() => setApplyingTo(null)}
+        />
+      ) : null}
+
       {showContributionModal ? (
         <div className="fixed inset-0 z-50 grid place-items-center bg-black/40 p-4">
           <form onSubmit={handleContributionSubmit} className="w-full max-w-lg rounded-2xl bg-white p-5">
@@ -1051,6 +1448,20 @@ export default function VolunteerDashboardPage() {
                 className="w-full rounded-xl border border-slate-200 px-3 py-2"
                 placeholder="Hours"
               />
+              {selectedContributionProject?.impactMetric ? (
+                <label className="block text-sm text-slate-700">
+                  {selectedContributionProject.impactMetric} (optional)
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={contributionDraft.metricQuantity}
+                    onChange={(e) => setContributionDraft((prev) => ({ ...prev, metricQuantity: e.target.value }))}
+                    className="mt-1 w-full rounded-xl border border-slate-200 px-3 py-2"
+                    placeholder="How many did this contribution deliver?"
+                  />
+                </label>
+              ) : null}
               <textarea
                 value={contributionDraft.notes}
                 onChange={(e) => setContributionDraft((prev) => ({ ...prev, notes: e.target.value }))}
@@ -1068,12 +1479,57 @@ export default function VolunteerDashboardPage() {
                 />
                 Mark task complete
               </label>
+              <div className="rounded-xl border border-dashed border-slate-300 p-3">
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                  <Paperclip className="h-4 w-4 text-cyan-600" /> Evidence (optional)
+                </label>
+                {evidenceUploadAvailable ? (
+                  <>
+                    <input
+                      type="file"
+                      accept={EVIDENCE_CONTENT_TYPES.join(",")}
+                      disabled={evidenceProgress !== null}
+                      onChange={(e) => {
+                        const file = e.target.files?.[0] || null;
+                        setEvidenceError(file ? validateEvidenceFile(file) : "");
+                        setContributionDraft((prev) => ({ ...prev, evidenceFile: file }));
+                      }}
+                      className="mt-2 w-full text-sm"
+                    />
+                    <p className="mt-1 text-xs text-slate-500">
+                      Photo (JPEG, PNG, WebP) or PDF, up to {EVIDENCE_MAX_BYTES / (1024 * 1024)} MB.
+                    </p>
+                    {contributionDraft.evidenceFile && !evidenceError ? (
+                      <p className="mt-1 text-xs text-slate-600">
+                        {isImageEvidence(contributionDraft.evidenceFile.type) ? "Photo" : "PDF"} selected:{" "}
+                        {contributionDraft.evidenceFile.name}
+                      </p>
+                    ) : null}
+                  </>
+                ) : (
+                  <p className="mt-1 text-xs text-slate-500">Evidence uploads need Firebase Storage, which this environment does not use.</p>
+                )}
+                {evidenceProgress !== null ? (
+                  <div className="mt-2 h-2 rounded-full bg-slate-200" aria-label="Evidence upload progress">
+                    <div
+                      className="h-2 rounded-full bg-gradient-to-r from-cyan-500 to-blue-500 transition-all duration-200"
+                      style={{ width: `${Math.round(evidenceProgress * 100)}%` }}
+                    />
+                  </div>
+                ) : null}
+                {evidenceError ? <p className="mt-1 text-xs font-medium text-red-700">{evidenceError}</p> : null}
+              </div>
+              {error ? <p className="text-sm font-medium text-red-700">{error}</p> : null}
             </div>
             <div className="mt-4 flex justify-end gap-2">
               <button type="button" onClick={() => setShowContributionModal(false)} className="rounded-xl border px-3 py-2 text-sm">
                 Cancel
               </button>
-              <button type="submit" className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white">
+              <button
+                type="submit"
+                disabled={isBusy || Boolean(evidenceError)}
+                className="rounded-xl bg-slate-900 px-3 py-2 text-sm font-semibold text-white disabled:cursor-not-allowed disabled:opacity-60"
+              >
                 Save contribution
               </button>
             </div>
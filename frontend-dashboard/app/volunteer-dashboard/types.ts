@@ -1,3 +1,5 @@
+import type { BadgeIcon } from "../../lib/turknodeDb";
+
 export type DashboardTab = "overview" | "projects" | "achievements" | "recommendations";
 
 export type Volunteer = {
@@ -49,9 +51,16 @@ export type Stat = {
 
 export type Badge = {
   id: string;
+  // Includes the earned tier, e.g. "Steady Contributor (Silver)".
   name: string;
   description: string;
-  earnedOn: string;
+  icon: BadgeIcon;
+  unlocked: boolean;
+  earnedOn?: string;
+  earnedFor?: string;
+  // Percent toward the next tier, or 100 once every tier is reached.
+  progress: number;
+  progressLabel: string;
 };
 
 export type Opportunity = {
@@ -1,20 +1,29 @@
 'use client';
 
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { auth, firebaseReady } from '../../lib/firebase';
-import { signOut } from 'firebase/auth';
+import { printHtml } from '../../lib/browserFiles';
+import { requestCalendarFeedUrl } from '../../lib/calendarSubscription';
+import { scheduleOccurrences } from '../../lib/eventRecurrence';
+import { uploadEvidence } from '../../lib/evidenceUpload';
+import { getLedgerSummary, recordContribution, type LedgerSummary } from '../../lib/impactLedger';
+import type { ImpactScore } from '../../lib/impactScore';
+import { transcriptToHtml } from '../../lib/serviceTranscript';
+import { issueServiceTranscript } from '../../lib/transcripts';
+import { endSession, onSessionChange, sessionAvailable } from '../../lib/turknodeSession';
 import {
+  DEFAULT_PAGE_SIZE,
+  applyToProject,
+  cancelRsvp,
+  checkInWithCode,
+  dataBackend,
+  describeInvalidDocument,
   evaluateAndAwardBadges,
+  getProjectsByIds,
   getSavedProjectIds,
   joinProject,
   leaveProject,
-  listContributions,
-  listEvents,
-  listNotifications,
-  listProjects,
-  listThreads,
-  logContribution,
   markNotificationRead,
+  resubmitContribution,
   rsvpToEvent,
   saveProject,
   seedIfEmpty,
@@ -24,10 +33,24 @@ import {
   updateNotificationPrefs,
   upsertUserProfile,
   getUserProfile,
+  getVolunteerImpact,
+  onInvalidDocument,
+  subscribeToApplicantApplications,
+  subscribeToContributions,
+  subscribeToEvents,
+  subscribeToMemberProjects,
+  subscribeToNotifications,
+  subscribeToProjectDirectory,
+  subscribeToThreads,
+  subscribeToUserProfile,
+  type ApplicationDoc,
+  type ApplicationInput,
+  type BadgeCatalogEntry,
   type ContributionDoc,
   type EventDoc,
   type NotificationDoc,
   type ProjectDoc,
+  type RsvpStatus,
   type UserProfileDoc,
 } from '../../lib/turknodeDb';
 
@@ -42,17 +65,31 @@ export type NavSection =
   | 'saved'
   | 'settings';
 
+// Repeating events are listed by their dates in the next eight weeks.
+const EVENT_WINDOW_DAYS = 56;
+
 export function useVolunteerDashboard() {
   const [authStatus, setAuthStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
   const [uid, setUid] = useState<string>('');
   const [profile, setProfile] = useState<UserProfileDoc | null>(null);
   const [projects, setProjects] = useState<ProjectDoc[]>([]);
+  const [projectWindow, setProjectWindow] = useState(DEFAULT_PAGE_SIZE);
+  const [isLoadingMoreProjects, setIsLoadingMoreProjects] = useState(false);
+  const [memberProjects, setMemberProjects] = useState<ProjectDoc[]>([]);
+  const [savedProjects, setSavedProjects] = useState<ProjectDoc[]>([]);
   const [contributions, setContributions] = useState<ContributionDoc[]>([]);
+  const [badgeCatalog, setBadgeCatalog] = useState<BadgeCatalogEntry[]>([]);
+  const [impactBreakdown, setImpactBreakdown] = useState<ImpactScore | null>(null);
+  const [ledgerSummary, setLedgerSummary] = useState<LedgerSummary | null>(null);
+  const [ledgerError, setLedgerError] = useState('');
   const [notifications, setNotifications] = useState<NotificationDoc[]>([]);
   const [threads, setThreads] = useState<Array<Record<string, unknown>>>([]);
   const [events, setEvents] = useState<EventDoc[]>([]);
+  const [applications, setApplications] = useState<ApplicationDoc[]>([]);
+  const [calendarFeedUrl, setCalendarFeedUrl] = useState('');
   const [savedProjectIds, setSavedProjectIds] = useState<string[]>([]);
   const [isBusy, setIsBusy] = useState(false);
+  const [evidenceProgress, setEvidenceProgress] = useState<number | null>(null);
   const [error, setError] = useState('');
   const [notice, setNotice] = useState('');
 
@@ -61,42 +98,54 @@ export function useVolunteerDashboard() {
   const [filterLocation, setFilterLocation] = useState('');
   const [filterSkill, setFilterSkill] = useState('');
 
-  const refreshAll = useCallback(async (currentUid: string) => {
+  // Badges, the score breakdown and ledger totals follow from the volunteer's contributions, so
+  // they are re-read whenever the contributions subscription delivers.
+  const refreshImpact = useCallback(async (currentUid: string) => {
+    const impact = await getVolunteerImpact(currentUid);
+    setBadgeCatalog(impact.badgeCatalog);
+    setImpactBreakdown(impact.impactBreakdown);
+    // The orchestrator being down should not block the dashboard, so ledger totals fail softly.
     try {
-      const [profileRow, projectsRows, contributionRows, notificationRows, threadRows, eventRows, savedRows] =
-        await Promise.all([
-          getUserProfile(currentUid),
-          listProjects(),
-          listContributions(currentUid),
-          listNotifications(currentUid),
-          listThreads(currentUid),
-          listEvents(),
-          getSavedProjectIds(currentUid),
-        ]);
-
-      if (profileRow) {
-        setProfile(profileRow);
-      }
-      setProjects(projectsRows);
-      setContributions(contributionRows);
-      setNotifications(notificationRows);
-      setThreads(threadRows);
-      setEvents(eventRows);
-      setSavedProjectIds(savedRows);
-      return true;
+      setLedgerSummary(await getLedgerSummary());
+      setLedgerError('');
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to refresh dashboard data.');
-      return false;
+      setLedgerSummary(null);
+      setLedgerError(err instanceof Error ? err.message : 'Unable to load ledger totals.');
     }
   }, []);
 
+  // Saved projects have no subscription, so they are re-read after the volunteer saves one.
+  const refreshSaved = useCallback(async (currentUid: string) => {
+    const savedRows = await getSavedProjectIds(currentUid);
+    setSavedProjectIds(savedRows);
+    setSavedProjects(await getProjectsByIds(savedRows));
+  }, []);
+
+  // Everything else, including the profile, contributions and what follows from them, arrives
+  // through the live subscriptions below; refreshAll only loads the dashboard on sign-in.
+  const refreshAll = useCallback(
+    async (currentUid: string) => {
+      try {
+        const [profileRow] = await Promise.all([getUserProfile(currentUid), refreshSaved(currentUid)]);
+        if (profileRow) {
+          setProfile(profileRow);
+        }
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to refresh dashboard data.');
+        return false;
+      }
+    },
+    [refreshSaved]
+  );
+
   useEffect(() => {
-    if (!firebaseReady || !auth) {
+    if (!sessionAvailable) {
       setAuthStatus('unavailable');
       return;
     }
 
-    const unsub = auth.onAuthStateChanged(async (user) => {
+    const unsub = onSessionChange(async (user) => {
       if (!user) {
         setUid('');
         setProfile(null);
@@ -107,6 +156,10 @@ export function useVolunteerDashboard() {
       try {
         setUid(user.uid);
         await seedIfEmpty(user.uid, user.email || '', user.displayName || 'TurkNode Volunteer');
+        // Badge definitions can change between visits; re-evaluating here applies the changes.
+        await evaluateAndAwardBadges(user.uid).catch((err) =>
+          setError(err instanceof Error ? err.message : 'Unable to update your badges.')
+        );
         const refreshed = await refreshAll(user.uid);
         if (!refreshed) {
           setProfile({
@@ -164,23 +217,76 @@ export function useVolunteerDashboard() {
     return () => unsub();
   }, [refreshAll]);
 
+  useEffect(() => onInvalidDocument((report) => setError(describeInvalidDocument(report))), []);
+
   useEffect(() => {
     if (!uid) return;
-    const timer = setInterval(() => {
-      void refreshAll(uid).catch(() => {
-        // Prevent uncaught promise rejections from crashing the route.
-      });
-    }, 15000);
-    return () => clearInterval(timer);
-  }, [uid, refreshAll]);
+    const onError = (err: Error) => setError(err.message || 'Live dashboard updates failed.');
+    const reloadImpact = () =>
+      refreshImpact(uid).catch((err) => setError(err instanceof Error ? err.message : 'Failed to refresh your impact.'));
+    // Awards are written after the review that earned them, and the profile's badge list after
+    // the awards, so a change there is when the catalog's awards are up to date.
+    let badgesKey: string | null = null;
+    const unsubscribers = [
+      // Profile totals and contributions change when a project lead reviews the volunteer's hours.
+      subscribeToUserProfile(
+        uid,
+        ([row]) => {
+          if (!row) return;
+          setProfile(row);
+          const nextKey = (row.badgesEarned || []).join('\n');
+          if (badgesKey !== null && nextKey !== badgesKey) void reloadImpact();
+          badgesKey = nextKey;
+        },
+        onError
+      ),
+      subscribeToContributions(
+        uid,
+        (rows) => {
+          setContributions(rows);
+          void reloadImpact();
+        },
+        onError
+      ),
+      subscribeToNotifications(uid, setNotifications, onError),
+      subscribeToThreads(uid, setThreads, onError),
+      subscribeToMemberProjects(uid, setMemberProjects, onError),
+      subscribeToEvents(setEvents, onError),
+      subscribeToApplicantApplications(uid, setApplications, onError),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [uid, refreshImpact]);
+
+  useEffect(() => {
+    if (!uid) return;
+    return subscribeToProjectDirectory(
+      projectWindow,
+      (rows) => {
+        setProjects(rows);
+        setIsLoadingMoreProjects(false);
+      },
+      (err) => {
+        setError(err.message || 'Failed to load projects.');
+        setIsLoadingMoreProjects(false);
+      }
+    );
+  }, [uid, projectWindow]);
+
+  const hasMoreProjects = projects.length >= projectWindow;
+
+  const loadMoreProjects = useCallback(() => {
+    if (!hasMoreProjects || isLoadingMoreProjects) return;
+    setIsLoadingMoreProjects(true);
+    setProjectWindow((current) => current + DEFAULT_PAGE_SIZE);
+  }, [hasMoreProjects, isLoadingMoreProjects]);
 
   const activeProjects = useMemo(
-    () => projects.filter((p) => p.status === 'active' && (p.participants || []).includes(uid)),
-    [projects, uid]
+    () => memberProjects.filter((p) => p.status === 'active'),
+    [memberProjects]
   );
   const completedProjects = useMemo(
-    () => projects.filter((p) => p.status === 'completed' && (p.participants || []).includes(uid)),
-    [projects, uid]
+    () => memberProjects.filter((p) => p.status === 'completed'),
+    [memberProjects]
   );
 
   const filteredProjects = useMemo(() => {
@@ -209,23 +315,26 @@ export function useVolunteerDashboard() {
       .map((entry) => entry.project);
   }, [projects, profile]);
 
+  // successMsg may be a function, for messages that depend on what fn did. What the action changes
+  // shows up through the live subscriptions.
   const wrapAction = useCallback(
-    async (fn: () => Promise<void>, successMsg: string) => {
-      if (!uid) return;
+    async (fn: () => Promise<void>, successMsg: string | (() => string)) => {
+      if (!uid) return false;
       setIsBusy(true);
       setError('');
       setNotice('');
       try {
         await fn();
-        await refreshAll(uid);
-        setNotice(successMsg);
+        setNotice(typeof successMsg === 'function' ? successMsg() : successMsg);
+        return true;
       } catch (err) {
         setError(err instanceof Error ? err.message : 'Action failed');
+        return false;
       } finally {
         setIsBusy(false);
       }
     },
-    [uid, refreshAll]
+    [uid]
   );
 
   const onJoinProject = useCallback(
@@ -244,32 +353,74 @@ export function useVolunteerDashboard() {
     [uid, wrapAction]
   );
 
+  const onApplyToProject = useCallback(
+    async (projectId: string, input: ApplicationInput) => {
+      if (!uid) return false;
+      return wrapAction(
+        async () => {
+          await applyToProject(uid, projectId, input);
+        },
+        'Application sent. The project lead will review it.'
+      );
+    },
+    [uid, wrapAction]
+  );
+
   const onSaveProject = useCallback(
     async (projectId: string) => {
       if (!uid) return;
       const isSaved = savedProjectIds.includes(projectId);
-      await wrapAction(
-        () => (isSaved ? unsaveProject(uid, projectId) : saveProject(uid, projectId)),
-        isSaved ? 'Removed from saved.' : 'Saved for later.'
-      );
+      await wrapAction(async () => {
+        await (isSaved ? unsaveProject(uid, projectId) : saveProject(uid, projectId));
+        await refreshSaved(uid);
+      }, isSaved ? 'Removed from saved.' : 'Saved for later.');
     },
-    [savedProjectIds, uid, wrapAction]
+    [savedProjectIds, uid, wrapAction, refreshSaved]
   );
 
   const onLogContribution = useCallback(
-    async (payload: { projectId: string; projectTitle: string; hours: number; notes: string; completedTask: boolean }) => {
-      if (!uid) return;
-      await wrapAction(async () => {
-        await logContribution({
+    async (payload: {
+      projectId: string;
+      projectTitle: string;
+      hours: number;
+      notes: string;
+      completedTask: boolean;
+      metricQuantity?: number;
+      evidenceFile?: File | null;
+    }) => {
+      if (!uid) return false;
+      return wrapAction(async () => {
+        let evidence: { url: string; contentType: string } | null = null;
+        if (payload.evidenceFile) {
+          setEvidenceProgress(0);
+          try {
+            evidence = await uploadEvidence(uid, payload.evidenceFile, setEvidenceProgress);
+          } finally {
+            setEvidenceProgress(null);
+          }
+        }
+        await recordContribution({
           uid,
           projectId: payload.projectId,
           projectTitle: payload.projectTitle,
           hours: payload.hours,
           notes: payload.notes,
           completedTask: payload.completedTask,
+          ...(payload.metricQuantity !== undefined ? { metricQuantity: payload.metricQuantity } : {}),
+          ...(evidence ? { evidenceUrl: evidence.url, evidenceContentType: evidence.contentType } : {}),
         });
-        await evaluateAndAwardBadges(uid);
-      }, 'Contribution logged and impact updated.');
+      }, 'Contribution logged and sent to the project lead for verification.');
+    },
+    [uid, wrapAction]
+  );
+
+  const onResubmitContribution = useCallback(
+    async (contribution: ContributionDoc, response: string) => {
+      if (!uid) return false;
+      return wrapAction(
+        () => resubmitContribution(uid, contribution, response),
+        'Details sent. Your hours are back in the verification queue.'
+      );
     },
     [uid, wrapAction]
   );
@@ -310,11 +461,49 @@ export function useVolunteerDashboard() {
   const onRsvpEvent = useCallback(
     async (eventId: string) => {
       if (!uid) return;
-      await wrapAction(() => rsvpToEvent(uid, eventId), 'RSVP confirmed.');
+      let status: RsvpStatus = 'confirmed';
+      await wrapAction(
+        async () => {
+          status = await rsvpToEvent(uid, eventId);
+        },
+        () =>
+          status === 'confirmed'
+            ? 'RSVP confirmed.'
+            : "This event is full, so you're on the waitlist. We'll notify you if a spot opens."
+      );
+    },
+    [uid, wrapAction]
+  );
+
+  const onCancelRsvp = useCallback(
+    async (eventId: string) => {
+      if (!uid) return;
+      await wrapAction(() => cancelRsvp(uid, eventId), "You're no longer signed up for this event.");
     },
     [uid, wrapAction]
   );
 
+  // Checking in reports the event rather than a plain success message, so this skips wrapAction.
+  const onCheckIn = useCallback(
+    async (code: string) => {
+      if (!uid) return false;
+      setIsBusy(true);
+      setError('');
+      setNotice('');
+      try {
+        const event = await checkInWithCode(uid, code);
+        setNotice(`You're checked in to ${event.title}.`);
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Unable to check in.');
+        return false;
+      } finally {
+        setIsBusy(false);
+      }
+    },
+    [uid]
+  );
+
   const onMarkNotificationRead = useCallback(
     async (notificationId: string) => {
       await wrapAction(() => markNotificationRead(notificationId), 'Notification marked as read.');
@@ -322,13 +511,46 @@ export function useVolunteerDashboard() {
     [wrapAction]
   );
 
+  // Feeds are served from Firestore on the server, so the memory and local backends have none.
+  const calendarFeedAvailable = dataBackend === 'firestore';
+
+  const onSubscribeCalendar = useCallback(async () => {
+    setIsBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      setCalendarFeedUrl(await requestCalendarFeedUrl());
+      setNotice('Add the calendar link to your calendar app to see your events there.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create your calendar feed.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, []);
+
+  // The signed transcript is printed rather than announced, so this skips wrapAction.
+  const onDownloadTranscript = useCallback(async () => {
+    if (!uid) return;
+    setIsBusy(true);
+    setError('');
+    setNotice('');
+    try {
+      const issued = await issueServiceTranscript();
+      printHtml(transcriptToHtml(issued.transcript, issued.code, issued.verifyUrl));
+      setNotice(`Transcript signed with verification code ${issued.code}. Save it as a PDF from the print dialog.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create your transcript.');
+    } finally {
+      setIsBusy(false);
+    }
+  }, [uid]);
+
   const onSignOut = useCallback(async () => {
-    if (!auth) return;
     setIsBusy(true);
     setError('');
     setNotice('');
     try {
-      await signOut(auth);
+      await endSession();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Unable to sign out.');
     } finally {
@@ -336,24 +558,56 @@ export function useVolunteerDashboard() {
     }
   }, []);
 
+  const eventOccurrences = useMemo(() => {
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    return scheduleOccurrences(events, from, new Date(from.getTime() + EVENT_WINDOW_DAYS * 24 * 60 * 60 * 1000));
+  }, [events]);
+
   const totalHours = useMemo(
     () => contributions.reduce((sum, row) => sum + Number(row.hours || 0), 0),
     [contributions]
   );
 
+  // Verified hours stored on the dashboard only (dashboard-only projects or a local data backend).
+  const offLedgerHours = useMemo(
+    () =>
+      contributions
+        .filter((row) => row.verification === 'verified' && !row.transactionId)
+        .reduce((sum, row) => sum + Number(row.hours || 0), 0),
+    [contributions]
+  );
+
+  const unverifiedHours = useMemo(
+    () =>
+      contributions
+        .filter((row) => row.verification === 'pending' || row.verification === 'needs_info')
+        .reduce((sum, row) => sum + Number(row.hours || 0), 0),
+    [contributions]
+  );
+
   return {
     authStatus,
     uid,
     profile,
     projects,
+    hasMoreProjects,
+    isLoadingMoreProjects,
+    loadMoreProjects,
+    savedProjects,
     activeProjects,
     completedProjects,
     filteredProjects,
     recommendations,
     contributions,
+    badgeCatalog,
+    impactBreakdown,
     notifications,
     threads,
-    events,
+    applications,
+    eventOccurrences,
+    calendarFeedAvailable,
+    calendarFeedUrl,
     savedProjectIds,
     activeSection,
     setActiveSection,
@@ -364,19 +618,30 @@ export function useVolunteerDashboard() {
     filterSkill,
     setFilterSkill,
     totalHours,
+    ledgerSummary,
+    ledgerError,
+    offLedgerHours,
+    unverifiedHours,
+    evidenceProgress,
     isBusy,
     error,
     notice,
     onJoinProject,
     onLeaveProject,
+    onApplyToProject,
     onSaveProject,
     onLogContribution,
+    onResubmitContribution,
     onSendMessage,
     onToggleAvailability,
     onUpdateProfile,
     onUpdatePrefs,
     onRsvpEvent,
+    onCancelRsvp,
+    onCheckIn,
     onMarkNotificationRead,
+    onDownloadTranscript,
+    onSubscribeCalendar,
     onSignOut,
   };
 }
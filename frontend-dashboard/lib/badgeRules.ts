@@ -0,0 +1,239 @@
+import type {
+  BadgeDefinitionDoc,
+  BadgeIcon,
+  BadgeMetric,
+  BadgeTier,
+  ContributionDoc,
+  EventDoc,
+} from './turknodeTypes';
+
+// Badges are data (the badgeDefinitions collection); this module decides what a volunteer's
+// activity earns. It is pure so the dashboards can show progress with the same rules that
+// turknodeDb uses to award badges.
+
+export const BADGE_METRICS: BadgeMetric[] = ['hours', 'completedTasks', 'contributions', 'streakWeeks', 'eventsAttended'];
+export const BADGE_ICONS: BadgeIcon[] = ['award', 'clock', 'users', 'book', 'leaf', 'flame', 'calendar', 'star'];
+
+export const BADGE_METRIC_UNITS: Record<BadgeMetric, string> = {
+  hours: 'verified hours',
+  completedTasks: 'completed tasks',
+  contributions: 'verified contributions',
+  streakWeeks: 'week streak',
+  eventsAttended: 'events attended',
+};
+
+// Everything the rules look at. Contributions must already be limited to verified ones.
+export type BadgeActivity = {
+  contributions: ContributionDoc[];
+  // Project category by project ID, for category filters on contribution metrics.
+  projectCategories: Record<string, string>;
+  attendedEvents: EventDoc[];
+};
+
+export type BadgeEvaluation = {
+  badgeId: string;
+  value: number;
+  // Index into definition.tiers of the highest tier reached, or -1.
+  tierIndex: number;
+  nextTier?: BadgeTier;
+  // Fraction of the way from the current tier (or zero) to the next one; 1 once every tier is reached.
+  progress: number;
+  // The contribution whose activity reached the current tier, if the metric counts contributions.
+  reachedBy?: ContributionDoc;
+};
+
+function matchesCategory(definition: Pick<BadgeDefinitionDoc, 'categories'>, category: string | undefined) {
+  if (definition.categories.length === 0) return true;
+  const normalized = (category || '').trim().toLowerCase();
+  return definition.categories.some((entry) => entry.trim().toLowerCase() === normalized);
+}
+
+function byCreatedAt(a: ContributionDoc, b: ContributionDoc) {
+  return (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0);
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// 1970-01-01 was a Thursday; shifting by four days makes weeks start on Monday (UTC).
+const MONDAY_OFFSET_MS = 4 * 24 * 60 * 60 * 1000;
+
+function weekNumber(date: Date) {
+  return Math.floor((date.getTime() - MONDAY_OFFSET_MS) / WEEK_MS);
+}
+
+// Longest run of consecutive weeks with at least one contribution.
+function longestWeekStreak(contributions: ContributionDoc[]) {
+  const weeks = Array.from(
+    new Set(contributions.filter((row) => row.createdAt).map((row) => weekNumber(row.createdAt as Date)))
+  ).sort((a, b) => a - b);
+  let longest = 0;
+  let current = 0;
+  weeks.forEach((week, index) => {
+    current = index > 0 && week === weeks[index - 1] + 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+  });
+  return longest;
+}
+
+// What one contribution adds to a cumulative metric.
+function contributionValue(metric: BadgeMetric, row: ContributionDoc) {
+  if (metric === 'hours') return Number(row.hours || 0);
+  if (metric === 'completedTasks') return row.completedTask ? 1 : 0;
+  if (metric === 'contributions') return 1;
+  return 0;
+}
+
+export function tierIndexFor(tiers: BadgeTier[], value: number) {
+  let reached = -1;
+  tiers.forEach((tier, index) => {
+    if (value >= tier.threshold) reached = index;
+  });
+  return reached;
+}
+
+export function evaluateBadge(definition: BadgeDefinitionDoc, activity: BadgeActivity): BadgeEvaluation {
+  const tiers = definition.tiers;
+  let value = 0;
+  let reachedBy: ContributionDoc | undefined;
+
+  if (definition.metric === 'eventsAttended') {
+    value = activity.attendedEvents.filter((event) => matchesCategory(definition, event.category)).length;
+  } else {
+    const rows = activity.contributions
+      .filter((row) => matchesCategory(definition, activity.projectCategories[row.projectId]))
+      .sort(byCreatedAt);
+
+    // Walk the contributions in order so the award can name the one that crossed the threshold.
+    let reachedIndex = -1;
+    rows.forEach((row, index) => {
+      value =
+        definition.metric === 'streakWeeks'
+          ? longestWeekStreak(rows.slice(0, index + 1))
+          : value + contributionValue(definition.metric, row);
+      const tier = tierIndexFor(tiers, value);
+      if (tier > reachedIndex) {
+        reachedIndex = tier;
+        reachedBy = row;
+      }
+    });
+    value = Number(value.toFixed(1));
+  }
+
+  const tierIndex = tierIndexFor(tiers, value);
+  const nextTier = tiers[tierIndex + 1];
+  const floor = tierIndex >= 0 ? tiers[tierIndex].threshold : 0;
+  const progress = nextTier ? Math.max(0, Math.min(1, (value - floor) / (nextTier.threshold - floor))) : 1;
+
+  return {
+    badgeId: definition.id,
+    value,
+    tierIndex,
+    nextTier,
+    progress,
+    reachedBy: tierIndex >= 0 ? reachedBy : undefined,
+  };
+}
+
+// Label for an earned tier, as shown on the profile: tiered badges carry the tier name.
+export function badgeLabel(definition: Pick<BadgeDefinitionDoc, 'name' | 'tiers'>, tierIndex: number) {
+  const tier = definition.tiers[tierIndex];
+  return definition.tiers.length > 1 && tier?.name ? `${definition.name} (${tier.name})` : definition.name;
+}
+
+export function assertValidBadgeDefinition(definition: Omit<BadgeDefinitionDoc, 'id' | 'updatedAt'>) {
+  if (!definition.name.trim()) throw new Error('Badge name is required.');
+  if (!BADGE_METRICS.includes(definition.metric)) throw new Error('Choose what the badge counts.');
+  if (!BADGE_ICONS.includes(definition.icon)) throw new Error('Choose a badge icon.');
+  if (definition.tiers.length === 0) throw new Error('A badge needs at least one tier.');
+  definition.tiers.forEach((tier, index) => {
+    if (!Number.isFinite(tier.threshold) || tier.threshold <= 0) {
+      throw new Error('Tier thresholds must be positive numbers.');
+    }
+    if (index > 0 && tier.threshold <= definition.tiers[index - 1].threshold) {
+      throw new Error('Tier thresholds must increase from one tier to the next.');
+    }
+    if (definition.tiers.length > 1 && !tier.name.trim()) throw new Error('Name every tier of a tiered badge.');
+  });
+}
+
+// The badges that were hard-coded before definitions moved to data; seeded into
+// badgeDefinitions so existing awards keep their names.
+export const DEFAULT_BADGE_DEFINITIONS: Array<Omit<BadgeDefinitionDoc, 'updatedAt'>> = [
+  {
+    id: 'hours-100',
+    name: '100 Hours Badge',
+    description: 'Contribute 100 verified hours.',
+    icon: 'clock',
+    metric: 'hours',
+    categories: [],
+    tiers: [{ name: '', threshold: 100 }],
+    active: true,
+  },
+  {
+    id: 'community-builder',
+    name: 'Community Builder',
+    description: 'Complete 10 tasks.',
+    icon: 'users',
+    metric: 'completedTasks',
+    categories: [],
+    tiers: [{ name: '', threshold: 10 }],
+    active: true,
+  },
+  {
+    id: 'education-advocate',
+    name: 'Education Advocate',
+    description: 'Log 3 verified contributions to education projects.',
+    icon: 'book',
+    metric: 'contributions',
+    categories: ['Education'],
+    tiers: [{ name: '', threshold: 3 }],
+    active: true,
+  },
+  {
+    id: 'sustainability-champion',
+    name: 'Sustainability Champion',
+    description: 'Log 3 verified contributions to environment projects.',
+    icon: 'leaf',
+    metric: 'contributions',
+    categories: ['Environment', 'Sustainability', 'Climate'],
+    tiers: [{ name: '', threshold: 3 }],
+    active: true,
+  },
+  {
+    id: 'first-project',
+    name: 'First Project Completed',
+    description: 'Complete your first task.',
+    icon: 'star',
+    metric: 'completedTasks',
+    categories: [],
+    tiers: [{ name: '', threshold: 1 }],
+    active: true,
+  },
+  {
+    id: 'steady-contributor',
+    name: 'Steady Contributor',
+    description: 'Contribute in consecutive weeks.',
+    icon: 'flame',
+    metric: 'streakWeeks',
+    categories: [],
+    tiers: [
+      { name: 'Bronze', threshold: 2 },
+      { name: 'Silver', threshold: 4 },
+      { name: 'Gold', threshold: 8 },
+    ],
+    active: true,
+  },
+  {
+    id: 'event-regular',
+    name: 'Event Regular',
+    description: 'Attend community events.',
+    icon: 'calendar',
+    metric: 'eventsAttended',
+    categories: [],
+    tiers: [
+      { name: 'Bronze', threshold: 1 },
+      { name: 'Silver', threshold: 5 },
+      { name: 'Gold', threshold: 10 },
+    ],
+    active: true,
+  },
+];
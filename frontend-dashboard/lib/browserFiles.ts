@@ -0,0 +1,34 @@
+'use client';
+
+// Saving and printing generated reports without a server round trip.
+
+export function downloadFile(filename: string, contents: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Prints through a hidden frame, which pop-up blockers leave alone; the print dialog saves PDFs.
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  document.body.appendChild(frame);
+  const frameWindow = frame.contentWindow;
+  if (!frameWindow) {
+    frame.remove();
+    throw new Error('Unable to open the print view.');
+  }
+  frameWindow.document.open();
+  frameWindow.document.write(html);
+  frameWindow.document.close();
+  frameWindow.focus();
+  frameWindow.print();
+  // print() blocks until the dialog closes in most browsers; give the rest a moment.
+  setTimeout(() => frame.remove(), 60_000);
+}
@@ -0,0 +1,69 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { expandEvents } from './eventRecurrence';
+import { serverQuery } from './firestoreServer';
+import { buildCalendar } from './icalendar';
+import type { EventDoc, ProjectDoc } from './turknodeTypes';
+
+// Server-only. Each volunteer's calendar feed lives at /api/calendar/<uid>?token=<token>, where
+// the token is an HMAC of the user ID with CALENDAR_FEED_SECRET. Calendar apps cannot sign in,
+// so the token is what keeps one volunteer's schedule from being read by another; changing the
+// secret revokes every subscription.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The feed covers recent and upcoming dates; older occurrences stay in calendars that already
+// fetched them.
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+// Firestore accepts at most 30 values in an IN filter.
+const IN_FILTER_LIMIT = 30;
+
+function feedSecret() {
+  const secret = process.env.CALENDAR_FEED_SECRET || '';
+  if (secret.length < 32) {
+    throw new Error('Calendar feed secret is missing or shorter than 32 characters.');
+  }
+  return secret;
+}
+
+export function calendarFeedToken(uid: string) {
+  return createHmac('sha256', feedSecret()).update(uid).digest('base64url');
+}
+
+export function isValidFeedToken(uid: string, token: string) {
+  const expected = Buffer.from(calendarFeedToken(uid));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Events the volunteer RSVPed to plus every event on the projects they joined.
+export async function buildVolunteerCalendar(uid: string, now = new Date()) {
+  const [rsvped, projects] = await Promise.all([
+    serverQuery<EventDoc>('events', { where: [{ field: 'rsvps', op: 'ARRAY_CONTAINS', value: uid }] }),
+    serverQuery<ProjectDoc>('projects', { where: [{ field: 'participants', op: 'ARRAY_CONTAINS', value: uid }] }),
+  ]);
+  const projectIds = projects.map((project) => project.id);
+  const projectEvents = (
+    await Promise.all(
+      Array.from({ length: Math.ceil(projectIds.length / IN_FILTER_LIMIT) }, (_, index) =>
+        serverQuery<EventDoc>('events', {
+          where: [
+            { field: 'projectId', op: 'IN', value: projectIds.slice(index * IN_FILTER_LIMIT, (index + 1) * IN_FILTER_LIMIT) },
+          ],
+        })
+      )
+    )
+  ).flat();
+
+  const events = new Map<string, EventDoc>();
+  [...rsvped, ...projectEvents].forEach((event) => events.set(event.id, event));
+  const occurrences = expandEvents(
+    Array.from(events.values()),
+    new Date(now.getTime() - FEED_PAST_DAYS * DAY_MS),
+    new Date(now.getTime() + FEED_FUTURE_DAYS * DAY_MS)
+  );
+  return buildCalendar(
+    'TurkNode volunteering',
+    occurrences.map((occurrence) => ({ occurrence, attending: occurrence.event.rsvps.includes(uid) })),
+    now
+  );
+}
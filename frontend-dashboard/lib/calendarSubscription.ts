@@ -0,0 +1,24 @@
+'use client';
+
+import { auth } from './firebase';
+
+// Fetches the signed-in volunteer's calendar feed URL from /api/calendar.
+export async function requestCalendarFeedUrl(): Promise<string> {
+  const user = auth?.currentUser;
+  if (!user) throw new Error('Sign in to subscribe to your calendar.');
+
+  let response: Response;
+  try {
+    response = await fetch('/api/calendar', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+    });
+  } catch {
+    throw new Error('Network error while creating your calendar feed.');
+  }
+  const payload = (await response.json().catch(() => ({}))) as { url?: string; error?: string };
+  if (!response.ok || !payload.url) {
+    throw new Error(payload.error || 'Unable to create your calendar feed.');
+  }
+  return payload.url;
+}
@@ -0,0 +1,179 @@
+import type { EventDoc, EventRecurrence } from './turknodeTypes';
+
+// Repeating events are stored once, with a recurrence rule, and expanded into occurrences for
+// whichever window a screen or feed shows. Occurrences keep the first one's wall-clock time in
+// the series time zone, and each is identified by its start instant, which is what the series'
+// exceptions list to skip single dates.
+
+export type EventOccurrence = {
+  event: EventDoc;
+  key: string;
+  startsAt: Date;
+  endsAt?: Date;
+};
+
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound on occurrences produced per event and window, so a daily series viewed over a
+// long range cannot stall a render.
+const MAX_OCCURRENCES = 500;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {};
+  formatterFor(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== 'literal') parts[part.type] = Number(part.value);
+    });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function wallClockAsUtc(clock: WallClock) {
+  return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+}
+
+// How far the zone's wall clock is ahead of UTC at the given instant.
+function zoneOffsetMs(date: Date, timeZone: string) {
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return wallClockAsUtc(wallClock(new Date(instant), timeZone)) - instant;
+}
+
+// The instant a wall-clock time happens in the zone. Times skipped by a daylight saving jump
+// resolve to the same offset as just before it.
+function fromWallClock(clock: WallClock, timeZone: string) {
+  const guess = wallClockAsUtc(clock);
+  const offset = zoneOffsetMs(new Date(guess), timeZone);
+  const adjusted = zoneOffsetMs(new Date(guess - offset), timeZone);
+  return new Date(guess - (adjusted === offset ? offset : adjusted));
+}
+
+export function occurrenceKey(startsAt: Date) {
+  return startsAt.toISOString();
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+// The wall clock of the nth repetition, or null when that month has no such day (a series on
+// the 31st skips shorter months).
+function nthWallClock(first: WallClock, recurrence: EventRecurrence, n: number): WallClock | null {
+  const step = n * recurrence.interval;
+  if (recurrence.frequency === 'monthly') {
+    const monthIndex = first.month - 1 + step;
+    const year = first.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    if (first.day > daysInMonth(year, month)) return null;
+    return { ...first, year, month };
+  }
+  const days = recurrence.frequency === 'weekly' ? step * 7 : step;
+  const date = new Date(Date.UTC(first.year, first.month - 1, first.day + days));
+  return { ...first, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+// The first repetition that could start in the window, so expanding a long-running series does
+// not walk through every earlier date.
+function firstCandidate(recurrence: EventRecurrence, startsAt: Date, from: Date) {
+  const elapsed = from.getTime() - startsAt.getTime();
+  if (elapsed <= 0) return 0;
+  const periodDays = recurrence.frequency === 'monthly' ? 31 : recurrence.frequency === 'weekly' ? 7 : 1;
+  return Math.max(0, Math.floor(elapsed / (periodDays * recurrence.interval * DAY_MS)) - 1);
+}
+
+// Occurrences of the event that start in [from, to), without skipped dates.
+export function expandEvent(event: EventDoc, from: Date, to: Date): EventOccurrence[] {
+  const durationMs = event.endsAt ? event.endsAt.getTime() - event.startsAt.getTime() : undefined;
+  const occurrence = (startsAt: Date): EventOccurrence => ({
+    event,
+    key: occurrenceKey(startsAt),
+    startsAt,
+    endsAt: durationMs === undefined ? undefined : new Date(startsAt.getTime() + durationMs),
+  });
+
+  const recurrence = event.recurrence;
+  if (!recurrence) {
+    return event.startsAt >= from && event.startsAt < to ? [occurrence(event.startsAt)] : [];
+  }
+
+  const timeZone = isValidTimeZone(recurrence.timeZone) ? recurrence.timeZone : 'UTC';
+  const first = wallClock(event.startsAt, timeZone);
+  const skipped = new Set(recurrence.exceptions);
+  const occurrences: EventOccurrence[] = [];
+  for (let n = firstCandidate(recurrence, event.startsAt, from); occurrences.length < MAX_OCCURRENCES; n += 1) {
+    const clock = nthWallClock(first, recurrence, n);
+    if (!clock) continue;
+    const startsAt = n === 0 ? event.startsAt : fromWallClock(clock, timeZone);
+    if (startsAt >= to || (recurrence.until && startsAt > recurrence.until)) break;
+    if (startsAt >= from && !skipped.has(occurrenceKey(startsAt))) occurrences.push(occurrence(startsAt));
+  }
+  return occurrences;
+}
+
+// The occurrence with this key, or null when the event has no such date or it was skipped.
+export function findOccurrence(event: EventDoc, key: string): EventOccurrence | null {
+  const startsAt = new Date(key);
+  if (Number.isNaN(startsAt.getTime())) return null;
+  return expandEvent(event, startsAt, new Date(startsAt.getTime() + 1)).find((occurrence) => occurrence.key === key) || null;
+}
+
+export function expandEvents(events: EventDoc[], from: Date, to: Date) {
+  return events
+    .flatMap((event) => expandEvent(event, from, to))
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+// Event lists show one-off events whenever they happen, and repeating events by their dates in
+// the window.
+export function scheduleOccurrences(events: EventDoc[], from: Date, to: Date) {
+  return events
+    .flatMap((event) =>
+      event.recurrence
+        ? expandEvent(event, from, to)
+        : [{ event, key: occurrenceKey(event.startsAt), startsAt: event.startsAt, endsAt: event.endsAt }]
+    )
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+// "Every 2 weeks until 3/1/2027", for event lists.
+export function describeRecurrence(recurrence: EventRecurrence) {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[recurrence.frequency];
+  const every = recurrence.interval === 1 ? `Every ${unit}` : `Every ${recurrence.interval} ${unit}s`;
+  return recurrence.until ? `${every} until ${recurrence.until.toLocaleDateString()}` : every;
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { getDownloadURL, ref, uploadBytesResumable } from 'firebase/storage';
+import { storage } from './firebase';
+import { dataBackend } from './turknodeDb';
+
+// Contribution evidence (photos or PDFs) is uploaded from the browser to Firebase Storage under
+// evidence/{uid}/. The download URL is stored on the ContributionDoc and sent to the impact ledger
+// as evidence_url. The local data backends have no Storage bucket, so evidence is Firestore-only.
+
+export const EVIDENCE_MAX_BYTES = 10 * 1024 * 1024;
+export const EVIDENCE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export const evidenceUploadAvailable = dataBackend === 'firestore' && Boolean(storage);
+
+export type UploadedEvidence = {
+  url: string;
+  contentType: string;
+};
+
+export function isImageEvidence(contentType?: string) {
+  return Boolean(contentType && contentType.startsWith('image/'));
+}
+
+// Returns a user-facing problem with the file, or '' when it can be uploaded.
+export function validateEvidenceFile(file: File) {
+  if (!EVIDENCE_CONTENT_TYPES.includes(file.type)) {
+    return 'Evidence must be a JPEG, PNG or WebP photo, or a PDF.';
+  }
+  if (file.size > EVIDENCE_MAX_BYTES) {
+    return `Evidence files must be ${EVIDENCE_MAX_BYTES / (1024 * 1024)} MB or smaller.`;
+  }
+  return '';
+}
+
+function storageFileName(file: File) {
+  const safeName = file.name.replace(/[^a-zA-Z0-9._-]+/g, '-').slice(-80) || 'evidence';
+  return `${Date.now()}-${safeName}`;
+}
+
+// onProgress receives the uploaded fraction, from 0 to 1.
+export async function uploadEvidence(
+  uid: string,
+  file: File,
+  onProgress?: (fraction: number) => void
+): Promise<UploadedEvidence> {
+  if (!evidenceUploadAvailable || !storage) {
+    throw new Error('Evidence uploads are unavailable in this environment.');
+  }
+  const problem = validateEvidenceFile(file);
+  if (problem) throw new Error(problem);
+
+  const fileRef = ref(storage, `evidence/${uid}/${storageFileName(file)}`);
+  const task = uploadBytesResumable(fileRef, file, { contentType: file.type });
+
+  await new Promise<void>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      (snapshot) => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+      () => reject(new Error('Evidence upload failed. Check your connection and try again.')),
+      () => resolve()
+    );
+  });
+
+  onProgress?.(1);
+  return { url: await getDownloadURL(task.snapshot.ref), contentType: file.type };
+}
@@ -2,6 +2,8 @@
 
 import { getApp, getApps, initializeApp } from 'firebase/app';
 import { getAuth } from 'firebase/auth';
+import { getFirestore } from 'firebase/firestore';
+import { getStorage } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -23,5 +25,7 @@ const app = firebaseReady
     : initializeApp(firebaseConfig)
   : null;
 const auth = app ? getAuth(app) : null;
+const firestore = app ? getFirestore(app) : null;
+const storage = app ? getStorage(app) : null;
 
-export { app, auth, firebaseReady, missingKeys };
+export { app, auth, firestore, storage, firebaseReady, missingKeys };
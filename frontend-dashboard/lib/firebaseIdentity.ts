@@ -0,0 +1,27 @@
+// Server-only. Resolves the Firebase ID tokens that signed-in dashboards send as
+// `Authorization: Bearer <token>`.
+
+export const FIREBASE_API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || '';
+
+export function bearerToken(authorization: string | null) {
+  return (authorization || '').replace(/^Bearer\s+/i, '');
+}
+
+// The user ID an ID token belongs to, through the Identity Toolkit API; null when the token is
+// missing, expired or invalid.
+export async function resolveFirebaseUid(idToken: string) {
+  if (!idToken) return null;
+  const response = await fetch(
+    `https://identitytoolkit.googleapis.com/v1/accounts:lookup?key=${encodeURIComponent(FIREBASE_API_KEY)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken }),
+    }
+  );
+  if (!response.ok) {
+    return null;
+  }
+  const payload = (await response.json().catch(() => ({}))) as { users?: Array<{ localId?: string }> };
+  return payload.users?.[0]?.localId || null;
+}
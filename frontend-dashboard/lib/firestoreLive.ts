@@ -0,0 +1,217 @@
+'use client';
+
+import {
+  Bytes,
+  DocumentReference,
+  GeoPoint as FirestoreGeoPoint,
+  Timestamp,
+  collection,
+  documentId,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  where,
+  type QueryConstraint,
+} from 'firebase/firestore';
+import { firestore } from './firebase';
+import { parseDocument } from './turknodeSchemas';
+import {
+  DocumentRef,
+  type ApplicationDoc,
+  type AttendanceDoc,
+  type ContributionDoc,
+  type EventDoc,
+  type NotificationDoc,
+  type ProjectDoc,
+  type TaskDoc,
+  type UserProfileDoc,
+} from './turknodeTypes';
+import {
+  normalizeLeadEmail,
+  type ChangeListener,
+  type ErrorListener,
+  type MessageThreadDoc,
+  type Unsubscribe,
+} from './turknodeRepository';
+
+// onSnapshot subscriptions for the Firestore backend.
+
+// Converts SDK value classes to the shapes the REST codec in firestoreRepository produces.
+function fromSdkValue(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (value instanceof FirestoreGeoPoint) return { lat: value.latitude, lng: value.longitude };
+  if (value instanceof Bytes) return value.toUint8Array();
+  if (value instanceof DocumentReference) return new DocumentRef(value.path);
+  if (Array.isArray(value)) return value.map(fromSdkValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fromSdkValue(item)]));
+  }
+  return value;
+}
+
+function subscribeToQuery<T>(
+  collectionName: string,
+  constraints: QueryConstraint[],
+  onChange: ChangeListener<T>,
+  onError?: ErrorListener
+): Unsubscribe {
+  if (!firestore) {
+    onError?.(new Error('Firestore is unavailable.'));
+    return () => undefined;
+  }
+
+  return onSnapshot(
+    query(collection(firestore, collectionName), ...constraints),
+    (snapshot) =>
+      onChange(
+        snapshot.docs
+          .map((doc) =>
+            parseDocument<T>(collectionName, doc.id, fromSdkValue(doc.data()) as Record<string, unknown>)
+          )
+          .filter((row): row is T & { id: string } => row !== null)
+      ),
+    (err) => onError?.(err)
+  );
+}
+
+export function subscribeToUserProfile(
+  uid: string,
+  onChange: ChangeListener<UserProfileDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<UserProfileDoc>('users', [where(documentId(), '==', uid)], onChange, onError);
+}
+
+export function subscribeToContributions(
+  uid: string,
+  onChange: ChangeListener<ContributionDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ContributionDoc>(
+    'contributions',
+    [where('uid', '==', uid), orderBy('createdAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToNotifications(
+  uid: string,
+  onChange: ChangeListener<NotificationDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<NotificationDoc>(
+    'notifications',
+    [where('uid', '==', uid), orderBy('createdAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToThreads(
+  uid: string,
+  onChange: ChangeListener<MessageThreadDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<MessageThreadDoc>(
+    'messages',
+    [where('members', 'array-contains', uid), orderBy('updatedAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+// Ordered by document ID, like the REST collection listing behind listProjectsPage.
+export function subscribeToProjectDirectory(
+  maxRows: number,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ProjectDoc>('projects', [orderBy(documentId()), limit(maxRows)], onChange, onError);
+}
+
+export function subscribeToMemberProjects(
+  uid: string,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ProjectDoc>('projects', [where('participants', 'array-contains', uid)], onChange, onError);
+}
+
+export function subscribeToLeadProjects(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ProjectDoc>(
+    'projects',
+    [where('projectLead', '==', normalizeLeadEmail(projectLeadEmail))],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToApplicantApplications(
+  uid: string,
+  onChange: ChangeListener<ApplicationDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ApplicationDoc>(
+    'applications',
+    [where('applicantUid', '==', uid), orderBy('createdAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToLeadApplications(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ApplicationDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ApplicationDoc>(
+    'applications',
+    [where('projectLeadEmail', '==', normalizeLeadEmail(projectLeadEmail)), orderBy('createdAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToLeadTasks(
+  projectLeadEmail: string,
+  onChange: ChangeListener<TaskDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<TaskDoc>(
+    'tasks',
+    [where('projectLeadEmail', '==', normalizeLeadEmail(projectLeadEmail)), orderBy('dueDate', 'asc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToLeadContributions(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ContributionDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<ContributionDoc>(
+    'contributions',
+    [where('projectLeadEmail', '==', normalizeLeadEmail(projectLeadEmail)), orderBy('createdAt', 'desc')],
+    onChange,
+    onError
+  );
+}
+
+export function subscribeToEvents(onChange: ChangeListener<EventDoc>, onError?: ErrorListener) {
+  return subscribeToQuery<EventDoc>('events', [orderBy('startsAt', 'asc')], onChange, onError);
+}
+
+export function subscribeToEventAttendance(
+  eventId: string,
+  onChange: ChangeListener<AttendanceDoc>,
+  onError?: ErrorListener
+) {
+  return subscribeToQuery<AttendanceDoc>('attendance', [where('eventId', '==', eventId)], onChange, onError);
+}
@@ -0,0 +1,828 @@
+'use client';
+
+import { auth } from './firebase';
+import {
+  subscribeToApplicantApplications,
+  subscribeToContributions,
+  subscribeToEventAttendance,
+  subscribeToEvents,
+  subscribeToLeadApplications,
+  subscribeToLeadContributions,
+  subscribeToLeadProjects,
+  subscribeToLeadTasks,
+  subscribeToMemberProjects,
+  subscribeToNotifications,
+  subscribeToProjectDirectory,
+  subscribeToThreads,
+  subscribeToUserProfile,
+} from './firestoreLive';
+import {
+  FIRESTORE_BASE,
+  FIRESTORE_DOCUMENTS_PATH,
+  PROJECT_ID,
+  documentIdFromName,
+  mapFromFsDocument,
+  mapFromFsDocuments,
+  toFsFields,
+  toFsValue,
+  toStructuredQuery,
+  type FsValue,
+  type QueryOptions,
+  type QueryOrder,
+} from './firestoreValues';
+import {
+  ALREADY_CHECKED_IN,
+  CONTRIBUTION_REVIEW_CHANGED,
+  KM_PER_DEGREE_LATITUDE,
+  applicationId,
+  assertCanApply,
+  assertCanJoin,
+  assertUndecided,
+  attendanceId,
+  badgeAwardId,
+  fillFromWaitlist,
+  normalizeLeadEmail,
+  mergeUserProfile,
+  resolvePageSize,
+  rsvpPlacement,
+  withDistances,
+  type MessageThreadDoc,
+  type NewDoc,
+  type Page,
+  type PageRequest,
+  type SeedCollection,
+  type TurknodeRepository,
+} from './turknodeRepository';
+import {
+  DocumentRef,
+  type ApplicationDoc,
+  type AttendanceDoc,
+  type BadgeAwardDoc,
+  type BadgeDefinitionDoc,
+  type CheckInCodeDoc,
+  type ContributionDoc,
+  type ContributionVerification,
+  type EventCheckIn,
+  type EventDoc,
+  type GeoPoint,
+  type ImpactScoreModelDoc,
+  type NotificationDoc,
+  type OrganizationDoc,
+  type ProjectDoc,
+  type TaskDoc,
+  type UserProfileDoc,
+} from './turknodeTypes';
+
+// Firestore backend: documents are read and written through the REST API with the signed-in
+// user's ID token, and live updates come from the SDK listeners in firestoreLive.
+
+const API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || '';
+
+async function getIdToken() {
+  if (!auth) throw new Error('Firebase auth is unavailable.');
+  const user = auth.currentUser;
+  if (!user) throw new Error('Not authenticated.');
+  return user.getIdToken();
+}
+
+class FirestoreRequestError extends Error {
+  readonly code: string;
+
+  constructor(readonly status: number, body: string) {
+    super(`Firestore request failed (${status}): ${body}`);
+    this.name = 'FirestoreRequestError';
+    let code = '';
+    try {
+      code = String(JSON.parse(body)?.error?.status || '');
+    } catch {
+      // Non-JSON error bodies carry no status code.
+    }
+    this.code = code;
+  }
+}
+
+function isNotFound(err: unknown) {
+  return err instanceof FirestoreRequestError && err.status === 404;
+}
+
+function isPreconditionFailure(err: unknown) {
+  return err instanceof FirestoreRequestError && err.code === 'FAILED_PRECONDITION';
+}
+
+async function fsFetch(path: string, init: RequestInit = {}) {
+  if (!PROJECT_ID || !API_KEY) {
+    throw new Error('Firebase project env vars missing for Firestore.');
+  }
+
+  const token = await getIdToken();
+  const url = `${FIRESTORE_BASE}${path}${path.includes('?') ? '&' : '?'}key=${API_KEY}`;
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${token}`,
+      ...(init.headers || {}),
+    },
+  });
+
+  if (!res.ok) {
+    const body = await res.text();
+    throw new FirestoreRequestError(res.status, body);
+  }
+
+  return res.json();
+}
+
+async function getDocument<T>(collectionName: string, docId: string): Promise<(T & { id: string }) | null> {
+  try {
+    const data = await fsFetch(`/${collectionName}/${docId}`);
+    return mapFromFsDocument<T>(data);
+  } catch {
+    return null;
+  }
+}
+
+async function getDocumentVersion<T>(
+  collectionName: string,
+  docId: string
+): Promise<{ doc: (T & { id: string }) | null; updateTime: string | null }> {
+  try {
+    const data = await fsFetch(`/${collectionName}/${docId}`);
+    return { doc: mapFromFsDocument<T>(data), updateTime: data.updateTime || null };
+  } catch (err) {
+    if (isNotFound(err)) return { doc: null, updateTime: null };
+    throw err;
+  }
+}
+
+type PatchOptions = {
+  // Optimistic concurrency: the write fails with FAILED_PRECONDITION if the document changed since this time.
+  updateTime?: string | null;
+  // Fail with 404 instead of creating the document when it does not exist.
+  mustExist?: boolean;
+};
+
+// Writes only the given top-level fields; other fields on the document are left untouched.
+async function patchDocument(
+  collectionName: string,
+  docId: string,
+  partial: Record<string, unknown>,
+  options: PatchOptions = {}
+) {
+  const params = new URLSearchParams();
+  Object.keys(partial).forEach((field) => params.append('updateMask.fieldPaths', field));
+  if (options.updateTime) {
+    params.set('currentDocument.updateTime', options.updateTime);
+  } else if (options.mustExist) {
+    params.set('currentDocument.exists', 'true');
+  }
+  await fsFetch(`/${collectionName}/${docId}?${params.toString()}`, {
+    method: 'PATCH',
+    body: JSON.stringify(toFsFields(partial)),
+  });
+}
+
+async function setDocument(collectionName: string, docId: string, data: Record<string, unknown>) {
+  await fsFetch(`/${collectionName}/${docId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(toFsFields(data)),
+  });
+}
+
+async function addDocument(collectionName: string, data: Record<string, unknown>, docId?: string) {
+  const query = docId ? `?documentId=${encodeURIComponent(docId)}` : '';
+  const result = await fsFetch(`/${collectionName}${query}`, {
+    method: 'POST',
+    body: JSON.stringify(toFsFields(data)),
+  });
+  return documentIdFromName(result.name);
+}
+
+function documentName(collectionName: string, docId: string) {
+  return `${FIRESTORE_DOCUMENTS_PATH}/${collectionName}/${docId}`;
+}
+
+type FsFieldTransform =
+  | { fieldPath: string; appendMissingElements: { values: FsValue[] } }
+  | { fieldPath: string; removeAllFromArray: { values: FsValue[] } }
+  | { fieldPath: string; increment: FsValue };
+
+type FsWrite =
+  | {
+      update: { name: string; fields: Record<string, FsValue> };
+      updateMask?: { fieldPaths: string[] };
+      updateTransforms?: FsFieldTransform[];
+      currentDocument?: { exists?: boolean; updateTime?: string };
+    }
+  | { delete: string };
+
+function arrayUnion(fieldPath: string, values: unknown[]): FsFieldTransform {
+  return { fieldPath, appendMissingElements: { values: values.map(toFsValue) } };
+}
+
+function arrayRemove(fieldPath: string, values: unknown[]): FsFieldTransform {
+  return { fieldPath, removeAllFromArray: { values: values.map(toFsValue) } };
+}
+
+function increment(fieldPath: string, amount: number): FsFieldTransform {
+  return { fieldPath, increment: toFsValue(amount) };
+}
+
+// Replaces the whole document, like setDocument.
+function setWrite(collectionName: string, docId: string, data: Record<string, unknown>): FsWrite {
+  return { update: { name: documentName(collectionName, docId), ...toFsFields(data) } };
+}
+
+// Touches only the given fields (plus transforms) of a document that must already exist.
+function updateWrite(
+  collectionName: string,
+  docId: string,
+  data: Record<string, unknown>,
+  transforms: FsFieldTransform[] = []
+): FsWrite {
+  return {
+    update: { name: documentName(collectionName, docId), ...toFsFields(data) },
+    updateMask: { fieldPaths: Object.keys(data) },
+    ...(transforms.length > 0 ? { updateTransforms: transforms } : {}),
+    currentDocument: { exists: true },
+  };
+}
+
+function deleteWrite(collectionName: string, docId: string): FsWrite {
+  return { delete: documentName(collectionName, docId) };
+}
+
+async function commitWrites(writes: FsWrite[], transaction?: string) {
+  await fsFetch(':commit', {
+    method: 'POST',
+    body: JSON.stringify(transaction ? { writes, transaction } : { writes }),
+  });
+}
+
+type Transaction = {
+  get<T>(collectionName: string, docId: string): Promise<(T & { id: string }) | null>;
+  write(write: FsWrite): void;
+};
+
+const MAX_TRANSACTION_ATTEMPTS = 5;
+
+// Reads go through the transaction and all queued writes commit together; Firestore aborts
+// the commit with 409 when a read document changed underneath us, and we retry from scratch.
+async function runTransaction<T>(body: (tx: Transaction) => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt += 1) {
+    const { transaction } = await fsFetch(':beginTransaction', { method: 'POST', body: JSON.stringify({}) });
+    const writes: FsWrite[] = [];
+    const tx: Transaction = {
+      async get<R>(collectionName: string, docId: string) {
+        try {
+          const data = await fsFetch(`/${collectionName}/${docId}?transaction=${encodeURIComponent(transaction)}`);
+          return mapFromFsDocument<R>(data);
+        } catch (err) {
+          if (isNotFound(err)) return null;
+          throw err;
+        }
+      },
+      write(write: FsWrite) {
+        writes.push(write);
+      },
+    };
+
+    try {
+      const result = await body(tx);
+      await commitWrites(writes, transaction);
+      return result;
+    } catch (err) {
+      await fsFetch(':rollback', { method: 'POST', body: JSON.stringify({ transaction }) }).catch(() => undefined);
+      if (err instanceof FirestoreRequestError && err.status === 409 && attempt < MAX_TRANSACTION_ATTEMPTS) continue;
+      throw err;
+    }
+  }
+}
+
+async function listCollectionPage<T>(
+  collectionName: string,
+  request: PageRequest = {}
+): Promise<Page<T & { id: string }>> {
+  const params = new URLSearchParams({ pageSize: String(resolvePageSize(request)) });
+  if (request.cursor) params.set('pageToken', request.cursor);
+  const result = await fsFetch(`/${collectionName}?${params.toString()}`);
+  const docs = result.documents || [];
+  return {
+    items: mapFromFsDocuments<T>(docs),
+    nextCursor: result.nextPageToken || null,
+  };
+}
+
+async function deleteDocument(collectionName: string, docId: string) {
+  await fsFetch(`/${collectionName}/${docId}`, { method: 'DELETE' });
+}
+
+async function runRawQuery(structuredQuery: Record<string, unknown>): Promise<any[]> {
+  const rows = await fsFetch(':runQuery', {
+    method: 'POST',
+    body: JSON.stringify({ structuredQuery }),
+  });
+  return (Array.isArray(rows) ? rows : []).filter((row: any) => row.document).map((row: any) => row.document);
+}
+
+async function runQuery<T>(collectionName: string, options: QueryOptions = {}): Promise<Array<T & { id: string }>> {
+  const docs = await runRawQuery(toStructuredQuery(collectionName, options));
+  return mapFromFsDocuments<T>(docs);
+}
+
+// Query cursors are the last document's orderBy values, so the order is made total by
+// finishing with the document name in the same direction as the last explicit order.
+function withNameOrder(orderBy: QueryOrder[] = []): QueryOrder[] {
+  const last = orderBy[orderBy.length - 1];
+  if (last?.field === '__name__') return orderBy;
+  return [...orderBy, { field: '__name__', direction: last?.direction || 'ASCENDING' }];
+}
+
+async function runQueryPage<T>(
+  collectionName: string,
+  options: QueryOptions,
+  request: PageRequest = {}
+): Promise<Page<T & { id: string }>> {
+  const pageSize = resolvePageSize(request);
+  const orderBy = withNameOrder(options.orderBy);
+  const structuredQuery = toStructuredQuery(collectionName, { ...options, orderBy, limit: pageSize + 1 });
+  if (request.cursor) {
+    structuredQuery.startAt = { values: JSON.parse(request.cursor), before: false };
+  }
+
+  const docs = await runRawQuery(structuredQuery);
+  const pageDocs = docs.slice(0, pageSize);
+  const last = pageDocs[pageDocs.length - 1];
+  const nextCursor =
+    docs.length > pageSize && last
+      ? JSON.stringify(
+          orderBy.map((order) =>
+            order.field === '__name__' ? { referenceValue: last.name } : last.fields?.[order.field] ?? { nullValue: null }
+          )
+        )
+      : null;
+
+  return {
+    items: mapFromFsDocuments<T>(pageDocs),
+    nextCursor,
+  };
+}
+
+const MAX_PROFILE_WRITE_ATTEMPTS = 3;
+
+async function upsertUserProfile(uid: string, data: Partial<UserProfileDoc>) {
+  for (let attempt = 1; ; attempt += 1) {
+    const { doc: existing, updateTime } = await getDocumentVersion<UserProfileDoc>('users', uid);
+    const merged = mergeUserProfile(uid, data, existing);
+    try {
+      await patchDocument('users', uid, merged as unknown as Record<string, unknown>, { updateTime });
+      return;
+    } catch (err) {
+      // Another tab or a lead changed the profile between our read and write; merge again on fresh data.
+      if (isPreconditionFailure(err) && attempt < MAX_PROFILE_WRITE_ATTEMPTS) continue;
+      throw err;
+    }
+  }
+}
+
+async function patchUserProfile(uid: string, partial: Partial<UserProfileDoc>) {
+  try {
+    await patchDocument('users', uid, partial, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) throw new Error('Profile missing.');
+    throw err;
+  }
+}
+
+async function getProjectsByIds(projectIds: string[]) {
+  const rows = await Promise.all(projectIds.map((projectId) => getDocument<ProjectDoc>('projects', projectId)));
+  return rows.filter((row): row is ProjectDoc => Boolean(row));
+}
+
+// Firestore orders geo points by latitude, then longitude, so a range filter on `coordinates`
+// narrows the read to a latitude band; the exact radius is applied on the returned rows.
+async function listProjectsNear(center: GeoPoint, radiusKm: number) {
+  const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+  const rows = await runQuery<ProjectDoc>('projects', {
+    where: [
+      { field: 'coordinates', op: 'GREATER_THAN_OR_EQUAL', value: { lat: Math.max(-90, center.lat - latDelta), lng: -180 } },
+      { field: 'coordinates', op: 'LESS_THAN_OR_EQUAL', value: { lat: Math.min(90, center.lat + latDelta), lng: 180 } },
+    ],
+  });
+  return withDistances(center, radiusKm, rows);
+}
+
+async function addProject(data: NewDoc<ProjectDoc>, projectId?: string) {
+  try {
+    return await addDocument('projects', data as unknown as Record<string, unknown>, projectId);
+  } catch (err) {
+    if (err instanceof FirestoreRequestError && err.code === 'ALREADY_EXISTS') throw new Error('Project already exists.');
+    throw err;
+  }
+}
+
+async function patchProject(projectId: string, partial: Partial<NewDoc<ProjectDoc>>) {
+  try {
+    await patchDocument('projects', projectId, partial, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) throw new Error('Project not found.');
+    throw err;
+  }
+}
+
+async function joinProject(uid: string, projectId: string) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<ProjectDoc>('projects', projectId);
+    if (!row) throw new Error('Project not found.');
+    assertCanJoin(row, uid);
+    const participants = new Set([...(row.participants || []), uid]);
+    tx.write(updateWrite('projects', projectId, { participantCount: participants.size }, [arrayUnion('participants', [uid])]));
+    tx.write(
+      setWrite('memberships', `${uid}_${projectId}`, {
+        uid,
+        projectId,
+        status: 'active',
+        joinedAt: new Date(),
+      })
+    );
+    return row;
+  });
+}
+
+async function leaveProject(uid: string, projectId: string) {
+  await runTransaction(async (tx) => {
+    const row = await tx.get<ProjectDoc>('projects', projectId);
+    if (!row) return;
+    const participants = (row.participants || []).filter((id) => id !== uid);
+    tx.write(updateWrite('projects', projectId, { participantCount: participants.length }, [arrayRemove('participants', [uid])]));
+    tx.write(
+      setWrite('memberships', `${uid}_${projectId}`, {
+        uid,
+        projectId,
+        status: 'left',
+        leftAt: new Date(),
+      })
+    );
+  });
+}
+
+// firestore.rules only accept these writes from the project's lead, or from the volunteer
+// answering a needs_info request.
+async function updateContributionVerification(
+  contributionId: string,
+  from: ContributionVerification[],
+  changes: Partial<NewDoc<ContributionDoc>>
+) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<ContributionDoc>('contributions', contributionId);
+    if (!row) throw new Error('Contribution not found.');
+    if (!from.includes(row.verification)) throw new Error(CONTRIBUTION_REVIEW_CHANGED);
+    tx.write(updateWrite('contributions', contributionId, changes));
+    if (changes.verification === 'verified' && row.verification !== 'verified' && row.metricQuantity) {
+      const project = await tx.get<ProjectDoc>('projects', row.projectId);
+      if (project) tx.write(updateWrite('projects', row.projectId, {}, [increment('impactProgress', row.metricQuantity)]));
+    }
+    return { ...row, ...changes };
+  });
+}
+
+async function getSavedProjectIds(uid: string) {
+  const rows = await runQuery<{ uid: string; projectId: string }>('saved', {
+    where: [{ field: 'uid', op: 'EQUAL', value: uid }],
+  });
+  return rows.map((d) => d.projectId);
+}
+
+async function submitApplication(data: NewDoc<ApplicationDoc>) {
+  const id = applicationId(data.applicantUid, data.projectId);
+  await runTransaction(async (tx) => {
+    assertCanApply(await tx.get<ApplicationDoc>('applications', id));
+    tx.write(setWrite('applications', id, data as unknown as Record<string, unknown>));
+  });
+  return id;
+}
+
+async function updateApplicationState(applicationId: string, state: ApplicationDoc['state']) {
+  try {
+    await patchDocument('applications', applicationId, { state }, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) throw new Error('Application not found.');
+    throw err;
+  }
+}
+
+async function decideApplication(applicationId: string, changes: Partial<NewDoc<ApplicationDoc>>) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<ApplicationDoc>('applications', applicationId);
+    if (!row) throw new Error('Application not found.');
+    assertUndecided(row);
+    if (changes.state === 'accepted') {
+      const project = await tx.get<ProjectDoc>('projects', row.projectId);
+      if (!project) throw new Error('Project not found.');
+      const uid = row.applicantUid;
+      if (project.status !== 'active' && !project.participants.includes(uid)) {
+        throw new Error('This project is no longer accepting volunteers.');
+      }
+      const participants = new Set([...(project.participants || []), uid]);
+      tx.write(updateWrite('projects', row.projectId, { participantCount: participants.size }, [arrayUnion('participants', [uid])]));
+      tx.write(
+        setWrite('memberships', `${uid}_${row.projectId}`, {
+          uid,
+          projectId: row.projectId,
+          status: 'active',
+          joinedAt: new Date(),
+        })
+      );
+    }
+    tx.write(updateWrite('applications', applicationId, changes));
+    return { ...row, ...changes };
+  });
+}
+
+async function updateTaskStatus(taskId: string, status: TaskDoc['status']) {
+  try {
+    await patchDocument('tasks', taskId, { status, updatedAt: new Date() }, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) throw new Error('Task not found.');
+    throw err;
+  }
+}
+
+async function sendMessage(threadId: string, fromUid: string, toUid: string, text: string) {
+  await patchDocument('messages', threadId, {
+    threadId,
+    members: [fromUid, toUid],
+    lastMessage: text,
+    updatedAt: new Date(),
+  });
+  await addDocument('messageEntries', {
+    threadId,
+    fromUid,
+    toUid,
+    text,
+    createdAt: new Date(),
+  });
+}
+
+async function markNotificationRead(notificationId: string) {
+  try {
+    await patchDocument('notifications', notificationId, { read: true }, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) return;
+    throw err;
+  }
+}
+
+async function patchEvent(eventId: string, partial: Partial<NewDoc<EventDoc>>) {
+  try {
+    await patchDocument('events', eventId, partial, { mustExist: true });
+  } catch (err) {
+    if (isNotFound(err)) throw new Error('Event not found.');
+    throw err;
+  }
+}
+
+async function rsvpToEvent(uid: string, eventId: string) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<EventDoc>('events', eventId);
+    if (!row) throw new Error('Event not found.');
+    const placement = rsvpPlacement(row, uid);
+    tx.write(updateWrite('events', eventId, {}, [arrayUnion(placement === 'confirmed' ? 'rsvps' : 'waitlist', [uid])]));
+    return placement;
+  });
+}
+
+// The waitlist keeps its order, so both lists are rewritten rather than transformed.
+async function cancelRsvp(uid: string, eventId: string) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<EventDoc>('events', eventId);
+    if (!row) throw new Error('Event not found.');
+    const { rsvps, waitlist, promoted } = fillFromWaitlist({
+      ...row,
+      rsvps: row.rsvps.filter((id) => id !== uid),
+      waitlist: row.waitlist.filter((id) => id !== uid),
+    });
+    tx.write(updateWrite('events', eventId, { rsvps, waitlist }));
+    return promoted;
+  });
+}
+
+async function promoteWaitlist(eventId: string) {
+  return runTransaction(async (tx) => {
+    const row = await tx.get<EventDoc>('events', eventId);
+    if (!row) throw new Error('Event not found.');
+    const { rsvps, waitlist, promoted } = fillFromWaitlist(row);
+    if (promoted.length > 0) tx.write(updateWrite('events', eventId, { rsvps, waitlist }));
+    return promoted;
+  });
+}
+
+// Firestore accepts at most 30 values in an IN filter.
+const IN_FILTER_LIMIT = 30;
+
+async function listAttendanceForEvents(eventIds: string[]) {
+  const chunks = Array.from({ length: Math.ceil(eventIds.length / IN_FILTER_LIMIT) }, (_, index) =>
+    eventIds.slice(index * IN_FILTER_LIMIT, (index + 1) * IN_FILTER_LIMIT)
+  );
+  const rows = await Promise.all(
+    chunks.map((chunk) => runQuery<AttendanceDoc>('attendance', { where: [{ field: 'eventId', op: 'IN', value: chunk }] }))
+  );
+  return rows.flat();
+}
+
+async function addAttendance(data: NewDoc<AttendanceDoc>) {
+  try {
+    return await addDocument(
+      'attendance',
+      data as unknown as Record<string, unknown>,
+      attendanceId(data.eventId, data.occurrenceKey, data.uid)
+    );
+  } catch (err) {
+    if (err instanceof FirestoreRequestError && err.code === 'ALREADY_EXISTS') throw new Error(ALREADY_CHECKED_IN);
+    throw err;
+  }
+}
+
+async function findEventByCheckInCode(code: string) {
+  const row = await getDocument<CheckInCodeDoc>('checkInCodes', code);
+  if (!row) return null;
+  const event = await getDocument<EventDoc>('events', row.eventId);
+  // A code left behind by an earlier check-in no longer matches the event's window.
+  return event?.checkIn?.occurrenceKey === row.occurrenceKey ? event : null;
+}
+
+async function getCheckInCode(eventId: string) {
+  const rows = await runQuery<CheckInCodeDoc>('checkInCodes', { where: [{ field: 'eventId', op: 'EQUAL', value: eventId }] });
+  return rows.sort((a, b) => b.closesAt.getTime() - a.closesAt.getTime())[0] || null;
+}
+
+async function replaceEventCheckIn(eventId: string, next: { code: string; checkIn: EventCheckIn } | null) {
+  const previous = await runQuery<CheckInCodeDoc>('checkInCodes', {
+    where: [{ field: 'eventId', op: 'EQUAL', value: eventId }],
+  });
+  await commitWrites([
+    ...previous.filter((row) => row.id !== next?.code).map((row) => deleteWrite('checkInCodes', row.id)),
+    ...(next ? [setWrite('checkInCodes', next.code, { eventId, ...next.checkIn })] : []),
+    updateWrite('events', eventId, { checkIn: next?.checkIn }),
+  ]);
+}
+
+function addTypedDocument<T>(collectionName: string) {
+  return (data: NewDoc<T>) => addDocument(collectionName, data as unknown as Record<string, unknown>);
+}
+
+export const firestoreRepository: TurknodeRepository = {
+  getUserProfile: (uid) => getDocument<UserProfileDoc>('users', uid),
+  upsertUserProfile,
+  patchUserProfile,
+  listVolunteersPage: (request) =>
+    runQueryPage<UserProfileDoc>('users', { where: [{ field: 'role', op: 'EQUAL', value: 'volunteer' }] }, request),
+
+  listProjectsPage: (request) => listCollectionPage<ProjectDoc>('projects', request),
+  listProjectsForMember: (uid) =>
+    runQuery<ProjectDoc>('projects', { where: [{ field: 'participants', op: 'ARRAY_CONTAINS', value: uid }] }),
+  getProjectsByIds,
+  listProjectsNear,
+  addProject,
+  patchProject,
+  joinProject,
+  leaveProject,
+  saveProject: (uid, projectId) => setDocument('saved', `${uid}_${projectId}`, { uid, projectId, savedAt: new Date() }),
+  unsaveProject: (uid, projectId) => deleteDocument('saved', `${uid}_${projectId}`),
+  getSavedProjectIds,
+
+  listApplicationsForLeadPage: (projectLeadEmail, request) =>
+    runQueryPage<ApplicationDoc>(
+      'applications',
+      {
+        where: [{ field: 'projectLeadEmail', op: 'EQUAL', value: normalizeLeadEmail(projectLeadEmail) }],
+        orderBy: [{ field: 'createdAt', direction: 'DESCENDING' }],
+      },
+      request
+    ),
+  addApplication: addTypedDocument<ApplicationDoc>('applications'),
+  submitApplication,
+  updateApplicationState,
+  decideApplication,
+
+  listTasksForLeadPage: (projectLeadEmail, request) =>
+    runQueryPage<TaskDoc>(
+      'tasks',
+      {
+        where: [{ field: 'projectLeadEmail', op: 'EQUAL', value: normalizeLeadEmail(projectLeadEmail) }],
+        orderBy: [{ field: 'dueDate', direction: 'ASCENDING' }],
+      },
+      request
+    ),
+  addTask: addTypedDocument<TaskDoc>('tasks'),
+  updateTaskStatus,
+
+  addContribution: addTypedDocument<ContributionDoc>('contributions'),
+  getContribution: (id) => getDocument<ContributionDoc>('contributions', id),
+  listContributionsPage: (uid, request) =>
+    runQueryPage<ContributionDoc>(
+      'contributions',
+      {
+        where: [{ field: 'uid', op: 'EQUAL', value: uid }],
+        orderBy: [{ field: 'createdAt', direction: 'DESCENDING' }],
+      },
+      request
+    ),
+  listContributionsForLeadPage: (projectLeadEmail, request, verification) =>
+    runQueryPage<ContributionDoc>(
+      'contributions',
+      {
+        where: [
+          { field: 'projectLeadEmail', op: 'EQUAL', value: normalizeLeadEmail(projectLeadEmail) },
+          ...(verification ? [{ field: 'verification', op: 'EQUAL' as const, value: verification }] : []),
+        ],
+        orderBy: [{ field: 'createdAt', direction: 'DESCENDING' }],
+      },
+      request
+    ),
+  updateContributionVerification,
+
+  sendMessage,
+  listThreadsPage: (uid, request) =>
+    runQueryPage<MessageThreadDoc>(
+      'messages',
+      {
+        where: [{ field: 'members', op: 'ARRAY_CONTAINS', value: uid }],
+        orderBy: [{ field: 'updatedAt', direction: 'DESCENDING' }],
+      },
+      request
+    ),
+
+  addNotification: addTypedDocument<NotificationDoc>('notifications'),
+  listNotificationsPage: (uid, request) =>
+    runQueryPage<NotificationDoc>(
+      'notifications',
+      {
+        where: [{ field: 'uid', op: 'EQUAL', value: uid }],
+        orderBy: [{ field: 'createdAt', direction: 'DESCENDING' }],
+      },
+      request
+    ),
+  markNotificationRead,
+
+  listEventsPage: (request) =>
+    runQueryPage<EventDoc>('events', { orderBy: [{ field: 'startsAt', direction: 'ASCENDING' }] }, request),
+  getEvent: (eventId) => getDocument<EventDoc>('events', eventId),
+  addEvent: addTypedDocument<EventDoc>('events'),
+  patchEvent,
+  rsvpToEvent,
+  cancelRsvp,
+  promoteWaitlist,
+
+  findEventByCheckInCode,
+  getCheckInCode,
+  openEventCheckIn: (eventId, code, checkIn) => replaceEventCheckIn(eventId, { code, checkIn }),
+  closeEventCheckIn: (eventId) => replaceEventCheckIn(eventId, null),
+
+  addAttendance,
+  getAttendance: (id) => getDocument<AttendanceDoc>('attendance', id),
+  patchAttendance: (id, partial) => patchDocument('attendance', id, partial, { mustExist: true }),
+  listAttendanceForEvents,
+  listAttendanceForVolunteer: (uid) =>
+    runQuery<AttendanceDoc>('attendance', { where: [{ field: 'uid', op: 'EQUAL', value: uid }] }),
+
+  listBadgeDefinitions: () => runQuery<BadgeDefinitionDoc>('badgeDefinitions'),
+  saveBadgeDefinition: (badgeId, data) =>
+    setDocument('badgeDefinitions', badgeId, data as unknown as Record<string, unknown>),
+  listBadgeAwards: (uid) =>
+    runQuery<BadgeAwardDoc>('badges', { where: [{ field: 'uid', op: 'EQUAL', value: uid }] }),
+  listBadgeAwardsForBadge: (badgeId) =>
+    runQuery<BadgeAwardDoc>('badges', { where: [{ field: 'badgeId', op: 'EQUAL', value: badgeId }] }),
+  saveBadgeAward: (data) =>
+    setDocument('badges', badgeAwardId(data.uid, data.badgeId), data as unknown as Record<string, unknown>),
+  removeBadgeAward: async (awardId) => {
+    try {
+      await deleteDocument('badges', awardId);
+    } catch (err) {
+      if (isNotFound(err)) return;
+      throw err;
+    }
+  },
+
+  getImpactScoreModel: () => getDocument<ImpactScoreModelDoc>('impactScoreModels', 'current'),
+  saveImpactScoreModel: (data) =>
+    setDocument('impactScoreModels', 'current', data as unknown as Record<string, unknown>),
+
+  addOrganization: addTypedDocument<OrganizationDoc>('organizations'),
+  hasDocuments: async (collectionName: SeedCollection) =>
+    (await runQuery<Record<string, unknown>>(collectionName, { limit: 1 })).length > 0,
+
+  subscribeToUserProfile,
+  subscribeToContributions,
+  subscribeToNotifications,
+  subscribeToThreads,
+  subscribeToProjectDirectory,
+  subscribeToMemberProjects,
+  subscribeToLeadProjects,
+  subscribeToApplicantApplications,
+  subscribeToLeadApplications,
+  subscribeToLeadTasks,
+  subscribeToLeadContributions,
+  subscribeToEvents,
+  subscribeToEventAttendance,
+};
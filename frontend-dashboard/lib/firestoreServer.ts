@@ -0,0 +1,98 @@
+import { createSign } from 'node:crypto';
+import {
+  FIRESTORE_BASE,
+  PROJECT_ID,
+  mapFromFsDocument,
+  mapFromFsDocuments,
+  toStructuredQuery,
+  type QueryOptions,
+} from './firestoreValues';
+
+// Server-only Firestore reads for routes that act without a signed-in user, such as calendar
+// feeds, or that must not trust data sent by the browser, such as transcript signing. Requests use a service account from FIREBASE_SERVICE_ACCOUNT_JSON, or the same JSON
+// base64-encoded in FIREBASE_SERVICE_ACCOUNT_BASE64, the variables the orchestrator reads.
+
+type ServiceAccount = {
+  client_email: string;
+  private_key: string;
+};
+
+const TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore';
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+function serviceAccount(): ServiceAccount | null {
+  const raw =
+    process.env.FIREBASE_SERVICE_ACCOUNT_JSON ||
+    (process.env.FIREBASE_SERVICE_ACCOUNT_BASE64
+      ? Buffer.from(process.env.FIREBASE_SERVICE_ACCOUNT_BASE64, 'base64').toString('utf8')
+      : '');
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw) as Partial<ServiceAccount>;
+    return parsed.client_email && parsed.private_key
+      ? { client_email: parsed.client_email, private_key: parsed.private_key }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+export function firestoreServerAvailable() {
+  return Boolean(PROJECT_ID && serviceAccount());
+}
+
+function base64url(value: string) {
+  return Buffer.from(value, 'utf8').toString('base64url');
+}
+
+// OAuth access token for the service account, from a signed JWT assertion. Tokens last an hour
+// and are reused until shortly before they expire.
+async function accessToken() {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) return cachedToken.value;
+  const account = serviceAccount();
+  if (!account) throw new Error('Firestore service account is not configured.');
+
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))}.${base64url(
+    JSON.stringify({ iss: account.client_email, scope: DATASTORE_SCOPE, aud: TOKEN_URL, iat: now, exp: now + 3600 })
+  )}`;
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(account.private_key.replace(/\\n/g, '\n'), 'base64url');
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${signature}`,
+    }),
+  });
+  const payload = (await response.json().catch(() => ({}))) as { access_token?: string; expires_in?: number };
+  if (!response.ok || !payload.access_token) throw new Error('Unable to authorize the Firestore service account.');
+  cachedToken = { value: payload.access_token, expiresAt: Date.now() + (payload.expires_in || 3600) * 1000 };
+  return cachedToken.value;
+}
+
+export async function serverQuery<T>(collectionName: string, options: QueryOptions = {}): Promise<Array<T & { id: string }>> {
+  const response = await fetch(`${FIRESTORE_BASE}:runQuery`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${await accessToken()}` },
+    body: JSON.stringify({ structuredQuery: toStructuredQuery(collectionName, options) }),
+    cache: 'no-store',
+  });
+  if (!response.ok) throw new Error(`Firestore query failed (${response.status}).`);
+  const rows = (await response.json()) as Array<{ document?: { name: string; fields?: Record<string, unknown> } }>;
+  return mapFromFsDocuments<T>(rows.filter((row) => row.document).map((row) => row.document));
+}
+
+// Null when the document does not exist.
+export async function serverGet<T>(collectionName: string, docId: string): Promise<(T & { id: string }) | null> {
+  const response = await fetch(`${FIRESTORE_BASE}/${collectionName}/${encodeURIComponent(docId)}`, {
+    headers: { Authorization: `Bearer ${await accessToken()}` },
+    cache: 'no-store',
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Firestore read failed (${response.status}).`);
+  return mapFromFsDocument<T>(await response.json());
+}
@@ -0,0 +1,173 @@
+import { parseDocument } from './turknodeSchemas';
+import { DocumentRef, type GeoPoint } from './turknodeTypes';
+
+// Encoding of values, documents and queries for the Firestore REST API, shared by the browser
+// repository and the server routes that read Firestore directly.
+
+export const PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || '';
+export const FIRESTORE_DOCUMENTS_PATH = `projects/${PROJECT_ID}/databases/(default)/documents`;
+export const FIRESTORE_BASE = `https://firestore.googleapis.com/v1/${FIRESTORE_DOCUMENTS_PATH}`;
+
+export type FsValue =
+  | { stringValue: string }
+  | { integerValue: string }
+  | { doubleValue: number }
+  | { booleanValue: boolean }
+  | { timestampValue: string }
+  | { geoPointValue: { latitude: number; longitude: number } }
+  | { bytesValue: string }
+  | { referenceValue: string }
+  | { arrayValue: { values: FsValue[] } }
+  | { mapValue: { fields: Record<string, FsValue> } }
+  | { nullValue: null };
+
+// Plain objects with exactly numeric `lat` and `lng` keys are stored as Firestore geo points.
+function isGeoPoint(value: unknown): value is GeoPoint {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  const keys = Object.keys(value);
+  const point = value as Record<string, unknown>;
+  return keys.length === 2 && typeof point.lat === 'number' && typeof point.lng === 'number';
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function base64ToBytes(encoded: string) {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i += 1) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+export function toFsValue(value: unknown): FsValue {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { booleanValue: value };
+  if (typeof value === 'number') {
+    if (Number.isInteger(value)) return { integerValue: String(value) };
+    return { doubleValue: value };
+  }
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (value instanceof Uint8Array) return { bytesValue: bytesToBase64(value) };
+  if (value instanceof DocumentRef) return { referenceValue: `${FIRESTORE_DOCUMENTS_PATH}/${value.path}` };
+  if (isGeoPoint(value)) return { geoPointValue: { latitude: value.lat, longitude: value.lng } };
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFsValue) } };
+  if (typeof value === 'object') {
+    const fields: Record<string, FsValue> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
+      fields[k] = toFsValue(v);
+    });
+    return { mapValue: { fields } };
+  }
+  return { stringValue: String(value) };
+}
+
+function fromFsValue(value: any): any {
+  if (!value) return null;
+  if ('stringValue' in value) return value.stringValue;
+  if ('integerValue' in value) return Number(value.integerValue);
+  if ('doubleValue' in value) return Number(value.doubleValue);
+  if ('booleanValue' in value) return Boolean(value.booleanValue);
+  if ('nullValue' in value) return null;
+  if ('arrayValue' in value) return (value.arrayValue.values || []).map(fromFsValue);
+  if ('mapValue' in value) {
+    const output: Record<string, unknown> = {};
+    Object.entries(value.mapValue.fields || {}).forEach(([k, v]) => {
+      output[k] = fromFsValue(v);
+    });
+    return output;
+  }
+  if ('timestampValue' in value) return new Date(value.timestampValue);
+  // The REST API omits zero coordinates.
+  if ('geoPointValue' in value) {
+    return { lat: Number(value.geoPointValue.latitude || 0), lng: Number(value.geoPointValue.longitude || 0) };
+  }
+  if ('bytesValue' in value) return base64ToBytes(value.bytesValue);
+  if ('referenceValue' in value) {
+    return new DocumentRef(String(value.referenceValue).split('/documents/').slice(1).join('/documents/'));
+  }
+  return null;
+}
+
+export function documentIdFromName(name: unknown) {
+  return String(name || '').split('/').pop() || '';
+}
+
+// Decodes a Firestore REST document and validates it against the schema for its collection.
+export function mapFromFsDocument<T>(doc: any): (T & { id: string }) | null {
+  const segments = String(doc.name || '').split('/');
+  const id = segments[segments.length - 1] || '';
+  const collectionName = segments[segments.length - 2] || '';
+  const fields = doc.fields || {};
+  const data: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([k, v]) => {
+    data[k] = fromFsValue(v);
+  });
+  return parseDocument<T>(collectionName, id, data);
+}
+
+export function mapFromFsDocuments<T>(docs: any[]): Array<T & { id: string }> {
+  return docs.map((doc) => mapFromFsDocument<T>(doc)).filter((row): row is T & { id: string } => row !== null);
+}
+
+export function toFsFields(data: Record<string, unknown>) {
+  const fields: Record<string, FsValue> = {};
+  Object.entries(data).forEach(([k, v]) => {
+    fields[k] = toFsValue(v);
+  });
+  return { fields };
+}
+
+export type QueryFilterOp =
+  | 'EQUAL'
+  | 'NOT_EQUAL'
+  | 'LESS_THAN'
+  | 'LESS_THAN_OR_EQUAL'
+  | 'GREATER_THAN'
+  | 'GREATER_THAN_OR_EQUAL'
+  | 'ARRAY_CONTAINS'
+  | 'ARRAY_CONTAINS_ANY'
+  | 'IN'
+  | 'NOT_IN';
+
+export type QueryFilter = { field: string; op: QueryFilterOp; value: unknown };
+export type QueryOrder = { field: string; direction?: 'ASCENDING' | 'DESCENDING' };
+
+export type QueryOptions = {
+  where?: QueryFilter[];
+  orderBy?: QueryOrder[];
+  limit?: number;
+};
+
+export function toStructuredQuery(collectionName: string, options: QueryOptions) {
+  const filters = (options.where || []).map((filter) => ({
+    fieldFilter: {
+      field: { fieldPath: filter.field },
+      op: filter.op,
+      value: toFsValue(filter.value),
+    },
+  }));
+
+  const query: Record<string, unknown> = { from: [{ collectionId: collectionName }] };
+  if (filters.length === 1) {
+    query.where = filters[0];
+  } else if (filters.length > 1) {
+    query.where = { compositeFilter: { op: 'AND', filters } };
+  }
+  if (options.orderBy && options.orderBy.length > 0) {
+    query.orderBy = options.orderBy.map((order) => ({
+      field: { fieldPath: order.field },
+      direction: order.direction || 'ASCENDING',
+    }));
+  }
+  if (options.limit) query.limit = options.limit;
+  return query;
+}
+
+// Filtering happens in Firestore so a user only downloads the rows they are allowed to see.
+// Queries combining an equality filter with orderBy on another field need a composite index.
@@ -0,0 +1,82 @@
+import type { EventOccurrence } from './eventRecurrence';
+
+// iCalendar (RFC 5545) output for calendar subscriptions. Repeating events are written as one
+// VEVENT per occurrence, in UTC, so calendar apps need neither the recurrence rule nor time zone
+// definitions; skipped dates simply drop out of the feed on the next refresh.
+
+export type CalendarEntry = {
+  occurrence: EventOccurrence;
+  // Entries the volunteer has not RSVPed to are marked tentative.
+  attending: boolean;
+};
+
+const LINE_LIMIT_OCTETS = 75;
+// Events without an end time are shown as an hour long.
+const DEFAULT_DURATION_MS = 60 * 60 * 1000;
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Lines longer than 75 octets continue on the next line after a single space, without
+// splitting a UTF-8 character.
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? LINE_LIMIT_OCTETS : LINE_LIMIT_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function eventLines({ occurrence, attending }: CalendarEntry, now: Date) {
+  const { event, key, startsAt } = occurrence;
+  const endsAt = occurrence.endsAt || new Date(startsAt.getTime() + DEFAULT_DURATION_MS);
+  const status = event.status === 'cancelled' ? 'CANCELLED' : attending ? 'CONFIRMED' : 'TENTATIVE';
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.id}-${formatUtc(new Date(key))}@turknode`,
+    `DTSTAMP:${formatUtc(event.updatedAt || now)}`,
+    `DTSTART:${formatUtc(startsAt)}`,
+    `DTEND:${formatUtc(endsAt)}`,
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    `STATUS:${status}`,
+    'END:VEVENT',
+  ];
+}
+
+export function buildCalendar(name: string, entries: CalendarEntry[], now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TurkNode//Volunteer Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...entries.flatMap((entry) => eventLines(entry, now)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { authorizedHeaders, orchestratorRequest } from './orchestratorClient';
+import { isSharedProjectId } from './projectService';
+import {
+  announceContributionDecision,
+  dataBackend,
+  decideContribution,
+  getAttendance,
+  getContribution,
+  getEvent,
+  getProjectsByIds,
+  getUserProfile,
+  logContribution,
+  recordAttendanceCredit,
+  type AttendanceDoc,
+  type ContributionDecision,
+  type ContributionDoc,
+  type NewContribution,
+} from './turknodeDb';
+
+// Volunteer hours are recorded in the orchestrator's impact_ledger table, the same table that
+// GET /api/v1/stats sums. The dashboard contribution document keeps the ledger transactionId.
+//
+// Only shared projects (see projectService) exist in the orchestrator, and only Firebase users
+// can authenticate to it, so hours on dashboard-only projects or with a local data backend are
+// stored on the dashboard without a transactionId.
+//
+// Ledger entries start unverified and only count in the totals once a project lead verifies
+// the matching contribution (see reviewContribution).
+//
+// Leads credit event attendance the same way: the entry is recorded on the volunteer's ledger
+// and then verified (see creditAttendanceHours).
+
+export type LedgerSummary = {
+  entries: number;
+  hours: number;
+  totalImpact: number;
+  projects: number;
+  pendingHours: number;
+};
+
+export const ledgerAvailable = dataBackend === 'firestore';
+
+const SIGNED_OUT_MESSAGE = 'Sign in to record hours on the impact ledger.';
+const MANAGER_MESSAGE = 'Sign in with a manager account to credit hours.';
+
+export function isLedgerProject(projectId: string) {
+  return ledgerAvailable && isSharedProjectId(projectId);
+}
+
+export async function recordContribution(payload: Omit<NewContribution, 'transactionId'>) {
+  if (!Number.isFinite(payload.hours) || payload.hours <= 0) {
+    throw new Error('Enter the hours you contributed.');
+  }
+  if (payload.metricQuantity !== undefined && (!Number.isFinite(payload.metricQuantity) || payload.metricQuantity < 0)) {
+    throw new Error('Enter the amount you delivered as zero or a positive number.');
+  }
+  if (!isLedgerProject(payload.projectId)) {
+    return logContribution(payload);
+  }
+
+  const transactionId = await postLedgerEntry('/api/v1/contributions/me', SIGNED_OUT_MESSAGE, {
+    projectId: payload.projectId,
+    impactType: 'hours',
+    impactValue: payload.hours,
+    evidenceUrl: payload.evidenceUrl || undefined,
+  });
+  return logLedgerContribution({ ...payload, transactionId }, SIGNED_OUT_MESSAGE);
+}
+
+async function postLedgerEntry(path: string, signedOutMessage: string, entry: Record<string, unknown>) {
+  const result = await orchestratorRequest<{ transactionId?: string }>(
+    path,
+    {
+      method: 'POST',
+      headers: await authorizedHeaders(signedOutMessage),
+      body: JSON.stringify(entry),
+    },
+    'Unable to record contribution.'
+  );
+  if (!result.transactionId) throw new Error('The impact ledger did not return a transaction ID.');
+  return result.transactionId;
+}
+
+// Saves the dashboard contribution for a ledger entry that was just recorded. If that fails the
+// entry is removed again, so the ledger never counts hours the dashboard has no record of.
+async function logLedgerContribution(payload: NewContribution & { transactionId: string }, signedOutMessage: string) {
+  try {
+    return await logContribution(payload);
+  } catch (err) {
+    try {
+      await orchestratorRequest(
+        `/api/v1/contributions/${payload.transactionId}`,
+        { method: 'DELETE', headers: await authorizedHeaders(signedOutMessage) },
+        'Unable to remove the ledger entry.'
+      );
+    } catch (removeErr) {
+      const reason = removeErr instanceof Error ? removeErr.message : String(removeErr);
+      throw new Error(
+        `${err instanceof Error ? err.message : 'Unable to record contribution.'} The impact ledger still lists these hours as pending (${reason}).`
+      );
+    }
+    throw err;
+  }
+}
+
+// The signed-in volunteer's ledger totals, or null when there is no ledger to ask.
+export async function getLedgerSummary(): Promise<LedgerSummary | null> {
+  if (!ledgerAvailable) return null;
+  const summary = await orchestratorRequest<Partial<LedgerSummary>>(
+    '/api/v1/contributions/me/summary',
+    { headers: await authorizedHeaders(SIGNED_OUT_MESSAGE) },
+    'Unable to load ledger totals.'
+  );
+  return {
+    entries: Number(summary.entries || 0),
+    hours: Number(summary.hours || 0),
+    totalImpact: Number(summary.totalImpact || 0),
+    projects: Number(summary.projects || 0),
+    pendingHours: Number(summary.pendingHours || 0),
+  };
+}
+
+async function setLedgerVerified(transactionId: string, verified: boolean) {
+  await orchestratorRequest(
+    `/api/v1/contributions/${transactionId}/verification`,
+    {
+      method: 'PATCH',
+      headers: await authorizedHeaders('Sign in with a manager account to verify hours.'),
+      body: JSON.stringify({ verified }),
+    },
+    'Unable to update the ledger entry.'
+  );
+}
+
+// Verifies the ledger entry first, so a ledger failure leaves the contribution pending. If
+// recording the decision on the dashboard then fails, the ledger entry is set back to
+// unverified. Badges and the volunteer's notification come after the decision is recorded, so
+// their failures never undo it.
+export async function reviewContribution(
+  contribution: ContributionDoc,
+  decision: ContributionDecision,
+  reviewer: string,
+  note = ''
+) {
+  const ledgerEntry = decision === 'verified' && ledgerAvailable ? contribution.transactionId : undefined;
+  if (ledgerEntry) await setLedgerVerified(ledgerEntry, true);
+  let row: ContributionDoc;
+  try {
+    row = await decideContribution(contribution.id, decision, reviewer, note);
+  } catch (err) {
+    if (ledgerEntry) {
+      try {
+        await setLedgerVerified(ledgerEntry, false);
+      } catch (rollbackErr) {
+        const reason = rollbackErr instanceof Error ? rollbackErr.message : String(rollbackErr);
+        throw new Error(
+          `${err instanceof Error ? err.message : 'Unable to review the contribution.'} The impact ledger still lists these hours as verified (${reason}).`
+        );
+      }
+    }
+    throw err;
+  }
+  await announceContributionDecision(row, decision, note);
+  return row;
+}
+
+// Credits event attendance as a verified contribution on the event's project, so it counts
+// toward the volunteer's hours and badges like reviewed hours do. The contribution is linked to
+// the attendance record before it is verified, and creditedHours is only set once it is, so a
+// retry after a failed review verifies the same contribution rather than crediting twice.
+export async function creditAttendanceHours(attendanceId: string, hours: number, reviewer: string) {
+  if (!Number.isFinite(hours) || hours <= 0 || hours > 24) throw new Error('Credit between 0 and 24 hours.');
+  const attendance = await getAttendance(attendanceId);
+  if (!attendance) throw new Error('Attendance record not found.');
+  if (attendance.creditedHours) throw new Error(`Hours were already credited to ${attendance.volunteerName}.`);
+
+  let contribution = attendance.contributionId ? await getContribution(attendance.contributionId) : null;
+  if (!contribution) {
+    const contributionId = await logAttendanceContribution(attendance, hours);
+    await recordAttendanceCredit(attendanceId, { contributionId });
+    contribution = await getContribution(contributionId);
+    if (!contribution) throw new Error('Contribution not found.');
+  }
+  if (contribution.verification !== 'verified') await reviewContribution(contribution, 'verified', reviewer);
+  await recordAttendanceCredit(attendanceId, { creditedHours: contribution.hours });
+}
+
+async function logAttendanceContribution(attendance: AttendanceDoc, hours: number) {
+  const event = await getEvent(attendance.eventId);
+  if (!event) throw new Error('Event not found.');
+  if (!event.projectId) throw new Error('Only events on a project can credit hours.');
+  const [[project], profile] = await Promise.all([getProjectsByIds([event.projectId]), getUserProfile(attendance.uid)]);
+  const payload = {
+    uid: attendance.uid,
+    projectId: event.projectId,
+    projectTitle: project?.title || '',
+    hours,
+    notes: `Attended ${event.title} on ${new Date(attendance.occurrenceKey).toLocaleDateString()}.`,
+    completedTask: false,
+    volunteerName: attendance.volunteerName,
+  };
+  if (!isLedgerProject(event.projectId)) return logContribution(payload);
+  if (!profile?.email) throw new Error(`${attendance.volunteerName} has no email address to match on the impact ledger.`);
+
+  const transactionId = await postLedgerEntry('/api/v1/contributions/volunteer', MANAGER_MESSAGE, {
+    volunteerEmail: profile.email,
+    volunteerName: attendance.volunteerName,
+    projectId: event.projectId,
+    impactType: 'hours',
+    impactValue: hours,
+  });
+  return logLedgerContribution({ ...payload, transactionId }, MANAGER_MESSAGE);
+}
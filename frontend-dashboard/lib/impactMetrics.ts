@@ -0,0 +1,58 @@
+import type { ProjectDoc } from './turknodeTypes';
+
+// Progress against ProjectDoc.impactMetric. Each project keeps a running impactProgress (the
+// metricQuantity of its verified contributions); these helpers turn it into per-project and
+// organization-wide figures for the dashboards.
+
+export type ProjectImpactProgress = {
+  projectId: string;
+  metric: string;
+  achieved: number;
+  target?: number;
+  // 0-100, or null when the project has no target.
+  percent: number | null;
+};
+
+export type ImpactMetricTotal = {
+  metric: string;
+  achieved: number;
+  // Sum of the targets of projects that set one.
+  target: number;
+  projects: number;
+  percent: number | null;
+};
+
+function percentOf(achieved: number, target: number | undefined) {
+  if (!target || target <= 0) return null;
+  return Math.max(0, Math.min(100, Math.round((achieved / target) * 100)));
+}
+
+export function projectImpactProgress(project: ProjectDoc): ProjectImpactProgress {
+  const achieved = Number(project.impactProgress || 0);
+  return {
+    projectId: project.id,
+    metric: project.impactMetric,
+    achieved,
+    target: project.impactTarget,
+    percent: percentOf(achieved, project.impactTarget),
+  };
+}
+
+// Totals per metric across projects, with labels matched case-insensitively ("Trees planted"
+// and "trees planted" add up). Metrics with the most progress come first.
+export function summarizeImpactMetrics(projects: ProjectDoc[]): ImpactMetricTotal[] {
+  const totals = new Map<string, ImpactMetricTotal>();
+  projects.forEach((project) => {
+    const metric = project.impactMetric.trim();
+    if (!metric) return;
+    const key = metric.toLowerCase();
+    const entry = totals.get(key) || { metric, achieved: 0, target: 0, projects: 0, percent: null };
+    entry.achieved += Number(project.impactProgress || 0);
+    entry.target += Number(project.impactTarget || 0);
+    entry.projects += 1;
+    totals.set(key, entry);
+  });
+  return Array.from(totals.values())
+    .map((entry) => ({ ...entry, percent: percentOf(entry.achieved, entry.target) }))
+    .sort((a, b) => b.achieved - a.achieved || a.metric.localeCompare(b.metric));
+}
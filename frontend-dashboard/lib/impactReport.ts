@@ -0,0 +1,299 @@
+import { expandEvents } from './eventRecurrence';
+import type {
+  ContributionDoc,
+  ContributionVerification,
+  EventDoc,
+  ProjectDoc,
+  UserProfileDoc,
+} from './turknodeTypes';
+
+// Impact reports for grant reporting. The lead dashboard gathers the data, buildImpactReport
+// limits it to a date range and project, and the report is rendered as CSV or as a printable
+// HTML page that the browser saves as PDF. Hours and metric progress count verified
+// contributions only, like every other impact figure.
+
+export type ReportData = {
+  // The projects the report may cover; usually every project the lead manages.
+  projects: ProjectDoc[];
+  contributions: ContributionDoc[];
+  // Repeating events count once per occurrence in the date range.
+  events: EventDoc[];
+  // Profiles used to name the roster; volunteers without one fall back to their contributions.
+  volunteers: UserProfileDoc[];
+};
+
+export type ReportFilters = {
+  from: Date;
+  // Exclusive.
+  to: Date;
+  projectId?: string;
+  // Events organized by this user count toward an all-projects report even without a project.
+  organizerUid?: string;
+};
+
+export type ReportVolunteer = {
+  uid: string;
+  name: string;
+  email: string;
+  projects: string[];
+  verifiedHours: number;
+  unverifiedHours: number;
+  contributions: number;
+};
+
+export type ReportVerificationTotal = {
+  state: ContributionVerification;
+  contributions: number;
+  hours: number;
+};
+
+export type ReportMetric = {
+  projectTitle: string;
+  metric: string;
+  // Verified quantity logged in the date range.
+  inRange: number;
+  // Verified quantity to date, and the target it counts toward.
+  toDate: number;
+  target?: number;
+  percent: number | null;
+};
+
+export type ReportEvent = {
+  title: string;
+  startsAt: Date;
+  location: string;
+  projectTitle: string;
+  rsvps: number;
+};
+
+export type ImpactReport = {
+  scope: string;
+  from: Date;
+  // Inclusive, for display.
+  through: Date;
+  generatedAt: Date;
+  roster: ReportVolunteer[];
+  verification: ReportVerificationTotal[];
+  metrics: ReportMetric[];
+  events: ReportEvent[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const VERIFICATION_STATES: ContributionVerification[] = ['verified', 'pending', 'needs_info', 'rejected'];
+
+export const VERIFICATION_LABELS: Record<ContributionVerification, string> = {
+  verified: 'Verified',
+  pending: 'Pending review',
+  needs_info: 'Needs info',
+  rejected: 'Rejected',
+};
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+function inRange(date: Date | undefined, filters: ReportFilters) {
+  return Boolean(date && date >= filters.from && date < filters.to);
+}
+
+export function buildImpactReport(data: ReportData, filters: ReportFilters, now = new Date()): ImpactReport {
+  const projects = data.projects.filter((project) => !filters.projectId || project.id === filters.projectId);
+  const projectById = new Map(projects.map((project) => [project.id, project]));
+  const profileByUid = new Map(data.volunteers.map((profile) => [profile.uid, profile]));
+  const contributions = data.contributions.filter(
+    (row) => projectById.has(row.projectId) && inRange(row.createdAt, filters)
+  );
+
+  // Members of the projects plus anyone who contributed in the range.
+  const roster = new Map<string, ReportVolunteer>();
+  const rosterEntry = (uid: string, fallbackName?: string) => {
+    let entry = roster.get(uid);
+    if (!entry) {
+      const profile = profileByUid.get(uid);
+      entry = {
+        uid,
+        name: profile?.displayName || fallbackName || 'Volunteer',
+        email: profile?.email || '',
+        projects: [],
+        verifiedHours: 0,
+        unverifiedHours: 0,
+        contributions: 0,
+      };
+      roster.set(uid, entry);
+    }
+    return entry;
+  };
+  const addProject = (entry: ReportVolunteer, title: string) => {
+    if (!entry.projects.includes(title)) entry.projects.push(title);
+  };
+  projects.forEach((project) => project.participants.forEach((uid) => addProject(rosterEntry(uid), project.title)));
+  contributions.forEach((row) => {
+    const entry = rosterEntry(row.uid, row.volunteerName);
+    addProject(entry, projectById.get(row.projectId)?.title || row.projectTitle);
+    entry.contributions += 1;
+    if (row.verification === 'verified') entry.verifiedHours += Number(row.hours || 0);
+    else if (row.verification !== 'rejected') entry.unverifiedHours += Number(row.hours || 0);
+  });
+
+  const verification = VERIFICATION_STATES.map((state) => {
+    const rows = contributions.filter((row) => row.verification === state);
+    return {
+      state,
+      contributions: rows.length,
+      hours: round(rows.reduce((sum, row) => sum + Number(row.hours || 0), 0)),
+    };
+  });
+
+  const metrics = projects
+    .filter((project) => project.impactMetric.trim())
+    .map((project) => {
+      const target = project.impactTarget && project.impactTarget > 0 ? project.impactTarget : undefined;
+      const toDate = Number(project.impactProgress || 0);
+      return {
+        projectTitle: project.title,
+        metric: project.impactMetric.trim(),
+        inRange: round(
+          contributions
+            .filter((row) => row.projectId === project.id && row.verification === 'verified')
+            .reduce((sum, row) => sum + Number(row.metricQuantity || 0), 0)
+        ),
+        toDate,
+        target,
+        percent: target ? Math.round((toDate / target) * 100) : null,
+      };
+    });
+
+  const reportedEvents = data.events.filter(
+    (event) =>
+      event.status !== 'cancelled' &&
+      (event.projectId
+        ? projectById.has(event.projectId)
+        : !filters.projectId && Boolean(filters.organizerUid) && event.organizerUid === filters.organizerUid)
+  );
+  const events = expandEvents(reportedEvents, filters.from, filters.to).map(({ event, startsAt }) => ({
+    title: event.title,
+    startsAt,
+    location: event.location,
+    projectTitle: (event.projectId && projectById.get(event.projectId)?.title) || '',
+    rsvps: event.rsvps.length,
+  }));
+
+  return {
+    scope: filters.projectId ? projects[0]?.title || 'Project' : 'All projects',
+    from: filters.from,
+    through: new Date(filters.to.getTime() - DAY_MS),
+    generatedAt: now,
+    roster: Array.from(roster.values())
+      .map((entry) => ({ ...entry, verifiedHours: round(entry.verifiedHours), unverifiedHours: round(entry.unverifiedHours) }))
+      .sort((a, b) => b.verifiedHours - a.verifiedHours || a.name.localeCompare(b.name)),
+    verification,
+    metrics,
+    events,
+  };
+}
+
+function day(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Rows of each report section, shared by the CSV and HTML renderers.
+function reportSections(report: ImpactReport): Array<{ title: string; header: string[]; rows: string[][] }> {
+  return [
+    {
+      title: 'Volunteer roster and hours',
+      header: ['Volunteer', 'Email', 'Projects', 'Verified hours', 'Unverified hours', 'Contributions'],
+      rows: report.roster.map((entry) => [
+        entry.name,
+        entry.email,
+        entry.projects.join('; '),
+        String(entry.verifiedHours),
+        String(entry.unverifiedHours),
+        String(entry.contributions),
+      ]),
+    },
+    {
+      title: 'Contributions by verification state',
+      header: ['State', 'Contributions', 'Hours'],
+      rows: report.verification.map((entry) => [
+        VERIFICATION_LABELS[entry.state],
+        String(entry.contributions),
+        String(entry.hours),
+      ]),
+    },
+    {
+      title: 'Impact metrics',
+      header: ['Project', 'Metric', 'Verified in period', 'Verified to date', 'Target', 'Progress'],
+      rows: report.metrics.map((entry) => [
+        entry.projectTitle,
+        entry.metric,
+        String(entry.inRange),
+        String(entry.toDate),
+        entry.target === undefined ? '' : String(entry.target),
+        entry.percent === null ? '' : `${entry.percent}%`,
+      ]),
+    },
+    {
+      title: 'Events held',
+      header: ['Date', 'Event', 'Project', 'Location', 'RSVPs'],
+      rows: report.events.map((entry) => [
+        day(entry.startsAt),
+        entry.title,
+        entry.projectTitle,
+        entry.location,
+        String(entry.rsvps),
+      ]),
+    },
+  ];
+}
+
+function csvCell(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// One CSV file with a blank line between sections, which spreadsheets open as a single sheet.
+export function reportToCsv(report: ImpactReport) {
+  const lines = [
+    ['Impact report', report.scope],
+    ['Period', `${day(report.from)} to ${day(report.through)}`],
+    ['Generated', report.generatedAt.toISOString()],
+  ].map((row) => row.map(csvCell).join(','));
+  reportSections(report).forEach((section) => {
+    lines.push('', csvCell(section.title), section.header.map(csvCell).join(','));
+    section.rows.forEach((row) => lines.push(row.map(csvCell).join(',')));
+  });
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A standalone page for the print dialog; "Save as PDF" produces the PDF.
+export function reportToHtml(report: ImpactReport) {
+  const title = `Impact report: ${report.scope}`;
+  const sections = reportSections(report)
+    .map((section) => {
+      const body = section.rows.length
+        ? section.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')
+        : `<tr><td colspan="${section.header.length}" class="empty">None in this period.</td></tr>`;
+      return `<h2>${escapeHtml(section.title)}</h2><table><thead><tr>${section.header
+        .map((cell) => `<th>${escapeHtml(cell)}</th>`)
+        .join('')}</tr></thead><tbody>${body}</tbody></table>`;
+    })
+    .join('');
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title><style>
+body{font-family:system-ui,sans-serif;color:#0f172a;margin:32px}
+h1{font-size:22px;margin:0}h2{font-size:15px;margin:24px 0 8px}
+p{color:#475569;font-size:12px;margin:4px 0}
+table{width:100%;border-collapse:collapse;font-size:12px}
+th,td{border:1px solid #cbd5e1;padding:4px 6px;text-align:left;vertical-align:top}
+th{background:#f1f5f9}td.empty{color:#64748b}
+@media print{body{margin:0}h2{break-after:avoid}tr{break-inside:avoid}}
+</style></head><body><h1>${escapeHtml(title)}</h1><p>Period: ${day(report.from)} to ${day(
+    report.through
+  )}</p><p>Generated ${escapeHtml(report.generatedAt.toLocaleString())}. Hours and metric progress count verified contributions only.</p>${sections}</body></html>`;
+}
@@ -0,0 +1,101 @@
+import type { ContributionDoc, ImpactScoreModelDoc } from './turknodeTypes';
+
+// The impact score model. Both dashboards and the profile totals score contributions here, so
+// the number a volunteer sees always matches its breakdown. For one contribution:
+//
+//   base    = hours * impactTypeWeights.hours + (completedTask ? impactTypeWeights.completedTask : 0)
+//   points  = base * verification multiplier * category multiplier * recency multiplier
+//   recency = max(recencyFloor, 0.5 ^ (age in days / recencyHalfLifeDays))
+//
+// The impact score is the sum of points, rounded to a whole number. The model is stored as
+// impactScoreModels/current; DEFAULT_IMPACT_SCORE_MODEL applies until one is saved.
+
+export const DEFAULT_IMPACT_SCORE_MODEL: ImpactScoreModelDoc = {
+  impactTypeWeights: { hours: 0.8, completedTask: 2 },
+  verificationMultipliers: { pending: 0, verified: 1, rejected: 0, needs_info: 0 },
+  categoryWeights: {},
+  recencyHalfLifeDays: 365,
+  recencyFloor: 0.5,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ContributionScore = {
+  contributionId: string;
+  projectTitle: string;
+  hours: number;
+  hoursPoints: number;
+  taskPoints: number;
+  verificationMultiplier: number;
+  categoryMultiplier: number;
+  recencyMultiplier: number;
+  points: number;
+};
+
+export type ImpactScore = {
+  score: number;
+  contributions: ContributionScore[];
+};
+
+function round(value: number, digits: number) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function categoryMultiplier(model: ImpactScoreModelDoc, category: string | undefined) {
+  const normalized = (category || '').trim().toLowerCase();
+  const match = Object.entries(model.categoryWeights).find(([name]) => name.trim().toLowerCase() === normalized);
+  return match ? match[1] : 1;
+}
+
+export function recencyMultiplier(model: ImpactScoreModelDoc, loggedAt: Date | undefined, now: Date) {
+  if (!loggedAt || model.recencyHalfLifeDays <= 0) return 1;
+  const ageDays = Math.max(0, (now.getTime() - loggedAt.getTime()) / DAY_MS);
+  return Math.max(model.recencyFloor, 0.5 ** (ageDays / model.recencyHalfLifeDays));
+}
+
+export function scoreContribution(
+  row: ContributionDoc,
+  category: string | undefined,
+  model: ImpactScoreModelDoc = DEFAULT_IMPACT_SCORE_MODEL,
+  now = new Date()
+): ContributionScore {
+  const hoursPoints = Number(row.hours || 0) * model.impactTypeWeights.hours;
+  const taskPoints = row.completedTask ? model.impactTypeWeights.completedTask : 0;
+  const verification = model.verificationMultipliers[row.verification] ?? 0;
+  const categoryWeight = categoryMultiplier(model, category);
+  const recency = recencyMultiplier(model, row.createdAt, now);
+  return {
+    contributionId: row.id,
+    projectTitle: row.projectTitle,
+    hours: Number(row.hours || 0),
+    hoursPoints: round(hoursPoints, 2),
+    taskPoints: round(taskPoints, 2),
+    verificationMultiplier: verification,
+    categoryMultiplier: categoryWeight,
+    recencyMultiplier: round(recency, 2),
+    points: round((hoursPoints + taskPoints) * verification * categoryWeight * recency, 1),
+  };
+}
+
+// projectCategories maps project IDs to categories; unknown projects use a multiplier of 1.
+export function computeImpactScore(
+  rows: ContributionDoc[],
+  projectCategories: Record<string, string>,
+  model: ImpactScoreModelDoc = DEFAULT_IMPACT_SCORE_MODEL,
+  now = new Date()
+): ImpactScore {
+  const contributions = rows.map((row) => scoreContribution(row, projectCategories[row.projectId], model, now));
+  const total = contributions.reduce((sum, entry) => sum + entry.points, 0);
+  return { score: Math.round(total), contributions };
+}
+
+// For display next to the points, e.g. "4h = 3.2, task +2 · verification ×1 · category ×1.2".
+export function describeContributionScore(entry: ContributionScore) {
+  const parts = [`${entry.hours}h = ${entry.hoursPoints}`];
+  if (entry.taskPoints > 0) parts.push(`task +${entry.taskPoints}`);
+  const multipliers = [`verification ×${entry.verificationMultiplier}`];
+  if (entry.categoryMultiplier !== 1) multipliers.push(`category ×${entry.categoryMultiplier}`);
+  if (entry.recencyMultiplier !== 1) multipliers.push(`recency ×${entry.recencyMultiplier}`);
+  return `${parts.join(', ')} · ${multipliers.join(' · ')}`;
+}
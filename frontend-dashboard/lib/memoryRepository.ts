@@ -0,0 +1,538 @@
+'use client';
+
+import { parseDocument } from './turknodeSchemas';
+import {
+  ALREADY_CHECKED_IN,
+  CONTRIBUTION_REVIEW_CHANGED,
+  applicationId,
+  assertCanApply,
+  assertCanJoin,
+  assertUndecided,
+  attendanceId,
+  badgeAwardId,
+  fillFromWaitlist,
+  normalizeLeadEmail,
+  mergeUserProfile,
+  resolvePageSize,
+  rsvpPlacement,
+  withDistances,
+  type ChangeListener,
+  type MessageThreadDoc,
+  type Page,
+  type PageRequest,
+  type TurknodeRepository,
+  type Unsubscribe,
+} from './turknodeRepository';
+import {
+  DocumentRef,
+  type ApplicationDoc,
+  type AttendanceDoc,
+  type BadgeAwardDoc,
+  type BadgeDefinitionDoc,
+  type CheckInCodeDoc,
+  type ContributionDoc,
+  type ContributionVerification,
+  type EventDoc,
+  type ImpactScoreModelDoc,
+  type NotificationDoc,
+  type ProjectDoc,
+  type TaskDoc,
+  type UserProfileDoc,
+} from './turknodeTypes';
+
+// In-process backend for local demos, offline development and tests. Documents live in plain
+// objects keyed by collection and ID and are read through the same schemas as Firestore
+// documents. With a storageKey the store is persisted to localStorage and shared between tabs.
+
+type StoredDoc = Record<string, unknown>;
+export type MemoryStore = Record<string, Record<string, StoredDoc>>;
+
+export type MemoryRepositoryOptions = {
+  // localStorage key to persist under; without one the data lasts as long as the page.
+  storageKey?: string;
+  // Documents to start from when nothing is persisted yet.
+  initialData?: MemoryStore;
+};
+
+type SortOrder = { field: string; direction?: 'asc' | 'desc' };
+
+function cloneValue(value: unknown): unknown {
+  if (value instanceof Date) return new Date(value.getTime());
+  if (value instanceof Uint8Array) return new Uint8Array(value);
+  if (value instanceof DocumentRef) return new DocumentRef(value.path);
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, cloneValue(item)]));
+  }
+  return value;
+}
+
+// JSON has no dates, bytes or references, so they are stored as single-key tagged objects.
+function encodeValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (value instanceof Uint8Array) return { $bytes: Array.from(value) };
+  if (value instanceof DocumentRef) return { $ref: value.path };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, encodeValue(item)]));
+  }
+  return value;
+}
+
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const tagged = value as Record<string, unknown>;
+    if (Object.keys(tagged).length === 1) {
+      if (typeof tagged.$date === 'string') return new Date(tagged.$date);
+      if (Array.isArray(tagged.$bytes)) return Uint8Array.from(tagged.$bytes as number[]);
+      if (typeof tagged.$ref === 'string') return new DocumentRef(tagged.$ref);
+    }
+    return Object.fromEntries(Object.entries(tagged).map(([key, item]) => [key, decodeValue(item)]));
+  }
+  return value;
+}
+
+function loadStore(storageKey?: string): MemoryStore | null {
+  if (!storageKey || typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    return raw ? (decodeValue(JSON.parse(raw)) as MemoryStore) : null;
+  } catch {
+    return null;
+  }
+}
+
+function compareValues(a: unknown, b: unknown) {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) return 0;
+  if (left === null || left === undefined) return -1;
+  if (right === null || right === undefined) return 1;
+  return (left as string | number) < (right as string | number) ? -1 : 1;
+}
+
+// Same ordering as the Firestore queries: the given field, then document ID in the same direction.
+function sortRows<T extends { id: string }>(rows: T[], order?: SortOrder) {
+  return [...rows].sort((a, b) => {
+    const byField = order
+      ? compareValues((a as Record<string, unknown>)[order.field], (b as Record<string, unknown>)[order.field])
+      : 0;
+    const result = byField || compareValues(a.id, b.id);
+    return order?.direction === 'desc' ? -result : result;
+  });
+}
+
+// Cursors are offsets into the sorted result, which is stable enough for a single-user store.
+function toPage<T>(rows: T[], request: PageRequest): Page<T> {
+  const pageSize = resolvePageSize(request);
+  const start = Number(request.cursor || 0) || 0;
+  const end = start + pageSize;
+  return { items: rows.slice(start, end), nextCursor: end < rows.length ? String(end) : null };
+}
+
+export function createMemoryRepository(options: MemoryRepositoryOptions = {}): TurknodeRepository {
+  const { storageKey } = options;
+  let store: MemoryStore = loadStore(storageKey) || (cloneValue(options.initialData || {}) as MemoryStore);
+  const listeners = new Set<() => void>();
+  let idCounter = 0;
+
+  const notifyAll = () => listeners.forEach((listener) => listener());
+
+  if (storageKey && typeof window !== 'undefined') {
+    window.addEventListener('storage', (event) => {
+      if (event.key !== storageKey) return;
+      store = loadStore(storageKey) || {};
+      notifyAll();
+    });
+  }
+
+  // Throws when localStorage rejects the write (e.g. it is full), so the change that was being
+  // saved fails; the store in memory keeps it until the page is reloaded.
+  function commit() {
+    let saveError: unknown;
+    if (storageKey && typeof window !== 'undefined') {
+      try {
+        window.localStorage.setItem(storageKey, JSON.stringify(encodeValue(store)));
+      } catch (err) {
+        saveError = err;
+      }
+    }
+    notifyAll();
+    if (saveError) {
+      throw new Error(`Unable to save local data: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
+    }
+  }
+
+  function newId() {
+    idCounter += 1;
+    return `${Date.now().toString(36)}${idCounter.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  function readAll<T>(collectionName: string): Array<T & { id: string }> {
+    return Object.entries(store[collectionName] || {})
+      .map(([id, data]) => parseDocument<T>(collectionName, id, cloneValue(data) as StoredDoc))
+      .filter((row): row is T & { id: string } => row !== null);
+  }
+
+  function read<T>(collectionName: string, id: string) {
+    const data = store[collectionName]?.[id];
+    return data ? parseDocument<T>(collectionName, id, cloneValue(data) as StoredDoc) : null;
+  }
+
+  function write(collectionName: string, id: string, data: StoredDoc) {
+    store = { ...store, [collectionName]: { ...store[collectionName], [id]: cloneValue(data) as StoredDoc } };
+  }
+
+  // Returns false when the document does not exist.
+  function update(collectionName: string, id: string, partial: StoredDoc) {
+    const existing = store[collectionName]?.[id];
+    if (!existing) return false;
+    write(collectionName, id, { ...existing, ...partial });
+    return true;
+  }
+
+  function remove(collectionName: string, id: string) {
+    const { [id]: _removed, ...rest } = store[collectionName] || {};
+    store = { ...store, [collectionName]: rest };
+  }
+
+  async function add<T>(collectionName: string, data: Omit<T, 'id'>) {
+    const id = newId();
+    write(collectionName, id, data as unknown as StoredDoc);
+    commit();
+    return id;
+  }
+
+  function subscribe<T>(select: () => Array<T & { id: string }>, onChange: ChangeListener<T>): Unsubscribe {
+    let active = true;
+    const listener = () => {
+      if (active) onChange(select());
+    };
+    listeners.add(listener);
+    // Like onSnapshot, the first result arrives asynchronously.
+    void Promise.resolve().then(listener);
+    return () => {
+      active = false;
+      listeners.delete(listener);
+    };
+  }
+
+  const isLeadRow = (projectLeadEmail: string) => {
+    const email = normalizeLeadEmail(projectLeadEmail);
+    return (row: { projectLeadEmail?: string }) => normalizeLeadEmail(row.projectLeadEmail || '') === email;
+  };
+
+  const applicationsWhere = (match: (row: ApplicationDoc) => boolean) =>
+    sortRows(readAll<ApplicationDoc>('applications').filter(match), { field: 'createdAt', direction: 'desc' });
+
+  const notificationsFor = (uid: string) =>
+    sortRows(
+      readAll<NotificationDoc>('notifications').filter((row) => row.uid === uid),
+      { field: 'createdAt', direction: 'desc' }
+    );
+
+  const threadsFor = (uid: string) =>
+    sortRows(
+      readAll<MessageThreadDoc>('messages').filter((row) => Array.isArray(row.members) && row.members.includes(uid)),
+      { field: 'updatedAt', direction: 'desc' }
+    );
+
+  const projectsForMember = (uid: string) =>
+    sortRows(readAll<ProjectDoc>('projects').filter((row) => row.participants.includes(uid)));
+
+  const contributionsFor = (uid: string) =>
+    sortRows(
+      readAll<ContributionDoc>('contributions').filter((row) => row.uid === uid),
+      { field: 'createdAt', direction: 'desc' }
+    );
+
+  const contributionsForLead = (projectLeadEmail: string) =>
+    sortRows(
+      readAll<ContributionDoc>('contributions').filter(isLeadRow(projectLeadEmail)),
+      { field: 'createdAt', direction: 'desc' }
+    );
+
+  const tasksForLead = (projectLeadEmail: string) =>
+    sortRows(readAll<TaskDoc>('tasks').filter(isLeadRow(projectLeadEmail)), { field: 'dueDate' });
+
+  const eventsByStart = () => sortRows(readAll<EventDoc>('events'), { field: 'startsAt' });
+  const checkInCodesFor = (eventId: string) =>
+    readAll<CheckInCodeDoc>('checkInCodes').filter((row) => row.eventId === eventId);
+
+  return {
+    getUserProfile: async (uid) => read<UserProfileDoc>('users', uid),
+    upsertUserProfile: async (uid, data) => {
+      const merged = mergeUserProfile(uid, data, read<UserProfileDoc>('users', uid));
+      write('users', uid, { ...store.users?.[uid], ...merged });
+      commit();
+    },
+    patchUserProfile: async (uid, partial) => {
+      if (!update('users', uid, partial)) throw new Error('Profile missing.');
+      commit();
+    },
+    listVolunteersPage: async (request) =>
+      toPage(sortRows(readAll<UserProfileDoc>('users').filter((row) => row.role === 'volunteer')), request),
+
+    listProjectsPage: async (request) => toPage(sortRows(readAll<ProjectDoc>('projects')), request),
+    listProjectsForMember: async (uid) => projectsForMember(uid),
+    getProjectsByIds: async (projectIds) =>
+      projectIds.map((id) => read<ProjectDoc>('projects', id)).filter((row): row is ProjectDoc => Boolean(row)),
+    listProjectsNear: async (center, radiusKm) => withDistances(center, radiusKm, readAll<ProjectDoc>('projects')),
+    addProject: async (data, projectId) => {
+      if (!projectId) return add<ProjectDoc>('projects', data);
+      if (store.projects?.[projectId]) throw new Error('Project already exists.');
+      write('projects', projectId, data);
+      commit();
+      return projectId;
+    },
+    patchProject: async (projectId, partial) => {
+      if (!update('projects', projectId, partial)) throw new Error('Project not found.');
+      commit();
+    },
+    joinProject: async (uid, projectId) => {
+      const row = read<ProjectDoc>('projects', projectId);
+      if (!row) throw new Error('Project not found.');
+      assertCanJoin(row, uid);
+      const participants = Array.from(new Set([...row.participants, uid]));
+      update('projects', projectId, { participants, participantCount: participants.length });
+      write('memberships', `${uid}_${projectId}`, { uid, projectId, status: 'active', joinedAt: new Date() });
+      commit();
+      return row;
+    },
+    leaveProject: async (uid, projectId) => {
+      const row = read<ProjectDoc>('projects', projectId);
+      if (!row) return;
+      const participants = row.participants.filter((id) => id !== uid);
+      update('projects', projectId, { participants, participantCount: participants.length });
+      write('memberships', `${uid}_${projectId}`, { uid, projectId, status: 'left', leftAt: new Date() });
+      commit();
+    },
+    saveProject: async (uid, projectId) => {
+      write('saved', `${uid}_${projectId}`, { uid, projectId, savedAt: new Date() });
+      commit();
+    },
+    unsaveProject: async (uid, projectId) => {
+      remove('saved', `${uid}_${projectId}`);
+      commit();
+    },
+    getSavedProjectIds: async (uid) =>
+      readAll<{ uid: string; projectId: string }>('saved')
+        .filter((row) => row.uid === uid)
+        .map((row) => row.projectId),
+
+    listApplicationsForLeadPage: async (projectLeadEmail, request) =>
+      toPage(applicationsWhere(isLeadRow(projectLeadEmail)), request),
+    addApplication: (data) => add<ApplicationDoc>('applications', data),
+    submitApplication: async (data) => {
+      const id = applicationId(data.applicantUid, data.projectId);
+      assertCanApply(read<ApplicationDoc>('applications', id));
+      write('applications', id, data);
+      commit();
+      return id;
+    },
+    updateApplicationState: async (applicationId, state) => {
+      if (!update('applications', applicationId, { state })) throw new Error('Application not found.');
+      commit();
+    },
+    decideApplication: async (applicationId, changes) => {
+      const row = read<ApplicationDoc>('applications', applicationId);
+      if (!row) throw new Error('Application not found.');
+      assertUndecided(row);
+      if (changes.state === 'accepted') {
+        const project = read<ProjectDoc>('projects', row.projectId);
+        if (!project) throw new Error('Project not found.');
+        const uid = row.applicantUid;
+        if (project.status !== 'active' && !project.participants.includes(uid)) {
+          throw new Error('This project is no longer accepting volunteers.');
+        }
+        const participants = Array.from(new Set([...project.participants, uid]));
+        update('projects', row.projectId, { participants, participantCount: participants.length });
+        write('memberships', `${uid}_${row.projectId}`, { uid, projectId: row.projectId, status: 'active', joinedAt: new Date() });
+      }
+      update('applications', applicationId, changes);
+      commit();
+      return { ...row, ...changes };
+    },
+
+    listTasksForLeadPage: async (projectLeadEmail, request) =>
+      toPage(tasksForLead(projectLeadEmail), request),
+    addTask: (data) => add<TaskDoc>('tasks', data),
+    updateTaskStatus: async (taskId, status) => {
+      if (!update('tasks', taskId, { status, updatedAt: new Date() })) throw new Error('Task not found.');
+      commit();
+    },
+
+    addContribution: (data) => add<ContributionDoc>('contributions', data),
+    getContribution: async (id) => read<ContributionDoc>('contributions', id),
+    listContributionsPage: async (uid, request) => toPage(contributionsFor(uid), request),
+    listContributionsForLeadPage: async (projectLeadEmail, request, verification) =>
+      toPage(
+        contributionsForLead(projectLeadEmail).filter((row) => !verification || row.verification === verification),
+        request
+      ),
+    updateContributionVerification: async (contributionId, from, changes) => {
+      const row = read<ContributionDoc>('contributions', contributionId);
+      if (!row) throw new Error('Contribution not found.');
+      if (!from.includes(row.verification)) throw new Error(CONTRIBUTION_REVIEW_CHANGED);
+      update('contributions', contributionId, changes);
+      const project = read<ProjectDoc>('projects', row.projectId);
+      if (changes.verification === 'verified' && row.verification !== 'verified' && row.metricQuantity && project) {
+        update('projects', row.projectId, { impactProgress: project.impactProgress + row.metricQuantity });
+      }
+      commit();
+      return { ...row, ...changes };
+    },
+
+    sendMessage: async (threadId, fromUid, toUid, text) => {
+      write('messages', threadId, {
+        ...store.messages?.[threadId],
+        threadId,
+        members: [fromUid, toUid],
+        lastMessage: text,
+        updatedAt: new Date(),
+      });
+      write('messageEntries', newId(), { threadId, fromUid, toUid, text, createdAt: new Date() });
+      commit();
+    },
+    listThreadsPage: async (uid, request) => toPage(threadsFor(uid), request),
+
+    addNotification: (data) => add<NotificationDoc>('notifications', data),
+    listNotificationsPage: async (uid, request) => toPage(notificationsFor(uid), request),
+    markNotificationRead: async (notificationId) => {
+      if (update('notifications', notificationId, { read: true })) commit();
+    },
+
+    listEventsPage: async (request) => toPage(eventsByStart(), request),
+    getEvent: async (eventId) => read<EventDoc>('events', eventId),
+    addEvent: (data) => add<EventDoc>('events', data),
+    patchEvent: async (eventId, partial) => {
+      if (!update('events', eventId, partial)) throw new Error('Event not found.');
+      commit();
+    },
+    rsvpToEvent: async (uid, eventId) => {
+      const row = read<EventDoc>('events', eventId);
+      if (!row) throw new Error('Event not found.');
+      const placement = rsvpPlacement(row, uid);
+      if (placement === 'confirmed') {
+        update('events', eventId, { rsvps: Array.from(new Set([...row.rsvps, uid])) });
+      } else {
+        update('events', eventId, { waitlist: Array.from(new Set([...row.waitlist, uid])) });
+      }
+      commit();
+      return placement;
+    },
+    cancelRsvp: async (uid, eventId) => {
+      const row = read<EventDoc>('events', eventId);
+      if (!row) throw new Error('Event not found.');
+      const { rsvps, waitlist, promoted } = fillFromWaitlist({
+        ...row,
+        rsvps: row.rsvps.filter((id) => id !== uid),
+        waitlist: row.waitlist.filter((id) => id !== uid),
+      });
+      update('events', eventId, { rsvps, waitlist });
+      commit();
+      return promoted;
+    },
+    promoteWaitlist: async (eventId) => {
+      const row = read<EventDoc>('events', eventId);
+      if (!row) throw new Error('Event not found.');
+      const { rsvps, waitlist, promoted } = fillFromWaitlist(row);
+      if (promoted.length > 0) {
+        update('events', eventId, { rsvps, waitlist });
+        commit();
+      }
+      return promoted;
+    },
+
+    findEventByCheckInCode: async (code) => {
+      const row = read<CheckInCodeDoc>('checkInCodes', code);
+      const event = row && read<EventDoc>('events', row.eventId);
+      return event?.checkIn?.occurrenceKey === row?.occurrenceKey ? event : null;
+    },
+    getCheckInCode: async (eventId) =>
+      sortRows(checkInCodesFor(eventId), { field: 'closesAt', direction: 'desc' })[0] || null,
+    openEventCheckIn: async (eventId, code, checkIn) => {
+      checkInCodesFor(eventId).forEach((row) => remove('checkInCodes', row.id));
+      write('checkInCodes', code, { eventId, ...checkIn });
+      update('events', eventId, { checkIn });
+      commit();
+    },
+    closeEventCheckIn: async (eventId) => {
+      checkInCodesFor(eventId).forEach((row) => remove('checkInCodes', row.id));
+      update('events', eventId, { checkIn: undefined });
+      commit();
+    },
+
+    addAttendance: async (data) => {
+      const id = attendanceId(data.eventId, data.occurrenceKey, data.uid);
+      if (store.attendance?.[id]) throw new Error(ALREADY_CHECKED_IN);
+      write('attendance', id, data);
+      commit();
+      return id;
+    },
+    getAttendance: async (id) => read<AttendanceDoc>('attendance', id),
+    patchAttendance: async (id, partial) => {
+      if (!update('attendance', id, partial)) throw new Error('Attendance record not found.');
+      commit();
+    },
+    listAttendanceForEvents: async (eventIds) =>
+      readAll<AttendanceDoc>('attendance').filter((row) => eventIds.includes(row.eventId)),
+    listAttendanceForVolunteer: async (uid) => readAll<AttendanceDoc>('attendance').filter((row) => row.uid === uid),
+
+    listBadgeDefinitions: async () => sortRows(readAll<BadgeDefinitionDoc>('badgeDefinitions')),
+    saveBadgeDefinition: async (badgeId, data) => {
+      write('badgeDefinitions', badgeId, data);
+      commit();
+    },
+    listBadgeAwards: async (uid) => readAll<BadgeAwardDoc>('badges').filter((row) => row.uid === uid),
+    listBadgeAwardsForBadge: async (badgeId) =>
+      readAll<BadgeAwardDoc>('badges').filter((row) => row.badgeId === badgeId),
+    saveBadgeAward: async (data) => {
+      write('badges', badgeAwardId(data.uid, data.badgeId), data);
+      commit();
+    },
+    removeBadgeAward: async (awardId) => {
+      if (!store.badges?.[awardId]) return;
+      remove('badges', awardId);
+      commit();
+    },
+
+    getImpactScoreModel: async () => read<ImpactScoreModelDoc>('impactScoreModels', 'current'),
+    saveImpactScoreModel: async (data) => {
+      write('impactScoreModels', 'current', data);
+      commit();
+    },
+
+    addOrganization: (data) => add('organizations', data),
+    hasDocuments: async (collectionName) => Object.keys(store[collectionName] || {}).length > 0,
+
+    subscribeToUserProfile: (uid, onChange) =>
+      subscribe(() => {
+        const row = read<UserProfileDoc>('users', uid);
+        return row ? [row] : [];
+      }, onChange),
+    subscribeToContributions: (uid, onChange) => subscribe(() => contributionsFor(uid), onChange),
+    subscribeToNotifications: (uid, onChange) => subscribe(() => notificationsFor(uid), onChange),
+    subscribeToThreads: (uid, onChange) => subscribe(() => threadsFor(uid), onChange),
+    subscribeToProjectDirectory: (maxRows, onChange) =>
+      subscribe(() => sortRows(readAll<ProjectDoc>('projects')).slice(0, maxRows), onChange),
+    subscribeToMemberProjects: (uid, onChange) => subscribe(() => projectsForMember(uid), onChange),
+    subscribeToLeadProjects: (projectLeadEmail, onChange) =>
+      subscribe(() => {
+        const email = normalizeLeadEmail(projectLeadEmail);
+        return readAll<ProjectDoc>('projects').filter((row) => normalizeLeadEmail(row.projectLead) === email);
+      }, onChange),
+    subscribeToApplicantApplications: (uid, onChange) =>
+      subscribe(() => applicationsWhere((row) => row.applicantUid === uid), onChange),
+    subscribeToLeadApplications: (projectLeadEmail, onChange) =>
+      subscribe(() => applicationsWhere(isLeadRow(projectLeadEmail)), onChange),
+    subscribeToLeadTasks: (projectLeadEmail, onChange) =>
+      subscribe(() => tasksForLead(projectLeadEmail), onChange),
+    subscribeToLeadContributions: (projectLeadEmail, onChange) =>
+      subscribe(() => contributionsForLead(projectLeadEmail), onChange),
+    subscribeToEvents: (onChange) => subscribe(eventsByStart, onChange),
+    subscribeToEventAttendance: (eventId, onChange) =>
+      subscribe(() => readAll<AttendanceDoc>('attendance').filter((row) => row.eventId === eventId), onChange),
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { auth } from './firebase';
+
+// Shared HTTP plumbing for the orchestrator API (backend-a-orchestrator).
+
+export const ORCHESTRATOR_URL = process.env.NEXT_PUBLIC_ORCHESTRATOR_URL || 'http://localhost:3000';
+
+type ApiErrorResponse = {
+  message?: string;
+  error?: {
+    message?: string;
+  };
+};
+
+export async function orchestratorRequest<T>(path: string, init: RequestInit, fallback: string): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${ORCHESTRATOR_URL}${path}`, init);
+  } catch {
+    throw new Error('Could not reach the project service.');
+  }
+
+  const payload = (await response.json().catch(() => ({}))) as T & ApiErrorResponse;
+  if (!response.ok) {
+    throw new Error(payload.message || payload.error?.message || fallback);
+  }
+  return payload;
+}
+
+// JSON headers carrying the signed-in Firebase user's ID token; throws signedOutMessage otherwise.
+export async function authorizedHeaders(signedOutMessage: string) {
+  const user = auth?.currentUser;
+  if (!user) throw new Error(signedOutMessage);
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${await user.getIdToken()}`,
+  };
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { authorizedHeaders, orchestratorRequest } from './orchestratorClient';
+import {
+  assertValidProjectInput,
+  createProject,
+  getProjectsByIds,
+  updateProject,
+  type CreateProjectInput,
+  type ProjectDoc,
+  type ProjectStatus,
+} from './turknodeDb';
+
+export type { ProjectStatus } from './turknodeTypes';
+
+// Projects are shared between the orchestrator projects API (Postgres) and the dashboard data
+// store. The orchestrator owns a shared project's identity, name, description and lifecycle;
+// the dashboard document adds the volunteer-facing details (category, skills, participants).
+//
+// IDs: a shared project's dashboard document is stored under the orchestrator's UUID, so one ID
+// addresses the project on both sides. Dashboard-only projects (pilot data and projects created
+// before sharing) keep generated IDs and are never sent to the orchestrator.
+//
+// Statuses:
+//   OPEN, IN_PROGRESS -> active
+//   COMPLETED         -> completed
+//   CANCELLED         -> cancelled
+// The orchestrator status is also kept verbatim in ProjectDoc.lifecycleStatus, so OPEN and
+// IN_PROGRESS survive the round trip. Documents without it map active -> OPEN.
+
+// The orchestrator caps list requests at 50 rows.
+const SYNC_PAGE_SIZE = 50;
+const MAX_SYNCED_PROJECTS = 500;
+
+export type ProjectPreview = {
+  id: string;
+  name: string;
+  description: string;
+  status: ProjectStatus;
+  createdAt: string;
+  contactEmail?: string;
+};
+
+export type ProjectListQuery = {
+  scope?: 'active' | 'all';
+  status?: ProjectStatus;
+  limit?: number;
+  offset?: number;
+};
+
+const DASHBOARD_STATUSES: Record<ProjectStatus, ProjectDoc['status']> = {
+  OPEN: 'active',
+  IN_PROGRESS: 'active',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+};
+
+const LIFECYCLE_STATUSES: Record<ProjectDoc['status'], ProjectStatus> = {
+  active: 'OPEN',
+  completed: 'COMPLETED',
+  cancelled: 'CANCELLED',
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function toDashboardStatus(status: ProjectStatus) {
+  return DASHBOARD_STATUSES[status];
+}
+
+export function toProjectStatus(project: Pick<ProjectDoc, 'status' | 'lifecycleStatus'>): ProjectStatus {
+  return project.lifecycleStatus || LIFECYCLE_STATUSES[project.status];
+}
+
+export function isSharedProjectId(projectId: string) {
+  return UUID_PATTERN.test(projectId);
+}
+
+function managerHeaders() {
+  return authorizedHeaders('Sign in with a manager account to manage shared projects.');
+}
+
+export async function listSharedProjects(query: ProjectListQuery = {}) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const payload = await orchestratorRequest<{ data?: ProjectPreview[]; meta?: { total?: number } }>(
+    `/api/v1/projects?${params.toString()}`,
+    {},
+    'Unable to list projects.'
+  );
+  return { projects: payload.data || [], total: Number(payload.meta?.total || 0) };
+}
+
+// Registers the project with the orchestrator to get its shared ID, then creates the dashboard
+// document under that ID. If the second step fails, syncLeadProjects creates it later.
+export async function publishProject(input: CreateProjectInput) {
+  assertValidProjectInput(input);
+  const payload = await orchestratorRequest<{ projectId?: string }>(
+    '/api/v1/projects/public',
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        name: input.title.trim(),
+        description: input.description.trim(),
+        contactEmail: input.projectLead.trim() || undefined,
+        latitude: input.coordinates?.lat,
+        longitude: input.coordinates?.lng,
+      }),
+    },
+    'Unable to publish project.'
+  );
+  if (!payload.projectId) throw new Error('The project service did not return a project ID.');
+
+  return createProject(input, { projectId: payload.projectId, status: 'active', lifecycleStatus: 'OPEN' });
+}
+
+export type ProjectStatusResult = {
+  // Set when the orchestrator took the change but the dashboard copy could not follow. The copy
+  // catches up on the lead's next sync.
+  dashboardCopyError?: string;
+};
+
+export async function setProjectStatus(projectId: string, status: ProjectStatus): Promise<ProjectStatusResult> {
+  const nextFields = { status: toDashboardStatus(status), lifecycleStatus: status };
+  if (!isSharedProjectId(projectId)) {
+    await updateProject(projectId, nextFields);
+    return {};
+  }
+
+  await orchestratorRequest(
+    `/api/v1/projects/${projectId}/status`,
+    { method: 'PATCH', headers: await managerHeaders(), body: JSON.stringify({ status }) },
+    'Unable to update project status.'
+  );
+  try {
+    const [project] = await getProjectsByIds([projectId]);
+    if (project) await updateProject(projectId, nextFields);
+    return {};
+  } catch (err) {
+    return { dashboardCopyError: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+function toCreateProjectInput(preview: ProjectPreview, projectLeadEmail: string): CreateProjectInput {
+  return {
+    title: preview.name,
+    description: preview.description,
+    category: '',
+    location: '',
+    skillsRequired: [],
+    startDate: String(preview.createdAt || '').slice(0, 10),
+    endDate: '',
+    impactMetric: '',
+    projectLead: preview.contactEmail || projectLeadEmail,
+  };
+}
+
+// Brings the lead's orchestrator projects (matched on contact email) into the dashboard store:
+// missing ones are created under their shared ID, and name, description and status follow the
+// orchestrator.
+export async function syncLeadProjects(projectLeadEmail: string) {
+  const email = projectLeadEmail.trim().toLowerCase();
+  if (!email) return;
+
+  const remote: ProjectPreview[] = [];
+  for (let offset = 0; offset < MAX_SYNCED_PROJECTS; offset += SYNC_PAGE_SIZE) {
+    const page = await listSharedProjects({ scope: 'all', limit: SYNC_PAGE_SIZE, offset });
+    remote.push(...page.projects.filter((project) => (project.contactEmail || '').toLowerCase() === email));
+    if (page.projects.length < SYNC_PAGE_SIZE || offset + SYNC_PAGE_SIZE >= page.total) break;
+  }
+
+  const existing = new Map((await getProjectsByIds(remote.map((project) => project.id))).map((row) => [row.id, row]));
+  for (const project of remote) {
+    const current = existing.get(project.id);
+    if (!current) {
+      await createProject(toCreateProjectInput(project, email), {
+        projectId: project.id,
+        status: toDashboardStatus(project.status),
+        lifecycleStatus: project.status,
+      });
+    } else if (
+      current.lifecycleStatus !== project.status ||
+      current.title !== project.name ||
+      current.description !== project.description
+    ) {
+      await updateProject(project.id, {
+        title: project.name,
+        description: project.description,
+        status: toDashboardStatus(project.status),
+        lifecycleStatus: project.status,
+      });
+    }
+  }
+}
@@ -0,0 +1,323 @@
+// QR codes (ISO/IEC 18004) for short links such as event check-in URLs: byte mode at error
+// correction level M, versions 1 to 10 (up to 213 bytes). encodeQr returns the module grid
+// without the quiet zone; true is a dark module.
+
+type VersionSpec = {
+  // Error correction codewords per block.
+  ecPerBlock: number;
+  // [block count, data codewords per block] for each block group.
+  groups: Array<[number, number]>;
+};
+
+const MAX_VERSION = 10;
+
+// Level M only; index 0 is unused so versions index directly.
+const VERSIONS: VersionSpec[] = [
+  { ecPerBlock: 0, groups: [] },
+  { ecPerBlock: 10, groups: [[1, 16]] },
+  { ecPerBlock: 16, groups: [[1, 28]] },
+  { ecPerBlock: 26, groups: [[1, 44]] },
+  { ecPerBlock: 18, groups: [[2, 32]] },
+  { ecPerBlock: 24, groups: [[2, 43]] },
+  { ecPerBlock: 16, groups: [[4, 27]] },
+  { ecPerBlock: 18, groups: [[4, 31]] },
+  { ecPerBlock: 22, groups: [[2, 38], [2, 39]] },
+  { ecPerBlock: 22, groups: [[3, 36], [2, 37]] },
+  { ecPerBlock: 26, groups: [[4, 43], [1, 44]] },
+];
+
+const ALIGNMENT_CENTERS: number[][] = [
+  [],
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+// Format information uses 00 for level M.
+const LEVEL_M_BITS = 0;
+
+const GF_EXP = new Array<number>(512);
+const GF_LOG = new Array<number>(256);
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i += 1) {
+    GF_EXP[i] = value;
+    GF_LOG[value] = i;
+    value <<= 1;
+    if (value & 0x100) value ^= 0x11d;
+  }
+  for (let i = 255; i < 512; i += 1) GF_EXP[i] = GF_EXP[i - 255];
+})();
+
+function gfMultiply(a: number, b: number) {
+  return a === 0 || b === 0 ? 0 : GF_EXP[GF_LOG[a] + GF_LOG[b]];
+}
+
+// Coefficients of the Reed-Solomon generator polynomial, highest degree first.
+function rsGenerator(degree: number) {
+  let poly = [1];
+  for (let i = 0; i < degree; i += 1) {
+    const next = new Array<number>(poly.length + 1).fill(0);
+    poly.forEach((coefficient, index) => {
+      next[index] ^= coefficient;
+      next[index + 1] ^= gfMultiply(coefficient, GF_EXP[i]);
+    });
+    poly = next;
+  }
+  return poly;
+}
+
+export function reedSolomonRemainder(data: number[], degree: number) {
+  const generator = rsGenerator(degree);
+  const remainder = new Array<number>(degree).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    for (let i = 0; i < degree; i += 1) remainder[i] ^= gfMultiply(generator[i + 1], factor);
+  });
+  return remainder;
+}
+
+function dataCapacity(version: number) {
+  return VERSIONS[version].groups.reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+}
+
+function countBits(version: number) {
+  return version <= 9 ? 8 : 16;
+}
+
+function dataCodewords(bytes: Uint8Array, version: number) {
+  const capacityBits = dataCapacity(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((byte) => push(byte, 8));
+  push(0, Math.min(4, capacityBits - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+// Splits the data into blocks, adds each block's error correction and interleaves the result.
+export function interleavedCodewords(data: number[], version: number) {
+  const spec = VERSIONS[version];
+  const blocks: number[][] = [];
+  let offset = 0;
+  spec.groups.forEach(([count, size]) => {
+    for (let i = 0; i < count; i += 1) {
+      blocks.push(data.slice(offset, offset + size));
+      offset += size;
+    }
+  });
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, spec.ecPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.length));
+  for (let i = 0; i < longest; i += 1) blocks.forEach((block) => i < block.length && result.push(block[i]));
+  for (let i = 0; i < spec.ecPerBlock; i += 1) ecBlocks.forEach((block) => result.push(block[i]));
+  return result;
+}
+
+export function formatBits(mask: number) {
+  const data = (LEVEL_M_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+}
+
+export function versionBits(version: number) {
+  let remainder = version;
+  for (let i = 0; i < 12; i += 1) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+class QrGrid {
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+    this.reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  }
+
+  setFunction(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+}
+
+function drawFunctionPatterns(grid: QrGrid, version: number) {
+  const { size } = grid;
+  for (let i = 0; i < size; i += 1) {
+    grid.setFunction(6, i, i % 2 === 0);
+    grid.setFunction(i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their light separators.
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x < 0 || y < 0 || x >= size || y >= size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        grid.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+
+  const centers = ALIGNMENT_CENTERS[version];
+  centers.forEach((cy, row) =>
+    centers.forEach((cx, column) => {
+      const last = centers.length - 1;
+      if ((row === 0 && column === 0) || (row === 0 && column === last) || (row === last && column === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) grid.setFunction(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    })
+  );
+
+  // Reserve the format areas; drawFormat fills them once the mask is chosen.
+  drawFormat(grid, 0);
+
+  if (version >= 7) {
+    const bits = versionBits(version);
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      grid.setFunction(a, b, dark);
+      grid.setFunction(b, a, dark);
+    }
+  }
+}
+
+function drawFormat(grid: QrGrid, mask: number) {
+  const { size } = grid;
+  const bits = formatBits(mask);
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  for (let i = 0; i <= 5; i += 1) grid.setFunction(8, i, bit(i));
+  grid.setFunction(8, 7, bit(6));
+  grid.setFunction(8, 8, bit(7));
+  grid.setFunction(7, 8, bit(8));
+  for (let i = 9; i < 15; i += 1) grid.setFunction(14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i += 1) grid.setFunction(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i += 1) grid.setFunction(8, size - 15 + i, bit(i));
+  grid.setFunction(8, size - 8, true);
+}
+
+// Places the codewords in the two-column zigzag from the bottom-right corner. Modules left over
+// after the last codeword are the light remainder bits.
+function drawCodewords(grid: QrGrid, codewords: number[]) {
+  const { size } = grid;
+  let index = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (grid.reserved[y][x]) continue;
+        grid.modules[y][x] = index < codewords.length * 8 && ((codewords[index >>> 3] >>> (7 - (index & 7))) & 1) === 1;
+        index += 1;
+      }
+    }
+  }
+}
+
+function applyMask(grid: QrGrid, mask: number) {
+  const test = MASKS[mask];
+  for (let y = 0; y < grid.size; y += 1) {
+    for (let x = 0; x < grid.size; x += 1) {
+      if (!grid.reserved[y][x] && test(x, y)) grid.modules[y][x] = !grid.modules[y][x];
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true],
+];
+
+// The standard mask penalty: long runs, 2x2 blocks, finder look-alikes and dark/light balance.
+function penalty(modules: boolean[][]) {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])),
+  ];
+  lines.forEach((line) => {
+    let run = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+      } else {
+        if (run >= 5) score += 3 + (run - 5);
+        run = 1;
+      }
+    }
+    for (let i = 0; i + 11 <= size; i += 1) {
+      if (FINDER_LIKE.some((pattern) => pattern.every((dark, k) => line[i + k] === dark))) score += 40;
+    }
+  });
+  for (let y = 0; y + 1 < size; y += 1) {
+    for (let x = 0; x + 1 < size; x += 1) {
+      const dark = modules[y][x];
+      if (modules[y][x + 1] === dark && modules[y + 1][x] === dark && modules[y + 1][x + 1] === dark) score += 3;
+    }
+  }
+  const total = size * size;
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  score += (Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+export function encodeQr(text: string): boolean[][] {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= MAX_VERSION && 4 + countBits(version) + bytes.length * 8 > dataCapacity(version) * 8) version += 1;
+  if (version > MAX_VERSION) throw new Error('Text is too long for a QR code.');
+
+  const codewords = interleavedCodewords(dataCodewords(bytes, version), version);
+  let best: { modules: boolean[][]; score: number } | null = null;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const grid = new QrGrid(17 + version * 4);
+    drawFunctionPatterns(grid, version);
+    drawCodewords(grid, codewords);
+    applyMask(grid, mask);
+    drawFormat(grid, mask);
+    const score = penalty(grid.modules);
+    if (!best || score < best.score) best = { modules: grid.modules, score };
+  }
+  return (best as { modules: boolean[][] }).modules;
+}
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { normalizeLeadEmail } from './turknodeRepository';
+import type { BadgeAwardDoc, ContributionDoc, ProjectDoc, UserProfileDoc } from './turknodeTypes';
+
+// Service transcripts: a volunteer's verified hours by project, with the project lead and
+// badges, as proof of service for schools and employers. The dashboard builds the transcript,
+// /api/transcripts signs it, and /transcripts/verify/<token> shows whether a token is authentic.
+// Transcripts are plain JSON (dates as yyyy-mm-dd strings) so they sign and round-trip exactly.
+
+export type TranscriptProject = {
+  projectId: string;
+  title: string;
+  // The project lead's contact email.
+  lead: string;
+  hours: number;
+  contributions: number;
+  firstDate: string;
+  lastDate: string;
+};
+
+export type TranscriptBadge = {
+  name: string;
+  earnedOn?: string;
+};
+
+export type ServiceTranscript = {
+  volunteerUid: string;
+  volunteerName: string;
+  // Set by the signing route.
+  issuedAt: string;
+  totalHours: number;
+  projects: TranscriptProject[];
+  badges: TranscriptBadge[];
+};
+
+const dateText = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const serviceTranscriptSchema: z.ZodType<ServiceTranscript> = z.object({
+  volunteerUid: z.string().trim().min(1).max(128),
+  volunteerName: z.string().trim().min(1).max(120),
+  issuedAt: z.string().max(40),
+  totalHours: z.number().min(0),
+  projects: z
+    .array(
+      z.object({
+        projectId: z.string().max(128),
+        title: z.string().max(200),
+        lead: z.string().max(200),
+        hours: z.number().min(0),
+        contributions: z.number().int().min(0),
+        firstDate: dateText,
+        lastDate: dateText,
+      })
+    )
+    .max(200),
+  badges: z.array(z.object({ name: z.string().max(120), earnedOn: dateText.optional() })).max(100),
+});
+
+function day(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+// Whether the contribution was verified by the lead of its project. firestore.rules only let the
+// lead set reviewedBy, so this holds for hours no volunteer could have verified themselves.
+// Contributions verified before reviews were recorded have no reviewedBy and are left out.
+export function isLeadVerified(row: ContributionDoc, project: ProjectDoc | undefined) {
+  const lead = normalizeLeadEmail(project?.projectLead || '');
+  return row.verification === 'verified' && Boolean(lead) && normalizeLeadEmail(row.reviewedBy || '') === lead;
+}
+
+// Only lead-verified contributions count; projects maps IDs to the projects they were logged on.
+export function buildServiceTranscript(
+  profile: Pick<UserProfileDoc, 'uid' | 'displayName'>,
+  contributions: ContributionDoc[],
+  projects: ProjectDoc[],
+  awards: BadgeAwardDoc[]
+): ServiceTranscript {
+  const projectById = new Map(projects.map((project) => [project.id, project]));
+  const byProject = new Map<string, TranscriptProject>();
+
+  contributions
+    .filter((row) => row.createdAt && isLeadVerified(row, projectById.get(row.projectId)))
+    .sort((a, b) => (a.createdAt as Date).getTime() - (b.createdAt as Date).getTime())
+    .forEach((row) => {
+      const loggedOn = day(row.createdAt as Date);
+      const project = projectById.get(row.projectId);
+      const entry = byProject.get(row.projectId) || {
+        projectId: row.projectId,
+        title: project?.title || row.projectTitle || 'Project',
+        lead: project?.projectLead || '',
+        hours: 0,
+        contributions: 0,
+        firstDate: loggedOn,
+        lastDate: loggedOn,
+      };
+      entry.hours += Number(row.hours || 0);
+      entry.contributions += 1;
+      entry.lastDate = loggedOn;
+      byProject.set(row.projectId, entry);
+    });
+
+  const rows = Array.from(byProject.values())
+    .map((entry) => ({ ...entry, hours: round(entry.hours) }))
+    .sort((a, b) => a.firstDate.localeCompare(b.firstDate));
+
+  return {
+    volunteerUid: profile.uid,
+    volunteerName: profile.displayName || 'TurkNode Volunteer',
+    issuedAt: '',
+    totalHours: round(rows.reduce((sum, entry) => sum + entry.hours, 0)),
+    projects: rows,
+    badges: awards
+      .slice()
+      .sort((a, b) => (a.earnedAt?.getTime() || 0) - (b.earnedAt?.getTime() || 0))
+      .map((award) => (award.earnedAt ? { name: award.name, earnedOn: day(award.earnedAt) } : { name: award.name })),
+  };
+}
+
+// The short code printed on a transcript; it is the start of the signature, so it changes
+// whenever any detail of the transcript does.
+export function formatVerificationCode(signature: string) {
+  const letters = signature.replace(/[^a-zA-Z0-9]/g, '').slice(0, 12).toUpperCase();
+  return letters.match(/.{1,4}/g)?.join('-') || letters;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// A standalone page for the print dialog; "Save as PDF" produces the PDF.
+export function transcriptToHtml(transcript: ServiceTranscript, code: string, verifyUrl: string) {
+  const projectRows = transcript.projects.length
+    ? transcript.projects
+        .map(
+          (entry) =>
+            `<tr><td>${escapeHtml(entry.title)}</td><td>${escapeHtml(entry.lead)}</td><td>${entry.firstDate} to ${
+              entry.lastDate
+            }</td><td class="num">${entry.hours}</td></tr>`
+        )
+        .join('')
+    : '<tr><td colspan="4" class="empty">No verified hours yet.</td></tr>';
+  const badges = transcript.badges.length
+    ? `<ul>${transcript.badges
+        .map((badge) => `<li>${escapeHtml(badge.name)}${badge.earnedOn ? ` (${badge.earnedOn})` : ''}</li>`)
+        .join('')}</ul>`
+    : '<p>No badges yet.</p>';
+  return `<!doctype html><html><head><meta charset="utf-8"><title>Service transcript: ${escapeHtml(
+    transcript.volunteerName
+  )}</title><style>
+body{font-family:system-ui,sans-serif;color:#0f172a;margin:40px}
+h1{font-size:24px;margin:0}h2{font-size:15px;margin:24px 0 8px}
+p,li{font-size:12px;color:#334155;margin:4px 0}
+table{width:100%;border-collapse:collapse;font-size:12px}
+th,td{border:1px solid #cbd5e1;padding:5px 6px;text-align:left}
+th{background:#f1f5f9}td.num{text-align:right}td.empty{color:#64748b}
+.verify{margin-top:28px;border:1px solid #cbd5e1;border-radius:8px;padding:10px 12px}
+.code{font-family:ui-monospace,monospace;font-size:16px;font-weight:700;letter-spacing:1px}
+.url{word-break:break-all;font-size:10px}
+@media print{body{margin:0}tr{break-inside:avoid}}
+</style></head><body><h1>Volunteer Service Transcript</h1><p><strong>${escapeHtml(
+    transcript.volunteerName
+  )}</strong></p><p>Issued ${escapeHtml(transcript.issuedAt.slice(0, 10))} by TurkNode. Only hours verified by a project lead are listed.</p>
+<h2>Verified service</h2><table><thead><tr><th>Project</th><th>Project lead</th><th>Dates</th><th>Hours</th></tr></thead><tbody>${projectRows}</tbody>
+<tfoot><tr><th colspan="3">Total verified hours</th><th class="num">${transcript.totalHours}</th></tr></tfoot></table>
+<h2>Badges</h2>${badges}
+<div class="verify"><p>Verification code</p><p class="code">${escapeHtml(code)}</p><p>Confirm this transcript at:</p><p class="url">${escapeHtml(
+    verifyUrl
+  )}</p></div></body></html>`;
+}
@@ -0,0 +1,137 @@
+import type { ContributionDoc, ProjectDoc, TaskDoc } from './turknodeTypes';
+
+// Time bucketing for the lead dashboard charts. Buckets are calendar weeks (starting Monday) or
+// calendar months in UTC, so a chart reads the same for every viewer.
+
+export type BucketSize = 'week' | 'month';
+
+export type MomentumMetric = 'contributions' | 'hours' | 'newVolunteers' | 'completedTasks';
+
+export const MOMENTUM_METRICS: Array<{ id: MomentumMetric; label: string }> = [
+  { id: 'hours', label: 'Verified hours' },
+  { id: 'contributions', label: 'Contributions logged' },
+  { id: 'newVolunteers', label: 'New volunteers' },
+  { id: 'completedTasks', label: 'Completed tasks' },
+];
+
+export type TimeBucket = {
+  start: Date;
+  label: string;
+  value: number;
+};
+
+export type MomentumData = {
+  contributions: ContributionDoc[];
+  tasks: TaskDoc[];
+  projects: ProjectDoc[];
+};
+
+export type MomentumFilters = {
+  metric: MomentumMetric;
+  size: BucketSize;
+  from: Date;
+  // Exclusive.
+  to: Date;
+  projectId?: string;
+  category?: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export function bucketStart(date: Date, size: BucketSize) {
+  if (size === 'month') return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay is 0 on Sunday; step back to Monday.
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+}
+
+function nextBucket(start: Date, size: BucketSize) {
+  if (size === 'month') return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  return new Date(start.getTime() + 7 * DAY_MS);
+}
+
+function bucketLabel(start: Date, size: BucketSize) {
+  const month = MONTH_LABELS[start.getUTCMonth()];
+  return size === 'month' ? `${month} ${start.getUTCFullYear()}` : `${month} ${start.getUTCDate()}`;
+}
+
+// Every bucket that overlaps [from, to), oldest first, with a value of zero.
+export function emptyBuckets(from: Date, to: Date, size: BucketSize): TimeBucket[] {
+  const buckets: TimeBucket[] = [];
+  for (let start = bucketStart(from, size); start < to; start = nextBucket(start, size)) {
+    buckets.push({ start, label: bucketLabel(start, size), value: 0 });
+  }
+  return buckets;
+}
+
+// Sums valueOf(row) into the bucket containing dateOf(row); rows without a date or outside
+// [from, to) are skipped.
+export function bucketize<T>(
+  rows: T[],
+  dateOf: (row: T) => Date | undefined,
+  valueOf: (row: T) => number,
+  from: Date,
+  to: Date,
+  size: BucketSize
+): TimeBucket[] {
+  const buckets = emptyBuckets(from, to, size);
+  const byStart = new Map(buckets.map((bucket) => [bucket.start.getTime(), bucket]));
+  rows.forEach((row) => {
+    const date = dateOf(row);
+    if (!date || date < from || date >= to) return;
+    const bucket = byStart.get(bucketStart(date, size).getTime());
+    if (bucket) bucket.value += valueOf(row);
+  });
+  return buckets.map((bucket) => ({ ...bucket, value: Math.round(bucket.value * 10) / 10 }));
+}
+
+// The first contribution of each volunteer across the given rows: when they became active.
+function firstContributions(rows: ContributionDoc[]) {
+  const first = new Map<string, ContributionDoc>();
+  rows.forEach((row) => {
+    const current = first.get(row.uid);
+    if (row.createdAt && (!current?.createdAt || row.createdAt < current.createdAt)) first.set(row.uid, row);
+  });
+  return Array.from(first.values());
+}
+
+// One chart series. Hours count verified contributions only, new volunteers are bucketed by
+// their first contribution to the filtered projects, and completed tasks by when they were last
+// updated (the moment they were marked done).
+export function momentumSeries(data: MomentumData, filters: MomentumFilters): TimeBucket[] {
+  const category = (filters.category || '').trim().toLowerCase();
+  const projectIds = new Set(
+    data.projects
+      .filter((project) => !filters.projectId || project.id === filters.projectId)
+      .filter((project) => !category || project.category.trim().toLowerCase() === category)
+      .map((project) => project.id)
+  );
+  const contributions = data.contributions.filter((row) => projectIds.has(row.projectId));
+  const { from, to, size } = filters;
+
+  if (filters.metric === 'hours') {
+    return bucketize(
+      contributions.filter((row) => row.verification === 'verified'),
+      (row) => row.createdAt,
+      (row) => Number(row.hours || 0),
+      from,
+      to,
+      size
+    );
+  }
+  if (filters.metric === 'newVolunteers') {
+    return bucketize(firstContributions(contributions), (row) => row.createdAt, () => 1, from, to, size);
+  }
+  if (filters.metric === 'completedTasks') {
+    return bucketize(
+      data.tasks.filter((task) => task.status === 'done' && projectIds.has(task.projectId)),
+      (task) => task.updatedAt || task.createdAt,
+      () => 1,
+      from,
+      to,
+      size
+    );
+  }
+  return bucketize(contributions, (row) => row.createdAt, () => 1, from, to, size);
+}
@@ -0,0 +1,84 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { serverGet, serverQuery } from './firestoreServer';
+import {
+  buildServiceTranscript,
+  formatVerificationCode,
+  serviceTranscriptSchema,
+  type ServiceTranscript,
+} from './serviceTranscript';
+import type { BadgeAwardDoc, ContributionDoc, ProjectDoc, UserProfileDoc } from './turknodeTypes';
+
+// Server-only. A transcript token is `<base64url JSON>.<base64url HMAC-SHA256>`, signed with
+// TRANSCRIPT_SIGNING_SECRET. Tokens are self-contained, so verifying one needs no database:
+// any change to the transcript, or a signature made with another secret, fails verification.
+// The transcript itself is built here from Firestore, never from data the browser sends, and
+// counts only hours the project lead verified (see isLeadVerified).
+
+export type SignedTranscript = {
+  token: string;
+  code: string;
+};
+
+function signingSecret() {
+  const secret = process.env.TRANSCRIPT_SIGNING_SECRET || '';
+  if (secret.length < 32) {
+    throw new Error('Transcript signing secret is missing or shorter than 32 characters.');
+  }
+  return secret;
+}
+
+function sign(payload: string) {
+  return createHmac('sha256', signingSecret()).update(payload).digest('base64url');
+}
+
+export function signTranscript(transcript: ServiceTranscript): SignedTranscript {
+  const payload = Buffer.from(JSON.stringify(transcript), 'utf8').toString('base64url');
+  const signature = sign(payload);
+  return { token: `${payload}.${signature}`, code: formatVerificationCode(signature) };
+}
+
+// The volunteer's transcript as of now, read with the service account.
+export async function loadServiceTranscript(uid: string): Promise<ServiceTranscript> {
+  const [profile, contributions, awards] = await Promise.all([
+    serverGet<UserProfileDoc>('users', uid),
+    serverQuery<ContributionDoc>('contributions', {
+      where: [
+        { field: 'uid', op: 'EQUAL', value: uid },
+        { field: 'verification', op: 'EQUAL', value: 'verified' },
+      ],
+    }),
+    serverQuery<BadgeAwardDoc>('badges', { where: [{ field: 'uid', op: 'EQUAL', value: uid }] }),
+  ]);
+  if (!profile) throw new Error('Volunteer profile not found.');
+  const projects = await Promise.all(
+    Array.from(new Set(contributions.map((row) => row.projectId))).map((projectId) =>
+      serverGet<ProjectDoc>('projects', projectId)
+    )
+  );
+  return {
+    ...buildServiceTranscript(
+      profile,
+      contributions,
+      projects.filter((project): project is ProjectDoc => Boolean(project)),
+      awards
+    ),
+    issuedAt: new Date().toISOString(),
+  };
+}
+
+// Returns null for tokens that are malformed or were not signed with the current secret.
+export function verifyTranscriptToken(token: string): { transcript: ServiceTranscript; code: string } | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const parsed = serviceTranscriptSchema.safeParse(JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')));
+    return parsed.success ? { transcript: parsed.data, code: formatVerificationCode(signature) } : null;
+  } catch {
+    return null;
+  }
+}
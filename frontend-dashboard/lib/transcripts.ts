@@ -0,0 +1,44 @@
+'use client';
+
+import { auth } from './firebase';
+import type { ServiceTranscript } from './serviceTranscript';
+
+// Issues a signed service transcript for the signed-in volunteer through /api/transcripts,
+// which builds the transcript from their verified contributions on the server.
+
+export type IssuedTranscript = {
+  transcript: ServiceTranscript;
+  code: string;
+  // Public page that confirms the transcript.
+  verifyUrl: string;
+};
+
+export async function issueServiceTranscript(): Promise<IssuedTranscript> {
+  const user = auth?.currentUser;
+  if (!user) throw new Error('Sign in with your TurkNode account to download a signed transcript.');
+
+  let response: Response;
+  try {
+    response = await fetch('/api/transcripts', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+    });
+  } catch {
+    throw new Error('Network error while signing your transcript.');
+  }
+  const payload = (await response.json().catch(() => ({}))) as {
+    transcript?: ServiceTranscript;
+    token?: string;
+    code?: string;
+    error?: string;
+  };
+  if (!response.ok || !payload.transcript || !payload.token || !payload.code) {
+    throw new Error(payload.error || 'Unable to sign your transcript.');
+  }
+
+  return {
+    transcript: payload.transcript,
+    code: payload.code,
+    verifyUrl: `${window.location.origin}/transcripts/verify/${payload.token}`,
+  };
+}
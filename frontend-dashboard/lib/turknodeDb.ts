@@ -1,489 +1,472 @@
 'use client';
 
-import { auth } from './firebase';
-
-export type UserProfileDoc = {
-  uid: string;
-  email: string;
-  displayName: string;
-  photoUrl?: string;
-  role: 'volunteer' | 'manager' | 'organization';
-  bio: string;
-  location: string;
-  interests: string[];
-  skills: string[];
-  availableForProjects: boolean;
-  hoursContributed: number;
-  completedProjects: number;
-  impactScore: number;
-  badgesEarned: string[];
-  notificationPrefs: {
-    projectInvites: boolean;
-    milestones: boolean;
-    badges: boolean;
-    messages: boolean;
-  };
-  profileCompletion: number;
-};
+import {
+  DEFAULT_BADGE_DEFINITIONS,
+  assertValidBadgeDefinition,
+  badgeLabel,
+  evaluateBadge,
+  type BadgeActivity,
+  type BadgeEvaluation,
+} from './badgeRules';
+import { findOccurrence, isValidTimeZone, occurrenceKey } from './eventRecurrence';
+import { firestoreRepository } from './firestoreRepository';
+import { DEFAULT_IMPACT_SCORE_MODEL, computeImpactScore, type ImpactScore } from './impactScore';
+import { createMemoryRepository } from './memoryRepository';
+import {
+  EVENT_CANCELLED,
+  MAX_PAGE_SIZE,
+  badgeAwardId,
+  normalizeLeadEmail,
+  type ChangeListener,
+  type ErrorListener,
+  type MessageThreadDoc,
+  type Page,
+  type PageRequest,
+  type TurknodeRepository,
+} from './turknodeRepository';
+import type {
+  ApplicationDoc,
+  AttendanceDoc,
+  AttendanceMethod,
+  BadgeAwardDoc,
+  BadgeDefinitionDoc,
+  CheckInCodeDoc,
+  ContributionDoc,
+  ContributionVerification,
+  CreateProjectInput,
+  EventCheckIn,
+  EventDoc,
+  EventRecurrence,
+  GeoPoint,
+  ImpactScoreModelDoc,
+  NotificationDoc,
+  ProjectDoc,
+  ProjectJoinPolicy,
+  TaskDoc,
+  UserProfileDoc,
+} from './turknodeTypes';
+
+export * from './turknodeTypes';
+export {
+  DEFAULT_PAGE_SIZE,
+  distanceKm,
+  normalizeLeadEmail,
+  type Page,
+  type PageRequest,
+  type RsvpStatus,
+  type Unsubscribe,
+} from './turknodeRepository';
+export { describeInvalidDocument, onInvalidDocument, type InvalidDocumentReport } from './turknodeSchemas';
+
+// NEXT_PUBLIC_DATA_BACKEND picks where dashboard data lives: 'firestore' (the default),
+// 'memory' for a store that lasts as long as the page, or 'local' for one kept in localStorage.
+export type DataBackend = 'firestore' | 'memory' | 'local';
+
+function resolveDataBackend(value: string | undefined): DataBackend {
+  if (!value || value === 'firestore') return 'firestore';
+  if (value === 'memory' || value === 'local') return value;
+  throw new Error(`Unknown NEXT_PUBLIC_DATA_BACKEND "${value}"; use firestore, memory or local.`);
+}
 
-export type ProjectDoc = {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  location: string;
-  skillsRequired: string[];
-  startDate: string;
-  endDate: string;
-  impactMetric: string;
-  status: 'active' | 'completed';
-  participants: string[];
-  participantCount: number;
-  projectLead: string;
-  organizationId?: string;
-  rolesOpen?: number;
-  pilotData?: boolean;
-};
+export const dataBackend = resolveDataBackend(process.env.NEXT_PUBLIC_DATA_BACKEND);
 
-export type OrganizationDoc = {
-  id: string;
-  name: string;
-  contactEmail: string;
-  region: string;
-  missionFocus: string[];
-  verified: boolean;
-  createdAt?: string;
-};
+const LOCAL_STORAGE_KEY = 'turknode:data';
 
-export type CreateProjectInput = {
-  title: string;
-  description: string;
-  category: string;
-  location: string;
-  skillsRequired: string[];
-  startDate: string;
-  endDate: string;
-  impactMetric: string;
-  projectLead: string;
-};
+const repository: TurknodeRepository =
+  dataBackend === 'firestore'
+    ? firestoreRepository
+    : createMemoryRepository(dataBackend === 'local' ? { storageKey: LOCAL_STORAGE_KEY } : {});
 
-export type ContributionDoc = {
-  id: string;
-  uid: string;
-  projectId: string;
-  projectTitle: string;
-  hours: number;
-  notes: string;
-  completedTask: boolean;
-  createdAt?: string;
-};
+// What a volunteer supplies when logging hours; review fields are set by the workflow below.
+export type NewContribution = Omit<
+  ContributionDoc,
+  'id' | 'verification' | 'verificationNote' | 'volunteerResponse' | 'reviewedBy' | 'reviewedAt' | 'createdAt'
+>;
 
-export type NotificationDoc = {
-  id: string;
-  uid: string;
-  type: 'invite' | 'milestone' | 'badge' | 'message' | 'system';
-  title: string;
-  body: string;
-  read: boolean;
-  createdAt?: string;
-};
+export type ContributionDecision = Exclude<ContributionVerification, 'pending'>;
 
-export type EventDoc = {
-  id: string;
-  title: string;
-  location: string;
-  startsAt: string;
-  category: string;
-  rsvps: string[];
-  projectId?: string;
-  type?: 'meeting' | 'training' | 'community';
-  organizerUid?: string;
-};
-
-export type ApplicationDoc = {
-  id: string;
-  projectId: string;
-  projectTitle: string;
-  applicantUid: string;
-  applicantName: string;
-  applicantEmail: string;
-  availability: string;
-  message: string;
-  skillsMatch: number;
-  state: 'pending' | 'saved' | 'accepted' | 'rejected';
-  createdAt?: string;
-  projectLeadEmail: string;
-};
+export async function collectAllPages<T>(fetchPage: (request: PageRequest) => Promise<Page<T>>) {
+  const items: T[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: Page<T> = await fetchPage({ pageSize: MAX_PAGE_SIZE, cursor });
+    items.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return items;
+}
 
-export type TaskDoc = {
-  id: string;
-  projectId: string;
-  projectTitle: string;
-  title: string;
-  assignedVolunteerUid: string;
-  assignedVolunteerName: string;
-  dueDate: string;
-  priority: 'low' | 'medium' | 'high';
-  status: 'todo' | 'in_progress' | 'done' | 'overdue';
-  createdAt?: string;
-  updatedAt?: string;
-  projectLeadEmail: string;
-};
+export async function upsertUserProfile(uid: string, data: Partial<UserProfileDoc>) {
+  await repository.upsertUserProfile(uid, data);
+}
 
-const BADGES = {
-  HOURS_100: '100 Hours Badge',
-  COMMUNITY_BUILDER: 'Community Builder',
-  EDUCATION_ADVOCATE: 'Education Advocate',
-  SUSTAINABILITY_CHAMPION: 'Sustainability Champion',
-  FIRST_PROJECT: 'First Project Completed',
-} as const;
-
-const PROJECT_ID = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || '';
-const API_KEY = process.env.NEXT_PUBLIC_FIREBASE_API_KEY || '';
-const FIRESTORE_BASE = `https://firestore.googleapis.com/v1/projects/${PROJECT_ID}/databases/(default)/documents`;
-
-function calcProfileCompletion(profile: Partial<UserProfileDoc>) {
-  const checks = [
-    profile.photoUrl,
-    profile.displayName,
-    profile.bio,
-    profile.location,
-    profile.interests && profile.interests.length > 0,
-    profile.skills && profile.skills.length > 0,
-    typeof profile.availableForProjects === 'boolean',
-  ];
-  const done = checks.filter(Boolean).length;
-  return Math.round((done / checks.length) * 100);
-}
-
-type FsValue =
-  | { stringValue: string }
-  | { integerValue: string }
-  | { doubleValue: number }
-  | { booleanValue: boolean }
-  | { arrayValue: { values: FsValue[] } }
-  | { mapValue: { fields: Record<string, FsValue> } }
-  | { nullValue: null };
-
-function toFsValue(value: unknown): FsValue {
-  if (value === null || value === undefined) return { nullValue: null };
-  if (typeof value === 'string') return { stringValue: value };
-  if (typeof value === 'boolean') return { booleanValue: value };
-  if (typeof value === 'number') {
-    if (Number.isInteger(value)) return { integerValue: String(value) };
-    return { doubleValue: value };
-  }
-  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFsValue) } };
-  if (typeof value === 'object') {
-    const fields: Record<string, FsValue> = {};
-    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => {
-      fields[k] = toFsValue(v);
-    });
-    return { mapValue: { fields } };
-  }
-  return { stringValue: String(value) };
-}
-
-function fromFsValue(value: any): any {
-  if (!value) return null;
-  if ('stringValue' in value) return value.stringValue;
-  if ('integerValue' in value) return Number(value.integerValue);
-  if ('doubleValue' in value) return Number(value.doubleValue);
-  if ('booleanValue' in value) return Boolean(value.booleanValue);
-  if ('nullValue' in value) return null;
-  if ('arrayValue' in value) return (value.arrayValue.values || []).map(fromFsValue);
-  if ('mapValue' in value) {
-    const output: Record<string, unknown> = {};
-    Object.entries(value.mapValue.fields || {}).forEach(([k, v]) => {
-      output[k] = fromFsValue(v);
-    });
-    return output;
-  }
-  if ('timestampValue' in value) return value.timestampValue;
-  return null;
+export async function getUserProfile(uid: string) {
+  return repository.getUserProfile(uid);
 }
 
-function mapFromFsDocument<T>(doc: any): T & { id: string } {
-  const id = String(doc.name || '').split('/').pop() || '';
-  const fields = doc.fields || {};
-  const data: Record<string, unknown> = {};
-  Object.entries(fields).forEach(([k, v]) => {
-    data[k] = fromFsValue(v);
-  });
-  return { id, ...(data as T) };
+export async function listProjectsPage(request: PageRequest = {}) {
+  return repository.listProjectsPage(request);
 }
 
-function toFsFields(data: Record<string, unknown>) {
-  const fields: Record<string, FsValue> = {};
-  Object.entries(data).forEach(([k, v]) => {
-    fields[k] = toFsValue(v);
-  });
-  return { fields };
+export async function listProjects() {
+  return collectAllPages((request) => listProjectsPage(request));
 }
 
-async function getIdToken() {
-  if (!auth) throw new Error('Firebase auth is unavailable.');
-  const user = auth.currentUser;
-  if (!user) throw new Error('Not authenticated.');
-  return user.getIdToken();
+export async function listProjectsForMember(uid: string) {
+  return repository.listProjectsForMember(uid);
 }
 
-async function fsFetch(path: string, init: RequestInit = {}) {
-  if (!PROJECT_ID || !API_KEY) {
-    throw new Error('Firebase project env vars missing for Firestore.');
-  }
+export async function getProjectsByIds(projectIds: string[]) {
+  return repository.getProjectsByIds(projectIds);
+}
 
-  const token = await getIdToken();
-  const url = `${FIRESTORE_BASE}${path}${path.includes('?') ? '&' : '?'}key=${API_KEY}`;
-  const res = await fetch(url, {
-    ...init,
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${token}`,
-      ...(init.headers || {}),
-    },
-  });
+export async function listVolunteersPage(request: PageRequest = {}) {
+  return repository.listVolunteersPage(request);
+}
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Firestore request failed (${res.status}): ${body}`);
-  }
+export async function listVolunteers() {
+  return collectAllPages((request) => listVolunteersPage(request));
+}
 
-  return res.json();
+export async function listApplicationsForLeadPage(projectLeadEmail: string, request: PageRequest = {}) {
+  return repository.listApplicationsForLeadPage(projectLeadEmail, request);
 }
 
-async function getDocument<T>(collectionName: string, docId: string): Promise<(T & { id: string }) | null> {
-  try {
-    const data = await fsFetch(`/${collectionName}/${docId}`);
-    return mapFromFsDocument<T>(data);
-  } catch {
-    return null;
-  }
+export async function listApplicationsForLead(projectLeadEmail: string) {
+  return collectAllPages((request) => listApplicationsForLeadPage(projectLeadEmail, request));
 }
 
-async function setDocument(collectionName: string, docId: string, data: Record<string, unknown>) {
-  await fsFetch(`/${collectionName}/${docId}`, {
-    method: 'PATCH',
-    body: JSON.stringify(toFsFields(data)),
-  });
+export type ApplicationDecision = Extract<ApplicationDoc['state'], 'accepted' | 'rejected'>;
+
+// Moves an application between pending and saved; decisions go through reviewApplication.
+export async function updateApplicationState(
+  applicationId: string,
+  state: Exclude<ApplicationDoc['state'], ApplicationDecision>
+) {
+  await repository.updateApplicationState(applicationId, state);
 }
 
-async function addDocument(collectionName: string, data: Record<string, unknown>) {
-  const result = await fsFetch(`/${collectionName}`, {
-    method: 'POST',
-    body: JSON.stringify(toFsFields(data)),
+export type ApplicationReviewOptions = {
+  // Shared with the volunteer in the decision notification.
+  note?: string;
+  // Assigns the project's onboardingTasks to an accepted volunteer.
+  createOnboardingTasks?: boolean;
+};
+
+// Onboarding tasks are due this many days after the volunteer is accepted.
+const ONBOARDING_TASK_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A lead's decision on a pending or saved application. Accepting adds the volunteer to the
+// project, optionally assigns the onboarding tasks and opens a message thread with the lead;
+// every decision is sent to the volunteer as a notification. Returns the number of tasks created.
+export async function reviewApplication(
+  applicationId: string,
+  decision: ApplicationDecision,
+  reviewer: { uid: string; email: string },
+  options: ApplicationReviewOptions = {}
+) {
+  const note = options.note?.trim() || '';
+  const row = await repository.decideApplication(applicationId, {
+    state: decision,
+    ...(note ? { decisionNote: note } : {}),
+    reviewedBy: reviewer.email,
+    reviewedAt: new Date(),
   });
-  return mapFromFsDocument<Record<string, unknown>>(result).id;
-}
+  const volunteerUid = row.applicantUid;
+  const projectTitle = row.projectTitle || 'the project';
+
+  if (decision === 'rejected') {
+    await addNotification(
+      volunteerUid,
+      'system',
+      'Application not accepted',
+      note ? `${projectTitle}: ${note}` : `Your application to ${projectTitle} was not accepted this time.`
+    );
+    return 0;
+  }
 
-async function listCollection<T>(collectionName: string): Promise<Array<T & { id: string }>> {
-  const result = await fsFetch(`/${collectionName}`);
-  const docs = result.documents || [];
-  return docs.map((doc: any) => mapFromFsDocument<T>(doc));
-}
+  let taskTitles: string[] = [];
+  if (options.createOnboardingTasks) {
+    const [project] = await repository.getProjectsByIds([row.projectId]);
+    taskTitles = project?.onboardingTasks || [];
+    const dueDate = new Date(Date.now() + ONBOARDING_TASK_DAYS * DAY_MS).toISOString().slice(0, 10);
+    await Promise.all(
+      taskTitles.map((title) =>
+        repository.addTask({
+          projectId: row.projectId,
+          projectTitle: row.projectTitle,
+          title,
+          assignedVolunteerUid: volunteerUid,
+          assignedVolunteerName: row.applicantName,
+          dueDate,
+          priority: 'medium',
+          status: 'todo',
+          createdAt: new Date(),
+          updatedAt: new Date(),
+          projectLeadEmail: normalizeLeadEmail(row.projectLeadEmail),
+        })
+      )
+    );
+  }
 
-async function deleteDocument(collectionName: string, docId: string) {
-  await fsFetch(`/${collectionName}/${docId}`, { method: 'DELETE' });
+  await addNotification(
+    volunteerUid,
+    'invite',
+    'Application accepted',
+    note ? `Welcome to ${projectTitle}! ${note}` : `Welcome to ${projectTitle}! You are now on the team.`
+  );
+  const welcome = [
+    `Welcome to ${projectTitle}!`,
+    note,
+    taskTitles.length > 0
+      ? `I added ${taskTitles.length} onboarding ${taskTitles.length === 1 ? 'task' : 'tasks'} to get you started.`
+      : '',
+    'Reply here with any questions.',
+  ]
+    .filter(Boolean)
+    .join(' ');
+  // The same thread the volunteer dashboard uses for direct messages between the two.
+  await repository.sendMessage([reviewer.uid, volunteerUid].sort().join('_'), reviewer.uid, volunteerUid, welcome);
+  return taskTitles.length;
 }
 
-export async function upsertUserProfile(uid: string, data: Partial<UserProfileDoc>) {
-  const existing = await getDocument<UserProfileDoc>('users', uid);
-  const merged: UserProfileDoc = {
-    uid,
-    role: 'volunteer',
-    email: data.email || existing?.email || '',
-    displayName: data.displayName || existing?.displayName || 'TurkNode Volunteer',
-    photoUrl: data.photoUrl || existing?.photoUrl || '',
-    bio: data.bio || existing?.bio || '',
-    location: data.location || existing?.location || '',
-    interests: data.interests || existing?.interests || [],
-    skills: data.skills || existing?.skills || [],
-    availableForProjects: data.availableForProjects ?? existing?.availableForProjects ?? true,
-    hoursContributed: data.hoursContributed ?? existing?.hoursContributed ?? 0,
-    completedProjects: data.completedProjects ?? existing?.completedProjects ?? 0,
-    impactScore: data.impactScore ?? existing?.impactScore ?? 0,
-    badgesEarned: data.badgesEarned || existing?.badgesEarned || [],
-    notificationPrefs: data.notificationPrefs ||
-      existing?.notificationPrefs || {
-        projectInvites: true,
-        milestones: true,
-        badges: true,
-        messages: true,
-      },
-    profileCompletion: 0,
-  };
-  merged.profileCompletion = calcProfileCompletion(merged);
-  await setDocument('users', uid, merged as unknown as Record<string, unknown>);
+// Percentage of the required skills the volunteer lists, compared case-insensitively. Projects
+// that require no particular skills match everyone.
+export function computeSkillsMatch(volunteerSkills: string[], skillsRequired: string[]) {
+  const required = Array.from(new Set(skillsRequired.map((skill) => skill.trim().toLowerCase()).filter(Boolean)));
+  if (required.length === 0) return 100;
+  const skills = new Set(volunteerSkills.map((skill) => skill.trim().toLowerCase()));
+  return Math.round((required.filter((skill) => skills.has(skill)).length / required.length) * 100);
 }
 
-export async function getUserProfile(uid: string) {
-  return getDocument<UserProfileDoc>('users', uid);
-}
+export type ApplicationInput = {
+  availability: string;
+  message: string;
+};
 
-export async function listProjects() {
-  return listCollection<ProjectDoc>('projects');
+// Applies to a project that takes applications; the lead sees it in their applications queue.
+export async function applyToProject(uid: string, projectId: string, input: ApplicationInput) {
+  const availability = input.availability.trim();
+  const message = input.message.trim();
+  if (!availability) throw new Error('Tell the project lead when you are available.');
+  if (message.length < 20) throw new Error('Add a message of at least 20 characters about why you want to join.');
+
+  const [[project], profile] = await Promise.all([repository.getProjectsByIds([projectId]), getUserProfile(uid)]);
+  if (!project) throw new Error('Project not found.');
+  if (project.status !== 'active') throw new Error('This project is no longer accepting volunteers.');
+  if (project.participants.includes(uid)) throw new Error('You are already on this project.');
+  if (project.joinPolicy !== 'application') throw new Error('This project is open to everyone. Join it directly.');
+
+  return repository.submitApplication({
+    projectId,
+    projectTitle: project.title,
+    applicantUid: uid,
+    applicantName: profile?.displayName || 'Volunteer',
+    applicantEmail: profile?.email || '',
+    availability,
+    message,
+    skillsMatch: computeSkillsMatch(profile?.skills || [], project.skillsRequired),
+    state: 'pending',
+    createdAt: new Date(),
+    projectLeadEmail: normalizeLeadEmail(project.projectLead),
+  });
 }
 
-export async function listVolunteers() {
-  const all = await listCollection<UserProfileDoc>('users');
-  return all.filter((user) => user.role === 'volunteer');
+export async function setProjectJoinPolicy(projectId: string, joinPolicy: ProjectJoinPolicy) {
+  await repository.patchProject(projectId, { joinPolicy });
 }
 
-export async function listApplicationsForLead(projectLeadEmail: string) {
-  const all = await listCollection<ApplicationDoc>('applications');
-  const normalized = projectLeadEmail.trim().toLowerCase();
-  return all
-    .filter((application) => (application.projectLeadEmail || '').trim().toLowerCase() === normalized)
-    .sort((a, b) => String(b.createdAt || '').localeCompare(String(a.createdAt || '')));
-}
-
-export async function updateApplicationState(applicationId: string, state: ApplicationDoc['state']) {
-  const row = await getDocument<ApplicationDoc>('applications', applicationId);
-  if (!row) throw new Error('Application not found.');
-  await setDocument('applications', applicationId, {
-    ...row,
-    state,
-  });
+export async function listTasksForLeadPage(projectLeadEmail: string, request: PageRequest = {}) {
+  return repository.listTasksForLeadPage(projectLeadEmail, request);
 }
 
 export async function listTasksForLead(projectLeadEmail: string) {
-  const all = await listCollection<TaskDoc>('tasks');
-  const normalized = projectLeadEmail.trim().toLowerCase();
-  return all
-    .filter((task) => (task.projectLeadEmail || '').trim().toLowerCase() === normalized)
-    .sort((a, b) => String(a.dueDate || '').localeCompare(String(b.dueDate || '')));
+  return collectAllPages((request) => listTasksForLeadPage(projectLeadEmail, request));
 }
 
 export async function updateTaskStatus(taskId: string, status: TaskDoc['status']) {
-  const row = await getDocument<TaskDoc>('tasks', taskId);
-  if (!row) throw new Error('Task not found.');
-  await setDocument('tasks', taskId, {
-    ...row,
-    status,
-    updatedAt: new Date().toISOString(),
-  });
+  await repository.updateTaskStatus(taskId, status);
+}
+
+type CreateProjectOptions = {
+  // Create the document under this ID, e.g. the orchestrator ID of a shared project.
+  projectId?: string;
+  status?: ProjectDoc['status'];
+  lifecycleStatus?: ProjectDoc['lifecycleStatus'];
+};
+
+export function assertValidImpactTarget(target: number | undefined) {
+  if (target !== undefined && (!Number.isFinite(target) || target <= 0)) {
+    throw new Error('Impact target must be a positive number.');
+  }
 }
 
-export async function createProject(input: CreateProjectInput) {
+export function assertValidProjectInput(input: CreateProjectInput) {
+  if (input.title.trim().length < 3) throw new Error('Project title must be at least 3 characters.');
+  if (input.description.trim().length < 20) throw new Error('Project description must be at least 20 characters.');
+  assertValidImpactTarget(input.impactTarget);
+}
+
+export async function createProject(input: CreateProjectInput, options: CreateProjectOptions = {}) {
+  assertValidProjectInput(input);
   const title = input.title.trim();
   const description = input.description.trim();
-  if (title.length < 3) throw new Error('Project title must be at least 3 characters.');
-  if (description.length < 20) throw new Error('Project description must be at least 20 characters.');
 
-  const id = await addDocument('projects', {
-    title,
-    description,
-    category: input.category.trim() || 'Community',
-    location: input.location.trim() || 'Remote',
-    skillsRequired: input.skillsRequired.filter(Boolean),
-    startDate: input.startDate,
-    endDate: input.endDate,
-    impactMetric: input.impactMetric.trim() || 'Community members supported',
-    status: 'active',
-    participants: [],
-    participantCount: 0,
-    projectLead: input.projectLead.trim(),
-  });
+  const id = await repository.addProject(
+    {
+      title,
+      description,
+      category: input.category.trim() || 'Community',
+      location: input.location.trim() || 'Remote',
+      skillsRequired: input.skillsRequired.filter(Boolean),
+      startDate: input.startDate,
+      endDate: input.endDate,
+      impactMetric: input.impactMetric.trim() || 'Community members supported',
+      ...(input.impactTarget ? { impactTarget: input.impactTarget } : {}),
+      impactProgress: 0,
+      status: options.status || 'active',
+      joinPolicy: input.joinPolicy || 'open',
+      onboardingTasks: (input.onboardingTasks || []).map((task) => task.trim()).filter(Boolean),
+      participants: [],
+      participantCount: 0,
+      projectLead: normalizeLeadEmail(input.projectLead),
+      ...(input.coordinates ? { coordinates: input.coordinates } : {}),
+      ...(options.lifecycleStatus ? { lifecycleStatus: options.lifecycleStatus } : {}),
+    },
+    options.projectId
+  );
 
   return id;
 }
 
+export async function updateProject(projectId: string, partial: Partial<Omit<ProjectDoc, 'id'>>) {
+  await repository.patchProject(projectId, partial);
+}
+
+export async function setProjectImpactTarget(projectId: string, impactTarget: number) {
+  assertValidImpactTarget(impactTarget);
+  await repository.patchProject(projectId, { impactTarget });
+}
+
+export async function listProjectsNear(center: GeoPoint, radiusKm: number) {
+  return repository.listProjectsNear(center, radiusKm);
+}
+
 export async function joinProject(uid: string, projectId: string) {
-  const project = await getDocument<ProjectDoc>('projects', projectId);
-  if (!project) throw new Error('Project not found.');
-  const participants = Array.from(new Set([...(project.participants || []), uid]));
-  await setDocument('projects', projectId, {
-    ...project,
-    participants,
-    participantCount: participants.length,
-  });
-  await setDocument('memberships', `${uid}_${projectId}`, {
-    uid,
-    projectId,
-    status: 'active',
-    joinedAt: new Date().toISOString(),
-  });
+  const project = await repository.joinProject(uid, projectId);
   await addNotification(uid, 'invite', 'Joined project', `You joined ${project.title}.`);
 }
 
 export async function leaveProject(uid: string, projectId: string) {
-  const project = await getDocument<ProjectDoc>('projects', projectId);
-  if (!project) return;
-  const participants = (project.participants || []).filter((id) => id !== uid);
-  await setDocument('projects', projectId, {
-    ...project,
-    participants,
-    participantCount: participants.length,
-  });
-  await setDocument('memberships', `${uid}_${projectId}`, {
-    uid,
-    projectId,
-    status: 'left',
-    leftAt: new Date().toISOString(),
-  });
+  await repository.leaveProject(uid, projectId);
 }
 
 export async function saveProject(uid: string, projectId: string) {
-  await setDocument('saved', `${uid}_${projectId}`, {
-    uid,
-    projectId,
-    savedAt: new Date().toISOString(),
-  });
+  await repository.saveProject(uid, projectId);
 }
 
 export async function unsaveProject(uid: string, projectId: string) {
-  await deleteDocument('saved', `${uid}_${projectId}`);
+  await repository.unsaveProject(uid, projectId);
 }
 
 export async function getSavedProjectIds(uid: string) {
-  const all = await listCollection<{ uid: string; projectId: string }>('saved');
-  return all.filter((d) => d.uid === uid).map((d) => d.projectId);
+  return repository.getSavedProjectIds(uid);
 }
 
-export async function logContribution(payload: Omit<ContributionDoc, 'id'>) {
-  const id = await addDocument('contributions', {
+// Hours start out pending; they are credited once the project lead verifies them.
+export async function logContribution(payload: NewContribution) {
+  const [[project], profile] = await Promise.all([
+    repository.getProjectsByIds([payload.projectId]),
+    getUserProfile(payload.uid),
+  ]);
+  const projectLeadEmail = payload.projectLeadEmail || project?.projectLead;
+  const id = await repository.addContribution({
     ...payload,
-    createdAt: new Date().toISOString(),
+    volunteerName: payload.volunteerName || profile?.displayName,
+    projectLeadEmail: projectLeadEmail ? normalizeLeadEmail(projectLeadEmail) : undefined,
+    verification: 'pending',
+    createdAt: new Date(),
   });
-  const profile = await getUserProfile(payload.uid);
-  if (profile) {
-    await upsertUserProfile(payload.uid, {
-      hoursContributed: Number((profile.hoursContributed + payload.hours).toFixed(1)),
-      impactScore: Math.round(profile.impactScore + payload.hours * 0.8),
-    });
-  }
   return id;
 }
 
+const DECISION_NOTIFICATIONS: Record<ContributionDecision, { type: NotificationDoc['type']; title: string }> = {
+  verified: { type: 'milestone', title: 'Hours verified' },
+  rejected: { type: 'system', title: 'Hours not verified' },
+  needs_info: { type: 'system', title: 'More information needed' },
+};
+
+// Records a lead's decision on a pending contribution, and nothing else; see impactLedger's
+// reviewContribution.
+export async function decideContribution(
+  contributionId: string,
+  decision: ContributionDecision,
+  reviewer: string,
+  note = ''
+) {
+  if (decision !== 'verified' && !note.trim()) {
+    throw new Error('Add a note so the volunteer knows what to change.');
+  }
+  return repository.updateContributionVerification(contributionId, ['pending'], {
+    verification: decision,
+    verificationNote: note.trim(),
+    reviewedBy: reviewer,
+    reviewedAt: new Date(),
+  });
+}
+
+// What follows a recorded decision: verified hours are credited to the volunteer's badges, and
+// every decision is sent to the volunteer as a notification.
+export async function announceContributionDecision(row: ContributionDoc, decision: ContributionDecision, note = '') {
+  if (decision === 'verified') await evaluateAndAwardBadges(row.uid);
+
+  const { type, title } = DECISION_NOTIFICATIONS[decision];
+  const summary = `${row.hours}h on ${row.projectTitle || 'your project'}`;
+  await addNotification(row.uid, type, title, note.trim() ? `${summary}: ${note.trim()}` : `${summary} now count toward your impact.`);
+}
+
+// The volunteer's answer to a needs_info decision, which puts the contribution back in the queue.
+export async function resubmitContribution(uid: string, contribution: ContributionDoc, response: string) {
+  if (contribution.uid !== uid) throw new Error('You can only update your own contributions.');
+  if (!response.trim()) throw new Error('Add the details the project lead asked for.');
+  await repository.updateContributionVerification(contribution.id, ['needs_info'], {
+    verification: 'pending',
+    volunteerResponse: response.trim(),
+  });
+}
+
+export async function listContributionsPage(uid: string, request: PageRequest = {}) {
+  return repository.listContributionsPage(uid, request);
+}
+
 export async function listContributions(uid: string) {
-  const all = await listCollection<ContributionDoc>('contributions');
-  return all
-    .filter((d) => d.uid === uid)
-    .sort((a, b) => String(b.createdAt || '').localeCompare(String(a.createdAt || '')));
+  return collectAllPages((request) => listContributionsPage(uid, request));
+}
+
+export async function listContributionsForLeadPage(
+  projectLeadEmail: string,
+  request: PageRequest = {},
+  verification?: ContributionVerification
+) {
+  return repository.listContributionsForLeadPage(projectLeadEmail, request, verification);
+}
+
+export async function listContributionsForLead(projectLeadEmail: string, verification?: ContributionVerification) {
+  return collectAllPages((request) => listContributionsForLeadPage(projectLeadEmail, request, verification));
 }
 
 export async function sendMessage(threadId: string, fromUid: string, toUid: string, text: string) {
-  await setDocument('messages', threadId, {
-    threadId,
-    members: [fromUid, toUid],
-    lastMessage: text,
-    updatedAt: new Date().toISOString(),
-  });
-  await addDocument('messageEntries', {
-    threadId,
-    fromUid,
-    toUid,
-    text,
-    createdAt: new Date().toISOString(),
-  });
+  await repository.sendMessage(threadId, fromUid, toUid, text);
   await addNotification(toUid, 'message', 'New message', text.slice(0, 120));
 }
 
+export async function listThreadsPage(uid: string, request: PageRequest = {}) {
+  return repository.listThreadsPage(uid, request);
+}
+
 export async function listThreads(uid: string) {
-  const all = await listCollection<Record<string, unknown>>('messages');
-  return all
-    .filter((d) => Array.isArray(d.members) && (d.members as string[]).includes(uid))
-    .sort((a, b) => String(b.updatedAt || '').localeCompare(String(a.updatedAt || '')));
+  return collectAllPages((request) => listThreadsPage(uid, request));
 }
 
 export async function addNotification(
@@ -492,105 +475,635 @@ export async function addNotification(
   title: string,
   body: string
 ) {
-  await addDocument('notifications', {
+  await repository.addNotification({
     uid,
     type,
     title,
     body,
     read: false,
-    createdAt: new Date().toISOString(),
+    createdAt: new Date(),
   });
 }
 
+export async function listNotificationsPage(uid: string, request: PageRequest = {}) {
+  return repository.listNotificationsPage(uid, request);
+}
+
 export async function listNotifications(uid: string) {
-  const all = await listCollection<NotificationDoc>('notifications');
-  return all
-    .filter((d) => d.uid === uid)
-    .sort((a, b) => String(b.createdAt || '').localeCompare(String(a.createdAt || '')));
+  return collectAllPages((request) => listNotificationsPage(uid, request));
 }
 
 export async function markNotificationRead(notificationId: string) {
-  const notification = await getDocument<NotificationDoc>('notifications', notificationId);
-  if (!notification) return;
-  await setDocument('notifications', notificationId, {
-    ...notification,
-    read: true,
-  });
+  await repository.markNotificationRead(notificationId);
 }
 
 export async function toggleAvailability(uid: string, availableForProjects: boolean) {
-  const profile = await getUserProfile(uid);
-  if (!profile) throw new Error('Profile missing.');
-  await upsertUserProfile(uid, {
-    ...profile,
-    availableForProjects,
-  });
+  await repository.patchUserProfile(uid, { availableForProjects });
 }
 
 export async function updateNotificationPrefs(uid: string, prefs: UserProfileDoc['notificationPrefs']) {
-  const profile = await getUserProfile(uid);
-  if (!profile) throw new Error('Profile missing.');
-  await upsertUserProfile(uid, {
-    ...profile,
-    notificationPrefs: prefs,
-  });
+  await repository.patchUserProfile(uid, { notificationPrefs: prefs });
+}
+
+export async function listEventsPage(request: PageRequest = {}) {
+  return repository.listEventsPage(request);
 }
 
 export async function listEvents() {
-  const all = await listCollection<EventDoc>('events');
-  return all.sort((a, b) => String(a.startsAt).localeCompare(String(b.startsAt)));
+  return collectAllPages((request) => listEventsPage(request));
 }
 
+// Full events put the volunteer on the waitlist instead; the result says which happened.
 export async function rsvpToEvent(uid: string, eventId: string) {
-  const event = await getDocument<EventDoc>('events', eventId);
+  return repository.rsvpToEvent(uid, eventId);
+}
+
+async function notifyPromoted(event: EventDoc, promoted: string[]) {
+  await Promise.all(
+    promoted.map((uid) =>
+      addNotification(
+        uid,
+        'system',
+        `You're in: ${event.title}`,
+        `A spot opened up for ${event.title} on ${event.startsAt.toLocaleString()}, and your RSVP is now confirmed.`
+      )
+    )
+  );
+}
+
+// Withdraws the volunteer's RSVP or waitlist spot. A freed spot goes to the first waitlisted
+// volunteer, who is notified.
+export async function cancelRsvp(uid: string, eventId: string) {
+  const event = await repository.getEvent(eventId);
+  if (!event) throw new Error('Event not found.');
+  const promoted = await repository.cancelRsvp(uid, eventId);
+  await notifyPromoted(event, promoted);
+}
+
+// What a project lead supplies when creating or editing an event.
+export type EventInput = {
+  title: string;
+  description: string;
+  type: NonNullable<EventDoc['type']>;
+  projectId?: string;
+  category: string;
+  location: string;
+  startsAt: Date;
+  endsAt?: Date;
+  capacity?: number;
+  // Skipped dates are managed separately, with skipEventOccurrence.
+  recurrence?: Omit<EventRecurrence, 'exceptions'>;
+};
+
+// rsvpCount is the number of volunteers already attending; capacity cannot drop below it.
+export function assertValidEventInput(input: EventInput, rsvpCount = 0) {
+  if (input.title.trim().length < 3) throw new Error('Event title must be at least 3 characters.');
+  if (!input.location.trim()) throw new Error('Add a location, or "Remote" for online events.');
+  if (Number.isNaN(input.startsAt.getTime())) throw new Error('Choose when the event starts.');
+  if (input.endsAt && (Number.isNaN(input.endsAt.getTime()) || input.endsAt <= input.startsAt)) {
+    throw new Error('The event must end after it starts.');
+  }
+  if (input.capacity !== undefined) {
+    if (!Number.isInteger(input.capacity) || input.capacity <= 0) throw new Error('Capacity must be a whole number above zero.');
+    if (input.capacity < rsvpCount) {
+      throw new Error(`Capacity cannot be below the ${rsvpCount} volunteers who already RSVPed.`);
+    }
+  }
+  if (input.recurrence) {
+    const { interval, until, timeZone } = input.recurrence;
+    if (!Number.isInteger(interval) || interval < 1 || interval > 52) {
+      throw new Error('Repeat every 1 to 52 days, weeks or months.');
+    }
+    if (until && (Number.isNaN(until.getTime()) || until < input.startsAt)) {
+      throw new Error('The repeat end date must be on or after the first event.');
+    }
+    if (!isValidTimeZone(timeZone)) throw new Error(`Unknown time zone "${timeZone}".`);
+  }
+}
+
+function eventFields(input: EventInput) {
+  return {
+    title: input.title.trim(),
+    description: input.description.trim(),
+    type: input.type,
+    projectId: input.projectId || '',
+    category: input.category.trim() || 'Community',
+    location: input.location.trim(),
+    startsAt: input.startsAt,
+    endsAt: input.endsAt,
+    capacity: input.capacity,
+    recurrence: input.recurrence ? { ...input.recurrence, exceptions: [] as string[] } : undefined,
+  };
+}
+
+function sameSchedule(a: EventRecurrence | undefined, b: EventRecurrence | undefined) {
+  if (!a || !b) return a === b;
+  return (
+    a.frequency === b.frequency &&
+    a.interval === b.interval &&
+    a.timeZone === b.timeZone &&
+    a.until?.getTime() === b.until?.getTime()
+  );
+}
+
+export async function createEvent(organizerUid: string, input: EventInput) {
+  assertValidEventInput(input);
+  return repository.addEvent({
+    ...eventFields(input),
+    rsvps: [],
+    waitlist: [],
+    status: 'scheduled',
+    organizerUid,
+    updatedAt: new Date(),
+  });
+}
+
+// The changes attendees need to hear about, e.g. "New time: ...".
+function describeEventChanges(before: EventDoc, after: ReturnType<typeof eventFields>) {
+  const changes: string[] = [];
+  if (before.startsAt.getTime() !== after.startsAt.getTime() || before.endsAt?.getTime() !== after.endsAt?.getTime()) {
+    changes.push(`New time: ${after.startsAt.toLocaleString()}${after.endsAt ? ` to ${after.endsAt.toLocaleString()}` : ''}.`);
+  }
+  if (before.location !== after.location) changes.push(`New location: ${after.location}.`);
+  if (before.title !== after.title) changes.push(`Now called "${after.title}".`);
+  if (before.description !== after.description) changes.push('The event details were updated.');
+  if (!sameSchedule(before.recurrence, after.recurrence)) changes.push('The repeat schedule changed.');
+  return changes;
+}
+
+// Waitlisted volunteers hear about changes too, since they may still get a spot.
+async function notifyAttendees(event: EventDoc, title: string, body: string) {
+  await Promise.all([...event.rsvps, ...event.waitlist].map((uid) => addNotification(uid, 'system', title, body)));
+}
+
+// Attendees are notified when the time, place, name or details change.
+export async function updateEvent(eventId: string, input: EventInput) {
+  const existing = await repository.getEvent(eventId);
+  if (!existing) throw new Error('Event not found.');
+  if (existing.status === 'cancelled') throw new Error('Cancelled events cannot be edited.');
+  assertValidEventInput(input, existing.rsvps.length);
+
+  const fields = eventFields(input);
+  // Skipped dates are kept while the series keeps its first date and rule; otherwise they may
+  // no longer line up with any occurrence.
+  if (
+    fields.recurrence &&
+    existing.recurrence &&
+    existing.startsAt.getTime() === fields.startsAt.getTime() &&
+    sameSchedule(existing.recurrence, { ...fields.recurrence, until: existing.recurrence.until })
+  ) {
+    fields.recurrence.exceptions = existing.recurrence.exceptions;
+  }
+  await repository.patchEvent(eventId, { ...fields, updatedAt: new Date() });
+  const changes = describeEventChanges(existing, fields);
+  if (changes.length > 0) {
+    await notifyAttendees(existing, `Event updated: ${fields.title}`, changes.join(' '));
+  }
+  // Raising or removing the capacity opens spots for the waitlist.
+  if (existing.waitlist.length > 0 && (!fields.capacity || fields.capacity > (existing.capacity || 0))) {
+    await notifyPromoted({ ...existing, ...fields }, await repository.promoteWaitlist(eventId));
+  }
+}
+
+export async function cancelEvent(eventId: string, reason = '') {
+  const existing = await repository.getEvent(eventId);
+  if (!existing) throw new Error('Event not found.');
+  if (existing.status === 'cancelled') return;
+  await repository.patchEvent(eventId, { status: 'cancelled', updatedAt: new Date() });
+  await notifyAttendees(
+    existing,
+    `Event cancelled: ${existing.title}`,
+    `${existing.title} on ${existing.startsAt.toLocaleString()} has been cancelled.${reason.trim() ? ` ${reason.trim()}` : ''}`
+  );
+}
+
+// Skips one date of a repeating event; key is the occurrence's key from eventRecurrence.
+export async function skipEventOccurrence(eventId: string, key: string) {
+  const existing = await repository.getEvent(eventId);
+  if (!existing) throw new Error('Event not found.');
+  if (!existing.recurrence) throw new Error('Only repeating events have dates to skip.');
+  if (existing.recurrence.exceptions.includes(key)) return;
+  const startsAt = new Date(key);
+  if (Number.isNaN(startsAt.getTime()) || occurrenceKey(startsAt) !== key) throw new Error('Unknown event date.');
+
+  await repository.patchEvent(eventId, {
+    recurrence: { ...existing.recurrence, exceptions: [...existing.recurrence.exceptions, key] },
+    updatedAt: new Date(),
+  });
+  await notifyAttendees(
+    existing,
+    `Event date cancelled: ${existing.title}`,
+    `${existing.title} on ${startsAt.toLocaleString()} will not take place. Later dates are unchanged.`
+  );
+}
+
+const CHECK_IN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CHECK_IN_CODE_LENGTH = 6;
+// Self check-in stays open this long after the event ends, or after it is opened late.
+const CHECK_IN_GRACE_MS = 2 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+function newCheckInCode() {
+  const values = crypto.getRandomValues(new Uint32Array(CHECK_IN_CODE_LENGTH));
+  return Array.from(values, (value) => CHECK_IN_CODE_ALPHABET[value % CHECK_IN_CODE_ALPHABET.length]).join('');
+}
+
+// Codes are shown in capitals without separators; what volunteers type is matched loosely.
+export function normalizeCheckInCode(code: string) {
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+async function getCheckInOccurrence(eventId: string, key: string) {
+  const event = await repository.getEvent(eventId);
   if (!event) throw new Error('Event not found.');
-  const rsvps = Array.from(new Set([...(event.rsvps || []), uid]));
-  await setDocument('events', eventId, {
-    ...event,
-    rsvps,
+  if (event.status === 'cancelled') throw new Error(EVENT_CANCELLED);
+  const occurrence = findOccurrence(event, key);
+  if (!occurrence) throw new Error('Unknown event date.');
+  return { event, occurrence };
+}
+
+// The code of the event's open check-in for the lead to display, or null when none is open.
+export async function getOpenCheckIn(eventId: string, now = new Date()) {
+  const [event, code] = await Promise.all([repository.getEvent(eventId), repository.getCheckInCode(eventId)]);
+  if (!event?.checkIn || !code || event.checkIn.closesAt <= now) return null;
+  return code.occurrenceKey === event.checkIn.occurrenceKey ? code : null;
+}
+
+// Opens volunteer self check-in for one date of an event. Reopening the same date while it is
+// open keeps the code already on display; opening another date replaces it.
+export async function openCheckIn(eventId: string, key: string, now = new Date()): Promise<CheckInCodeDoc> {
+  const { occurrence } = await getCheckInOccurrence(eventId, key);
+  const open = await getOpenCheckIn(eventId, now);
+  if (open?.occurrenceKey === key) return open;
+
+  const endsAt = occurrence.endsAt || new Date(occurrence.startsAt.getTime() + HOUR_MS);
+  const checkIn: EventCheckIn = {
+    occurrenceKey: key,
+    closesAt: new Date(Math.max(endsAt.getTime(), now.getTime()) + CHECK_IN_GRACE_MS),
+  };
+  const code = newCheckInCode();
+  await repository.openEventCheckIn(eventId, code, checkIn);
+  return { id: code, eventId, ...checkIn };
+}
+
+export async function closeCheckIn(eventId: string) {
+  await repository.closeEventCheckIn(eventId);
+}
+
+async function recordAttendance(
+  event: EventDoc,
+  key: string,
+  uid: string,
+  method: AttendanceMethod,
+  checkedInBy?: string
+) {
+  const profile = await getUserProfile(uid);
+  return repository.addAttendance({
+    eventId: event.id,
+    occurrenceKey: key,
+    uid,
+    volunteerName: profile?.displayName || 'Volunteer',
+    method,
+    checkedInAt: new Date(),
+    checkedInBy,
   });
 }
 
+// A volunteer checking in with the code shown at the event. Volunteers who did not RSVP can
+// check in too; they count as walk-ins.
+export async function checkInWithCode(uid: string, code: string, now = new Date()) {
+  const normalized = normalizeCheckInCode(code);
+  if (!normalized) throw new Error('Enter the check-in code shown at the event.');
+  const event = await repository.findEventByCheckInCode(normalized);
+  if (!event?.checkIn || event.status === 'cancelled') throw new Error('That check-in code is not valid.');
+  if (event.checkIn.closesAt <= now) throw new Error('Check-in for this event has closed.');
+  await recordAttendance(event, event.checkIn.occurrenceKey, uid, 'code');
+  return event;
+}
+
+// The organizer checking in a volunteer, e.g. one without a phone.
+export async function checkInAttendee(eventId: string, key: string, uid: string, organizerUid: string) {
+  const { event } = await getCheckInOccurrence(eventId, key);
+  return recordAttendance(event, key, uid, 'manual', organizerUid);
+}
+
+// Attendance records and the contributions they are credited as; see impactLedger's
+// creditAttendanceHours.
+export async function getAttendance(attendanceId: string) {
+  return repository.getAttendance(attendanceId);
+}
+
+export async function recordAttendanceCredit(
+  attendanceId: string,
+  credit: Pick<AttendanceDoc, 'contributionId'> | Pick<AttendanceDoc, 'creditedHours'>
+) {
+  await repository.patchAttendance(attendanceId, credit);
+}
+
+export async function getContribution(contributionId: string) {
+  return repository.getContribution(contributionId);
+}
+
+export async function getEvent(eventId: string) {
+  return repository.getEvent(eventId);
+}
+
+export async function listAttendanceForEvents(eventIds: string[]) {
+  return eventIds.length > 0 ? repository.listAttendanceForEvents(eventIds) : [];
+}
+
+export function subscribeToEventAttendance(
+  eventId: string,
+  onChange: ChangeListener<AttendanceDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToEventAttendance(eventId, onChange, onError);
+}
+
+export function subscribeToUserProfile(
+  uid: string,
+  onChange: ChangeListener<UserProfileDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToUserProfile(uid, onChange, onError);
+}
+
+export function subscribeToContributions(
+  uid: string,
+  onChange: ChangeListener<ContributionDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToContributions(uid, onChange, onError);
+}
+
+export function subscribeToNotifications(
+  uid: string,
+  onChange: ChangeListener<NotificationDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToNotifications(uid, onChange, onError);
+}
+
+export function subscribeToThreads(
+  uid: string,
+  onChange: ChangeListener<MessageThreadDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToThreads(uid, onChange, onError);
+}
+
+export function subscribeToProjectDirectory(
+  maxRows: number,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToProjectDirectory(maxRows, onChange, onError);
+}
+
+export function subscribeToMemberProjects(
+  uid: string,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToMemberProjects(uid, onChange, onError);
+}
+
+export function subscribeToLeadProjects(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ProjectDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToLeadProjects(projectLeadEmail, onChange, onError);
+}
+
+export function subscribeToApplicantApplications(
+  uid: string,
+  onChange: ChangeListener<ApplicationDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToApplicantApplications(uid, onChange, onError);
+}
+
+export function subscribeToLeadApplications(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ApplicationDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToLeadApplications(projectLeadEmail, onChange, onError);
+}
+
+export function subscribeToLeadTasks(
+  projectLeadEmail: string,
+  onChange: ChangeListener<TaskDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToLeadTasks(projectLeadEmail, onChange, onError);
+}
+
+export function subscribeToLeadContributions(
+  projectLeadEmail: string,
+  onChange: ChangeListener<ContributionDoc>,
+  onError?: ErrorListener
+) {
+  return repository.subscribeToLeadContributions(projectLeadEmail, onChange, onError);
+}
+
+export function subscribeToEvents(onChange: ChangeListener<EventDoc>, onError?: ErrorListener) {
+  return repository.subscribeToEvents(onChange, onError);
+}
+
+// What a program manager supplies for a badge; see lib/badgeRules for how it is evaluated.
+export type BadgeDefinitionInput = Omit<BadgeDefinitionDoc, 'id' | 'updatedAt'>;
+
+const BADGE_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export async function listBadgeDefinitions() {
+  return repository.listBadgeDefinitions();
+}
+
+export async function listBadgeAwards(uid: string) {
+  return repository.listBadgeAwards(uid);
+}
+
+function sameTime(a: Date | undefined, b: Date | undefined) {
+  return (a?.getTime() || 0) === (b?.getTime() || 0);
+}
+
+// All of the volunteer's contributions, plus the badge activity: verified contributions, their
+// project categories and the events the volunteer was checked in to, once per attended date.
+async function loadVolunteerActivity(uid: string) {
+  const [contributions, attendance] = await Promise.all([
+    listContributions(uid),
+    repository.listAttendanceForVolunteer(uid),
+  ]);
+  const [projects, events] = await Promise.all([
+    getProjectsByIds(Array.from(new Set(contributions.map((row) => row.projectId)))),
+    Promise.all(Array.from(new Set(attendance.map((row) => row.eventId)), (eventId) => repository.getEvent(eventId))),
+  ]);
+  const eventsById = new Map(
+    events.filter((event): event is EventDoc => Boolean(event)).map((event) => [event.id, event])
+  );
+  const activity: BadgeActivity = {
+    contributions: contributions.filter((row) => row.verification === 'verified'),
+    projectCategories: Object.fromEntries(projects.map((project) => [project.id, project.category])),
+    attendedEvents: attendance
+      .map((row) => eventsById.get(row.eventId))
+      .filter((event): event is EventDoc => Boolean(event) && event?.status !== 'cancelled'),
+  };
+  return { contributions, activity };
+}
+
+export async function getImpactScoreModel() {
+  return (await repository.getImpactScoreModel()) || DEFAULT_IMPACT_SCORE_MODEL;
+}
+
+// Replaces the impact score model. Volunteers' stored scores follow on their next evaluation
+// (sign-in or a verified contribution); breakdowns use the new model immediately.
+export async function saveImpactScoreModel(model: ImpactScoreModelDoc) {
+  const weights = [
+    ...Object.values(model.impactTypeWeights),
+    ...Object.values(model.verificationMultipliers),
+    ...Object.values(model.categoryWeights),
+    model.recencyHalfLifeDays,
+  ];
+  if (weights.some((value) => !Number.isFinite(value) || value < 0)) {
+    throw new Error('Impact score weights must be zero or positive numbers.');
+  }
+  if (!(model.recencyFloor >= 0 && model.recencyFloor <= 1)) {
+    throw new Error('The recency floor must be between 0 and 1.');
+  }
+  await repository.saveImpactScoreModel({ ...model, updatedAt: new Date() });
+}
+
+// One badge as the volunteer sees it: the definition, how far along they are, and their award.
+export type BadgeCatalogEntry = {
+  definition: BadgeDefinitionDoc;
+  evaluation: BadgeEvaluation;
+  award: BadgeAwardDoc | null;
+};
+
+export type VolunteerImpact = {
+  // Every active badge, plus retired badges the volunteer still holds, in definition order.
+  badgeCatalog: BadgeCatalogEntry[];
+  // The impact score with the points each contribution adds, newest first.
+  impactBreakdown: ImpactScore;
+};
+
+// The badge catalog and score breakdown, both from one read of the volunteer's activity.
+export async function getVolunteerImpact(uid: string): Promise<VolunteerImpact> {
+  const [definitions, awards, { contributions, activity }, model] = await Promise.all([
+    repository.listBadgeDefinitions(),
+    repository.listBadgeAwards(uid),
+    loadVolunteerActivity(uid),
+    getImpactScoreModel(),
+  ]);
+  const awardsByBadge = new Map(awards.filter((award) => award.badgeId).map((award) => [award.badgeId, award]));
+  return {
+    badgeCatalog: definitions
+      .filter((definition) => definition.active || awardsByBadge.has(definition.id))
+      .map((definition) => ({
+        definition,
+        evaluation: evaluateBadge(definition, activity),
+        award: awardsByBadge.get(definition.id) || null,
+      })),
+    impactBreakdown: computeImpactScore(contributions, activity.projectCategories, model),
+  };
+}
+
+// Recomputes the profile totals (hours from verified contributions only, the impact score with
+// the current model from lib/impactScore), and brings the volunteer's awards in line with the
+// active badge definitions: new and upgraded tiers are awarded, awards that no longer qualify
+// are removed, and awards of inactive badges are left alone.
 export async function evaluateAndAwardBadges(uid: string) {
-  const [profile, contributions] = await Promise.all([getUserProfile(uid), listContributions(uid)]);
+  const [profile, definitions, awards, { contributions: allContributions, activity }, model] = await Promise.all([
+    getUserProfile(uid),
+    repository.listBadgeDefinitions(),
+    repository.listBadgeAwards(uid),
+    loadVolunteerActivity(uid),
+    getImpactScoreModel(),
+  ]);
   if (!profile) return;
+  const { contributions } = activity;
+  const now = new Date();
 
-  const totalHours = contributions.reduce((sum, row) => sum + Number(row.hours || 0), 0);
-  const completedCount = contributions.filter((row) => row.completedTask).length;
-  const educationCount = contributions.filter((row) =>
-    String(row.projectTitle).toLowerCase().includes('education')
-  ).length;
-  const sustainabilityCount = contributions.filter((row) =>
-    /sustain|climate|tree|green/i.test(String(row.projectTitle))
-  ).length;
-
+  const remaining = new Map(awards.map((award) => [award.id, award]));
   const unlocked: string[] = [];
-  if (totalHours >= 100) unlocked.push(BADGES.HOURS_100);
-  if (completedCount >= 10) unlocked.push(BADGES.COMMUNITY_BUILDER);
-  if (educationCount >= 3) unlocked.push(BADGES.EDUCATION_ADVOCATE);
-  if (sustainabilityCount >= 3) unlocked.push(BADGES.SUSTAINABILITY_CHAMPION);
-  if (completedCount >= 1) unlocked.push(BADGES.FIRST_PROJECT);
-
-  const current = new Set(profile.badgesEarned || []);
-  const newOnes = unlocked.filter((badge) => !current.has(badge));
+  for (const definition of definitions.filter((row) => row.active)) {
+    const evaluation = evaluateBadge(definition, activity);
+    // Awards from before badge definitions have random IDs and no badgeId; they are matched by name.
+    const legacy = awards.filter((award) => !award.badgeId && award.name === definition.name);
+    const existing = remaining.get(badgeAwardId(uid, definition.id)) || legacy[0];
+    remaining.delete(badgeAwardId(uid, definition.id));
+    legacy.forEach((award) => remaining.delete(award.id));
+
+    if (evaluation.tierIndex >= 0) {
+      const upgraded = !existing || evaluation.tierIndex > existing.tierIndex;
+      const award: Omit<BadgeAwardDoc, 'id'> = {
+        uid,
+        badgeId: definition.id,
+        name: badgeLabel(definition, evaluation.tierIndex),
+        tierIndex: evaluation.tierIndex,
+        earnedAt: upgraded ? now : existing?.earnedAt || now,
+        projectId: evaluation.reachedBy?.projectId,
+        projectTitle: evaluation.reachedBy?.projectTitle,
+        definitionUpdatedAt: definition.updatedAt,
+      };
+      const changed =
+        !existing ||
+        existing.badgeId !== award.badgeId ||
+        existing.name !== award.name ||
+        existing.tierIndex !== award.tierIndex ||
+        existing.projectId !== award.projectId ||
+        !sameTime(existing.definitionUpdatedAt, award.definitionUpdatedAt);
+      if (changed) await repository.saveBadgeAward(award);
+      if (upgraded) unlocked.push(award.name);
+      remaining.set(badgeAwardId(uid, definition.id), { ...award, id: badgeAwardId(uid, definition.id) });
+    }
+    for (const award of legacy) await repository.removeBadgeAward(award.id);
+    if (evaluation.tierIndex < 0 && existing?.badgeId) await repository.removeBadgeAward(existing.id);
+  }
 
-  await upsertUserProfile(uid, {
-    ...profile,
+  const totalHours = contributions.reduce((sum, row) => sum + Number(row.hours || 0), 0);
+  const totals = {
     hoursContributed: Number(totalHours.toFixed(1)),
-    completedProjects: completedCount,
-    badgesEarned: Array.from(new Set([...(profile.badgesEarned || []), ...newOnes])),
-  });
+    impactScore: computeImpactScore(allContributions, activity.projectCategories, model).score,
+    completedProjects: contributions.filter((row) => row.completedTask).length,
+    badgesEarned: Array.from(new Set(Array.from(remaining.values()).map((award) => award.name))),
+  };
+  if (
+    totals.hoursContributed !== profile.hoursContributed ||
+    totals.impactScore !== profile.impactScore ||
+    totals.completedProjects !== profile.completedProjects ||
+    totals.badgesEarned.join('\n') !== (profile.badgesEarned || []).join('\n')
+  ) {
+    await repository.patchUserProfile(uid, totals);
+  }
 
-  for (const badge of newOnes) {
-    await addDocument('badges', {
-      uid,
-      name: badge,
-      earnedAt: new Date().toISOString(),
-    });
+  if (unlocked.length > 0) {
+    await addNotification(uid, 'badge', 'Badge unlocked', `You earned: ${unlocked.join(', ')}`);
+  }
+}
+
+// Creates or replaces a badge definition, then re-evaluates everyone holding the badge so
+// tightened or renamed criteria apply at once. Volunteers who newly qualify are picked up the
+// next time their badges are evaluated (on sign-in or when hours are verified).
+export async function saveBadgeDefinition(badgeId: string, input: BadgeDefinitionInput) {
+  if (!BADGE_ID_PATTERN.test(badgeId)) {
+    throw new Error('Badge IDs may only contain lowercase letters, digits and dashes.');
   }
+  assertValidBadgeDefinition(input);
+  await repository.saveBadgeDefinition(badgeId, {
+    ...input,
+    name: input.name.trim(),
+    description: input.description.trim(),
+    categories: input.categories.map((category) => category.trim()).filter(Boolean),
+    tiers: input.tiers.map((tier) => ({ name: tier.name.trim(), threshold: tier.threshold })),
+    updatedAt: new Date(),
+  });
 
-  if (newOnes.length > 0) {
-    await addNotification(uid, 'badge', 'Badge unlocked', `You earned: ${newOnes.join(', ')}`);
+  const holders = new Set((await repository.listBadgeAwardsForBadge(badgeId)).map((award) => award.uid));
+  for (const uid of holders) {
+    await evaluateAndAwardBadges(uid);
   }
 }
 
@@ -621,8 +1134,7 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
     });
   }
 
-  const projects = await listProjects();
-  if (projects.length === 0) {
+  if (!(await repository.hasDocuments('projects'))) {
     const baseProjects: Omit<ProjectDoc, 'id'>[] = [
       {
         title: 'Neighborhood Tree Renewal',
@@ -633,7 +1145,11 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
         startDate: '2026-03-12',
         endDate: '2026-05-10',
         impactMetric: 'Trees planted',
+        impactTarget: 500,
+        impactProgress: 0,
         status: 'active',
+        joinPolicy: 'application',
+        onboardingTasks: ['Review the planting safety guide', 'Pick up gloves and tools at the site shed'],
         participants: [],
         participantCount: 0,
         projectLead: 'impact@turknode.org',
@@ -650,7 +1166,12 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
         startDate: '2026-03-15',
         endDate: '2026-06-30',
         impactMetric: 'Students supported',
+        impactTarget: 60,
+        impactProgress: 0,
         status: 'active',
+        // Tutors work with minors, so the lead reviews everyone first.
+        joinPolicy: 'application',
+        onboardingTasks: ['Complete the youth safeguarding training', 'Read the tutoring circle handbook'],
         participants: [],
         participantCount: 0,
         projectLead: 'education@turknode.org',
@@ -667,7 +1188,11 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
         startDate: '2026-01-12',
         endDate: '2026-02-20',
         impactMetric: 'Residents assisted',
+        impactTarget: 150,
+        impactProgress: 0,
         status: 'completed',
+        joinPolicy: 'open',
+        onboardingTasks: [],
         participants: [],
         participantCount: 0,
         projectLead: 'tech4good@turknode.org',
@@ -678,49 +1203,67 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
     ];
 
     for (const item of baseProjects) {
-      await addDocument('projects', item as unknown as Record<string, unknown>);
+      await repository.addProject(item);
     }
   }
 
-  const events = await listEvents();
-  if (events.length === 0) {
-    await addDocument('events', {
+  if (!(await repository.hasDocuments('events'))) {
+    await repository.addEvent({
       title: 'Spring River Cleanup',
+      description: 'Clear litter along the river trail. Gloves and bags are provided.',
       location: 'Schuylkill Banks',
-      startsAt: '2026-03-20T10:00:00-04:00',
+      startsAt: new Date('2026-03-20T10:00:00-04:00'),
       category: 'Environment',
       rsvps: [],
+      waitlist: [],
       type: 'community',
       projectId: '',
+      status: 'scheduled',
       organizerUid: uid,
     });
-    await addDocument('events', {
+    await repository.addEvent({
       title: 'Volunteer Mentor Onboarding',
+      description: 'Orientation for new mentors: program goals, safeguarding and planning a first session.',
       location: 'Remote',
-      startsAt: '2026-03-25T18:00:00-04:00',
+      startsAt: new Date('2026-03-25T18:00:00-04:00'),
       category: 'Education',
       rsvps: [],
+      waitlist: [],
       type: 'training',
       projectId: '',
+      status: 'scheduled',
+      organizerUid: uid,
+    });
+    await repository.addEvent({
+      title: 'Weekly Tutoring Drop-in',
+      description: 'Open homework help for middle schoolers. Come to any week that suits you.',
+      location: 'Free Library, Parkway Central',
+      startsAt: new Date('2026-03-04T16:00:00-05:00'),
+      endsAt: new Date('2026-03-04T18:00:00-05:00'),
+      category: 'Education',
+      rsvps: [],
+      waitlist: [],
+      type: 'community',
+      projectId: '',
+      status: 'scheduled',
+      recurrence: { frequency: 'weekly', interval: 1, timeZone: 'America/New_York', exceptions: [] },
       organizerUid: uid,
     });
   }
 
-  const organizations = await listCollection<OrganizationDoc>('organizations');
-  if (organizations.length === 0) {
-    await addDocument('organizations', {
+  if (!(await repository.hasDocuments('organizations'))) {
+    await repository.addOrganization({
       name: 'ENTURK Community Lab',
       contactEmail: 'partnerships@enturk.org',
       region: 'Philadelphia-Delaware Pilot Region',
       missionFocus: ['Sustainability', 'Education', 'Civic Innovation'],
       verified: true,
-      createdAt: new Date().toISOString(),
+      createdAt: new Date(),
     });
   }
 
-  const applications = await listCollection<ApplicationDoc>('applications');
-  if (applications.length === 0) {
-    await addDocument('applications', {
+  if (!(await repository.hasDocuments('applications'))) {
+    await repository.addApplication({
       projectId: 'pilot_tree_renewal',
       projectTitle: 'Neighborhood Tree Renewal',
       applicantUid: uid,
@@ -730,14 +1273,13 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
       message: 'I can support planting logistics and community outreach shifts.',
       skillsMatch: 84,
       state: 'pending',
-      createdAt: new Date().toISOString(),
+      createdAt: new Date(),
       projectLeadEmail: 'impact@turknode.org',
     });
   }
 
-  const tasks = await listCollection<TaskDoc>('tasks');
-  if (tasks.length === 0) {
-    await addDocument('tasks', {
+  if (!(await repository.hasDocuments('tasks'))) {
+    await repository.addTask({
       projectId: 'pilot_tree_renewal',
       projectTitle: 'Neighborhood Tree Renewal',
       title: 'Confirm volunteer check-in plan',
@@ -746,9 +1288,15 @@ export async function seedIfEmpty(uid: string, email: string, displayName: strin
       dueDate: '2026-03-18',
       priority: 'high',
       status: 'in_progress',
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
       projectLeadEmail: 'impact@turknode.org',
     });
   }
+
+  if (!(await repository.hasDocuments('badgeDefinitions'))) {
+    for (const { id, ...definition } of DEFAULT_BADGE_DEFINITIONS) {
+      await repository.saveBadgeDefinition(id, { ...definition, updatedAt: new Date() });
+    }
+  }
 }
@@ -0,0 +1,335 @@
+import type {
+  ApplicationDoc,
+  AttendanceDoc,
+  BadgeAwardDoc,
+  BadgeDefinitionDoc,
+  CheckInCodeDoc,
+  ContributionDoc,
+  ContributionVerification,
+  EventCheckIn,
+  EventDoc,
+  GeoPoint,
+  ImpactScoreModelDoc,
+  NotificationDoc,
+  OrganizationDoc,
+  ProjectDoc,
+  TaskDoc,
+  UserProfileDoc,
+} from './turknodeTypes';
+
+// The storage contract behind lib/turknodeDb. Each backend owns how rows are stored, queried,
+// paged and kept atomic; validation, notifications and badge rules stay in turknodeDb so every
+// backend behaves the same way.
+
+export type PageRequest = {
+  pageSize?: number;
+  cursor?: string | null;
+};
+
+export type Page<T> = {
+  items: T[];
+  nextCursor: string | null;
+};
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 300;
+
+export function resolvePageSize(request: PageRequest) {
+  return Math.max(1, Math.min(MAX_PAGE_SIZE, Math.floor(request.pageSize || DEFAULT_PAGE_SIZE)));
+}
+
+export type Unsubscribe = () => void;
+export type ChangeListener<T> = (rows: Array<T & { id: string }>) => void;
+export type ErrorListener = (error: Error) => void;
+
+export type MessageThreadDoc = Record<string, unknown>;
+
+// Collections that seedIfEmpty fills with pilot data.
+export type SeedCollection = 'projects' | 'events' | 'organizations' | 'applications' | 'tasks' | 'badgeDefinitions';
+
+export type NewDoc<T> = Omit<T, 'id'>;
+
+export type TurknodeRepository = {
+  getUserProfile(uid: string): Promise<UserProfileDoc | null>;
+  // Merges `data` into the stored profile (see mergeUserProfile) without losing concurrent writes.
+  upsertUserProfile(uid: string, data: Partial<UserProfileDoc>): Promise<void>;
+  // Writes only the given fields; fails with 'Profile missing.' when there is no profile.
+  patchUserProfile(uid: string, partial: Partial<UserProfileDoc>): Promise<void>;
+  listVolunteersPage(request: PageRequest): Promise<Page<UserProfileDoc>>;
+
+  listProjectsPage(request: PageRequest): Promise<Page<ProjectDoc>>;
+  listProjectsForMember(uid: string): Promise<ProjectDoc[]>;
+  getProjectsByIds(projectIds: string[]): Promise<ProjectDoc[]>;
+  // Projects with coordinates within radiusKm of center, nearest first.
+  listProjectsNear(center: GeoPoint, radiusKm: number): Promise<Array<ProjectDoc & { distanceKm: number }>>;
+  // With a projectId the document is created under that ID and fails if it already exists.
+  addProject(data: NewDoc<ProjectDoc>, projectId?: string): Promise<string>;
+  patchProject(projectId: string, partial: Partial<NewDoc<ProjectDoc>>): Promise<void>;
+  // Adds uid to the participants and records the membership in one atomic step.
+  joinProject(uid: string, projectId: string): Promise<ProjectDoc>;
+  leaveProject(uid: string, projectId: string): Promise<void>;
+  saveProject(uid: string, projectId: string): Promise<void>;
+  unsaveProject(uid: string, projectId: string): Promise<void>;
+  getSavedProjectIds(uid: string): Promise<string[]>;
+
+  listApplicationsForLeadPage(projectLeadEmail: string, request: PageRequest): Promise<Page<ApplicationDoc>>;
+  addApplication(data: NewDoc<ApplicationDoc>): Promise<string>;
+  // Creates the application stored under applicationId(applicantUid, projectId), or replaces a
+  // rejected one; throws when the volunteer's application is still open or was accepted.
+  submitApplication(data: NewDoc<ApplicationDoc>): Promise<string>;
+  updateApplicationState(applicationId: string, state: ApplicationDoc['state']): Promise<void>;
+  // Applies `changes` atomically, but only while the application is pending or saved. When the
+  // change accepts the application, the applicant joins the project and their membership is
+  // recorded in the same step. Returns the updated application.
+  decideApplication(applicationId: string, changes: Partial<NewDoc<ApplicationDoc>>): Promise<ApplicationDoc>;
+
+  listTasksForLeadPage(projectLeadEmail: string, request: PageRequest): Promise<Page<TaskDoc>>;
+  addTask(data: NewDoc<TaskDoc>): Promise<string>;
+  updateTaskStatus(taskId: string, status: TaskDoc['status']): Promise<void>;
+
+  addContribution(data: NewDoc<ContributionDoc>): Promise<string>;
+  getContribution(contributionId: string): Promise<ContributionDoc | null>;
+  listContributionsPage(uid: string, request: PageRequest): Promise<Page<ContributionDoc>>;
+  listContributionsForLeadPage(
+    projectLeadEmail: string,
+    request: PageRequest,
+    verification?: ContributionVerification
+  ): Promise<Page<ContributionDoc>>;
+  // Applies `changes` atomically, but only while the contribution's verification is one of `from`.
+  // When the change verifies the contribution, its metricQuantity is added to the project's
+  // impactProgress in the same step. Returns the updated contribution.
+  updateContributionVerification(
+    contributionId: string,
+    from: ContributionVerification[],
+    changes: Partial<NewDoc<ContributionDoc>>
+  ): Promise<ContributionDoc>;
+
+  // Updates the thread summary and appends the message entry.
+  sendMessage(threadId: string, fromUid: string, toUid: string, text: string): Promise<void>;
+  listThreadsPage(uid: string, request: PageRequest): Promise<Page<MessageThreadDoc & { id: string }>>;
+
+  addNotification(data: NewDoc<NotificationDoc>): Promise<string>;
+  listNotificationsPage(uid: string, request: PageRequest): Promise<Page<NotificationDoc>>;
+  // Missing notifications are ignored.
+  markNotificationRead(notificationId: string): Promise<void>;
+
+  listEventsPage(request: PageRequest): Promise<Page<EventDoc>>;
+  getEvent(eventId: string): Promise<EventDoc | null>;
+  addEvent(data: NewDoc<EventDoc>): Promise<string>;
+  patchEvent(eventId: string, partial: Partial<NewDoc<EventDoc>>): Promise<void>;
+  // Atomically checks that the event is still scheduled, then adds the RSVP or, when the event
+  // is full, puts the volunteer on the waitlist.
+  rsvpToEvent(uid: string, eventId: string): Promise<RsvpStatus>;
+  // Atomically removes the volunteer's RSVP or waitlist spot and promotes waitlisted volunteers
+  // into any spot that opens. Returns the promoted volunteers.
+  cancelRsvp(uid: string, eventId: string): Promise<string[]>;
+  // Atomically promotes waitlisted volunteers into open spots, e.g. after capacity is raised.
+  promoteWaitlist(eventId: string): Promise<string[]>;
+  // The event whose open check-in uses this code, or null.
+  findEventByCheckInCode(code: string): Promise<EventDoc | null>;
+  // The code of the event's open check-in, or null.
+  getCheckInCode(eventId: string): Promise<CheckInCodeDoc | null>;
+  // Sets the check-in window on the event and stores the code as checkInCodes/<code>, removing
+  // the event's earlier codes in the same commit.
+  openEventCheckIn(eventId: string, code: string, checkIn: EventCheckIn): Promise<void>;
+  // Clears the window and removes the event's codes in one commit.
+  closeEventCheckIn(eventId: string): Promise<void>;
+
+  // Creates the record stored under attendanceId(eventId, occurrenceKey, uid); throws
+  // ALREADY_CHECKED_IN when it exists.
+  addAttendance(data: NewDoc<AttendanceDoc>): Promise<string>;
+  getAttendance(attendanceId: string): Promise<AttendanceDoc | null>;
+  patchAttendance(attendanceId: string, partial: Partial<NewDoc<AttendanceDoc>>): Promise<void>;
+  listAttendanceForEvents(eventIds: string[]): Promise<AttendanceDoc[]>;
+  listAttendanceForVolunteer(uid: string): Promise<AttendanceDoc[]>;
+
+  listBadgeDefinitions(): Promise<BadgeDefinitionDoc[]>;
+  // Creates or replaces the definition stored under badgeId.
+  saveBadgeDefinition(badgeId: string, data: NewDoc<BadgeDefinitionDoc>): Promise<void>;
+  listBadgeAwards(uid: string): Promise<BadgeAwardDoc[]>;
+  listBadgeAwardsForBadge(badgeId: string): Promise<BadgeAwardDoc[]>;
+  // Creates or replaces the award stored under badgeAwardId(uid, badgeId).
+  saveBadgeAward(data: NewDoc<BadgeAwardDoc>): Promise<void>;
+  // Missing awards are ignored.
+  removeBadgeAward(awardId: string): Promise<void>;
+  // The model stored as impactScoreModels/current, or null when none has been saved.
+  getImpactScoreModel(): Promise<ImpactScoreModelDoc | null>;
+  saveImpactScoreModel(data: ImpactScoreModelDoc): Promise<void>;
+
+  addOrganization(data: NewDoc<OrganizationDoc>): Promise<string>;
+  hasDocuments(collectionName: SeedCollection): Promise<boolean>;
+
+  // Push-based counterparts of the list methods. Each delivers the full current result set on
+  // every change and returns a function that stops listening.
+  // The volunteer's profile as a one-row result, empty until the profile exists.
+  subscribeToUserProfile(uid: string, onChange: ChangeListener<UserProfileDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToContributions(uid: string, onChange: ChangeListener<ContributionDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToNotifications(uid: string, onChange: ChangeListener<NotificationDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToThreads(uid: string, onChange: ChangeListener<MessageThreadDoc>, onError?: ErrorListener): Unsubscribe;
+  // A growing window over the projects, in the same order as listProjectsPage.
+  subscribeToProjectDirectory(maxRows: number, onChange: ChangeListener<ProjectDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToMemberProjects(uid: string, onChange: ChangeListener<ProjectDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToLeadProjects(
+    projectLeadEmail: string,
+    onChange: ChangeListener<ProjectDoc>,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  subscribeToApplicantApplications(
+    uid: string,
+    onChange: ChangeListener<ApplicationDoc>,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  subscribeToLeadApplications(
+    projectLeadEmail: string,
+    onChange: ChangeListener<ApplicationDoc>,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  subscribeToLeadTasks(
+    projectLeadEmail: string,
+    onChange: ChangeListener<TaskDoc>,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  subscribeToLeadContributions(
+    projectLeadEmail: string,
+    onChange: ChangeListener<ContributionDoc>,
+    onError?: ErrorListener
+  ): Unsubscribe;
+  subscribeToEvents(onChange: ChangeListener<EventDoc>, onError?: ErrorListener): Unsubscribe;
+  subscribeToEventAttendance(eventId: string, onChange: ChangeListener<AttendanceDoc>, onError?: ErrorListener): Unsubscribe;
+};
+
+export const CONTRIBUTION_REVIEW_CHANGED = "This contribution's review status has changed. Refresh and try again.";
+
+export const APPLICATION_REQUIRED = 'This project takes applications. Apply to join.';
+
+export const APPLICATION_DECIDED = 'This application has already been decided. Refresh and try again.';
+
+// Throws when the volunteer cannot join the project directly.
+export function assertCanJoin(project: Pick<ProjectDoc, 'status' | 'joinPolicy' | 'participants'>, uid: string) {
+  if (project.participants.includes(uid)) return;
+  if (project.status !== 'active') throw new Error('This project is no longer accepting volunteers.');
+  if (project.joinPolicy === 'application') throw new Error(APPLICATION_REQUIRED);
+}
+
+// Throws when the volunteer's current application, if any, rules out applying again.
+export function assertCanApply(existing: Pick<ApplicationDoc, 'state'> | null) {
+  if (!existing || existing.state === 'rejected') return;
+  if (existing.state === 'accepted') throw new Error('Your application to this project was already accepted.');
+  throw new Error('You already applied to this project. The project lead will review it.');
+}
+
+// Throws when the lead can no longer accept or reject the application.
+export function assertUndecided(application: Pick<ApplicationDoc, 'state'>) {
+  if (application.state === 'accepted' || application.state === 'rejected') throw new Error(APPLICATION_DECIDED);
+}
+
+// One application per volunteer and project.
+export function applicationId(uid: string, projectId: string) {
+  return `${uid}_${projectId}`;
+}
+
+export const EVENT_CANCELLED = 'This event has been cancelled.';
+
+export type RsvpStatus = 'confirmed' | 'waitlisted';
+
+type EventSeats = Pick<EventDoc, 'status' | 'rsvps' | 'capacity' | 'waitlist'>;
+
+// Where uid lands when RSVPing; throws when the event is cancelled. RSVPing again is allowed
+// and keeps the volunteer where they are.
+export function rsvpPlacement(event: EventSeats, uid: string): RsvpStatus {
+  if (event.rsvps.includes(uid)) return 'confirmed';
+  if (event.waitlist.includes(uid)) return 'waitlisted';
+  if (event.status === 'cancelled') throw new Error(EVENT_CANCELLED);
+  return event.capacity && event.rsvps.length >= event.capacity ? 'waitlisted' : 'confirmed';
+}
+
+// Moves waitlisted volunteers, in order, into the spots the event has free. Cancelled events
+// promote nobody.
+export function fillFromWaitlist(event: EventSeats) {
+  const free =
+    event.status === 'cancelled' ? 0 : event.capacity ? Math.max(0, event.capacity - event.rsvps.length) : event.waitlist.length;
+  const promoted = event.waitlist.slice(0, free);
+  return { rsvps: [...event.rsvps, ...promoted], waitlist: event.waitlist.slice(promoted.length), promoted };
+}
+
+export const ALREADY_CHECKED_IN = 'This volunteer is already checked in.';
+
+// One record per volunteer and occurrence; the key's punctuation is dropped from the ID.
+export function attendanceId(eventId: string, occurrenceKey: string, uid: string) {
+  return `${eventId}_${occurrenceKey.replace(/[^0-9A-Z]/g, '')}_${uid}`;
+}
+
+export function badgeAwardId(uid: string, badgeId: string) {
+  return `${uid}_${badgeId}`;
+}
+
+// Lead emails are stored trimmed and lower-cased on projects (projectLead) and on the
+// applications, tasks and contributions copied from them (projectLeadEmail), so lead queries
+// match with one equality filter. backend-a-orchestrator/scripts/backfill-lead-fields.js
+// normalizes documents written before this.
+export function normalizeLeadEmail(projectLeadEmail: string) {
+  return projectLeadEmail.trim().toLowerCase();
+}
+
+function calcProfileCompletion(profile: Partial<UserProfileDoc>) {
+  const checks = [
+    profile.photoUrl,
+    profile.displayName,
+    profile.bio,
+    profile.location,
+    profile.interests && profile.interests.length > 0,
+    profile.skills && profile.skills.length > 0,
+    typeof profile.availableForProjects === 'boolean',
+  ];
+  const done = checks.filter(Boolean).length;
+  return Math.round((done / checks.length) * 100);
+}
+
+export function mergeUserProfile(uid: string, data: Partial<UserProfileDoc>, existing: UserProfileDoc | null) {
+  const merged: UserProfileDoc = {
+    uid,
+    role: 'volunteer',
+    email: data.email || existing?.email || '',
+    displayName: data.displayName || existing?.displayName || 'TurkNode Volunteer',
+    photoUrl: data.photoUrl || existing?.photoUrl || '',
+    bio: data.bio || existing?.bio || '',
+    location: data.location || existing?.location || '',
+    interests: data.interests || existing?.interests || [],
+    skills: data.skills || existing?.skills || [],
+    availableForProjects: data.availableForProjects ?? existing?.availableForProjects ?? true,
+    hoursContributed: data.hoursContributed ?? existing?.hoursContributed ?? 0,
+    completedProjects: data.completedProjects ?? existing?.completedProjects ?? 0,
+    impactScore: data.impactScore ?? existing?.impactScore ?? 0,
+    badgesEarned: data.badgesEarned || existing?.badgesEarned || [],
+    notificationPrefs: data.notificationPrefs ||
+      existing?.notificationPrefs || {
+        projectInvites: true,
+        milestones: true,
+        badges: true,
+        messages: true,
+      },
+    profileCompletion: 0,
+  };
+  merged.profileCompletion = calcProfileCompletion(merged);
+  return merged;
+}
+
+const EARTH_RADIUS_KM = 6371;
+export const KM_PER_DEGREE_LATITUDE = 111.32;
+
+export function distanceKm(from: GeoPoint, to: GeoPoint) {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(to.lat - from.lat);
+  const dLng = toRad(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function withDistances(center: GeoPoint, radiusKm: number, rows: ProjectDoc[]) {
+  return rows
+    .filter((project): project is ProjectDoc & { coordinates: GeoPoint } => Boolean(project.coordinates))
+    .map((project) => ({ ...project, distanceKm: distanceKm(center, project.coordinates) }))
+    .filter((project) => project.distanceKm <= radiusKm)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
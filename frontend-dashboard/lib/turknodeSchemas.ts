@@ -0,0 +1,399 @@
+import { z } from 'zod';
+import type {
+  ApplicationDoc,
+  AttendanceDoc,
+  BadgeAwardDoc,
+  BadgeDefinitionDoc,
+  CheckInCodeDoc,
+  ContributionDoc,
+  EventDoc,
+  ImpactScoreModelDoc,
+  NotificationDoc,
+  ProjectDoc,
+  TaskDoc,
+  UserProfileDoc,
+} from './turknodeTypes';
+
+// Firestore has no schema, and older pilot documents predate several fields. Every document
+// read by the dashboards is run through these schemas: missing fields get defaults, scalar
+// values stored with the wrong type are coerced, and anything that still does not fit is
+// reported and dropped instead of crashing a render.
+
+const isMissing = (value: unknown) => value === null || value === undefined;
+
+const text = (fallback = '') =>
+  z.preprocess(
+    (value) => (isMissing(value) ? fallback : typeof value === 'number' || typeof value === 'boolean' ? String(value) : value),
+    z.string()
+  );
+
+const optionalText = z.preprocess(
+  (value) => (isMissing(value) ? undefined : typeof value === 'number' ? String(value) : value),
+  z.string().optional()
+);
+
+const requiredText = z.preprocess(
+  (value) => (typeof value === 'number' ? String(value) : value),
+  z.string().trim().min(1)
+);
+
+const count = (fallback = 0) =>
+  z.preprocess(
+    (value) => (isMissing(value) || value === '' ? fallback : typeof value === 'string' ? Number(value) : value),
+    z.number().finite()
+  );
+
+const optionalCount = z.preprocess(
+  (value) => (isMissing(value) || value === '' ? undefined : typeof value === 'string' ? Number(value) : value),
+  z.number().finite().optional()
+);
+
+const flag = (fallback: boolean) =>
+  z.preprocess(
+    (value) => (isMissing(value) ? fallback : value === 'true' ? true : value === 'false' ? false : value),
+    z.boolean()
+  );
+
+const optionalFlag = z.preprocess(
+  (value) => (isMissing(value) ? undefined : value === 'true' ? true : value === 'false' ? false : value),
+  z.boolean().optional()
+);
+
+// Documents written before the dashboard stored Firestore timestamps hold ISO strings until
+// backend-a-orchestrator/scripts/normalize-legacy-dates.js rewrites them.
+const toDateValue = (value: unknown) =>
+  typeof value === 'string' || typeof value === 'number' ? new Date(value) : value;
+
+const timestamp = z.preprocess(toDateValue, z.date());
+
+const optionalTimestamp = z.preprocess(
+  (value) => (isMissing(value) || value === '' ? undefined : toDateValue(value)),
+  z.date().optional()
+);
+
+const optionalGeoPoint = z.preprocess(
+  (value) => (isMissing(value) ? undefined : value),
+  z
+    .object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    })
+    .optional()
+);
+
+const textList = z.preprocess(
+  (value) =>
+    isMissing(value)
+      ? []
+      : typeof value === 'string'
+      ? value
+          .split(',')
+          .map((item) => item.trim())
+          .filter(Boolean)
+      : value,
+  z.array(text())
+);
+
+const choice = <U extends string, T extends [U, ...U[]]>(values: T, fallback: T[number]) =>
+  z.preprocess((value) => (isMissing(value) || value === '' ? fallback : value), z.enum(values));
+
+const optionalChoice = <U extends string, T extends [U, ...U[]]>(values: T) =>
+  z.preprocess((value) => (isMissing(value) || value === '' ? undefined : value), z.enum(values).optional());
+
+type DocSchema<T> = z.ZodType<Omit<T, 'id'>, z.ZodTypeDef, unknown>;
+
+const userProfileSchema: DocSchema<UserProfileDoc> = z
+  .object({
+    uid: text(),
+    email: text(),
+    displayName: text('TurkNode Volunteer'),
+    photoUrl: optionalText,
+    role: choice(['volunteer', 'manager', 'organization'], 'volunteer'),
+    bio: text(),
+    location: text(),
+    interests: textList,
+    skills: textList,
+    availableForProjects: flag(true),
+    hoursContributed: count(),
+    completedProjects: count(),
+    impactScore: count(),
+    badgesEarned: textList,
+    notificationPrefs: z.preprocess(
+      (value) => (isMissing(value) ? {} : value),
+      z.object({
+        projectInvites: flag(true),
+        milestones: flag(true),
+        badges: flag(true),
+        messages: flag(true),
+      })
+    ),
+    profileCompletion: count(),
+  })
+  .passthrough();
+
+const projectSchema: DocSchema<ProjectDoc> = z
+  .object({
+    title: requiredText,
+    description: text(),
+    category: text('Community'),
+    location: text('Remote'),
+    skillsRequired: textList,
+    startDate: text(),
+    endDate: text(),
+    impactMetric: text(),
+    impactTarget: optionalCount,
+    impactProgress: count(),
+    status: choice(['active', 'completed', 'cancelled'], 'active'),
+    joinPolicy: choice(['open', 'application'], 'open'),
+    onboardingTasks: textList,
+    lifecycleStatus: optionalChoice(['OPEN', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']),
+    participants: textList,
+    participantCount: count(),
+    projectLead: text(),
+    organizationId: optionalText,
+    rolesOpen: optionalCount,
+    pilotData: optionalFlag,
+    coordinates: optionalGeoPoint,
+  })
+  .passthrough();
+
+const contributionSchema: DocSchema<ContributionDoc> = z
+  .object({
+    uid: requiredText,
+    projectId: requiredText,
+    projectTitle: text(),
+    hours: count().pipe(z.number().min(0)),
+    notes: text(),
+    completedTask: flag(false),
+    metricQuantity: optionalCount,
+    transactionId: optionalText,
+    evidenceUrl: optionalText,
+    evidenceContentType: optionalText,
+    volunteerName: optionalText,
+    projectLeadEmail: optionalText,
+    // Contributions logged before verification existed were credited on creation.
+    verification: choice(['pending', 'verified', 'rejected', 'needs_info'], 'verified'),
+    verificationNote: optionalText,
+    volunteerResponse: optionalText,
+    reviewedBy: optionalText,
+    reviewedAt: optionalTimestamp,
+    createdAt: optionalTimestamp,
+  })
+  .passthrough();
+
+const applicationSchema: DocSchema<ApplicationDoc> = z
+  .object({
+    projectId: requiredText,
+    projectTitle: text(),
+    applicantUid: text(),
+    applicantName: text('Volunteer'),
+    applicantEmail: text(),
+    availability: text(),
+    message: text(),
+    skillsMatch: count(),
+    state: choice(['pending', 'saved', 'accepted', 'rejected'], 'pending'),
+    decisionNote: optionalText,
+    reviewedBy: optionalText,
+    reviewedAt: optionalTimestamp,
+    createdAt: optionalTimestamp,
+    projectLeadEmail: text(),
+  })
+  .passthrough();
+
+const taskSchema: DocSchema<TaskDoc> = z
+  .object({
+    projectId: text(),
+    projectTitle: text(),
+    title: requiredText,
+    assignedVolunteerUid: text(),
+    assignedVolunteerName: text(),
+    dueDate: text(),
+    priority: choice(['low', 'medium', 'high'], 'medium'),
+    status: choice(['todo', 'in_progress', 'done', 'overdue'], 'todo'),
+    createdAt: optionalTimestamp,
+    updatedAt: optionalTimestamp,
+    projectLeadEmail: text(),
+  })
+  .passthrough();
+
+const eventRecurrence = z.preprocess(
+  (value) => (isMissing(value) ? undefined : value),
+  z
+    .object({
+      frequency: z.enum(['daily', 'weekly', 'monthly']),
+      interval: count(1).pipe(z.number().int().min(1)),
+      until: optionalTimestamp,
+      timeZone: text('UTC'),
+      exceptions: textList,
+    })
+    .optional()
+);
+
+const eventCheckIn = z.preprocess(
+  (value) => (isMissing(value) ? undefined : value),
+  z.object({ occurrenceKey: requiredText, closesAt: timestamp }).optional()
+);
+
+const eventSchema: DocSchema<EventDoc> = z
+  .object({
+    title: requiredText,
+    description: text(),
+    location: text(),
+    startsAt: timestamp,
+    endsAt: optionalTimestamp,
+    category: text(),
+    rsvps: textList,
+    capacity: optionalCount,
+    waitlist: textList,
+    status: choice(['scheduled', 'cancelled'], 'scheduled'),
+    recurrence: eventRecurrence,
+    checkIn: eventCheckIn,
+    projectId: optionalText,
+    type: optionalChoice(['meeting', 'training', 'community']),
+    organizerUid: optionalText,
+    updatedAt: optionalTimestamp,
+  })
+  .passthrough();
+
+const checkInCodeSchema: DocSchema<CheckInCodeDoc> = z
+  .object({
+    eventId: requiredText,
+    occurrenceKey: requiredText,
+    closesAt: timestamp,
+  })
+  .passthrough();
+
+const attendanceSchema: DocSchema<AttendanceDoc> = z
+  .object({
+    eventId: requiredText,
+    occurrenceKey: requiredText,
+    uid: requiredText,
+    volunteerName: text('Volunteer'),
+    method: choice(['code', 'manual'], 'manual'),
+    checkedInAt: optionalTimestamp,
+    checkedInBy: optionalText,
+    creditedHours: optionalCount,
+    contributionId: optionalText,
+  })
+  .passthrough();
+
+const notificationSchema: DocSchema<NotificationDoc> = z
+  .object({
+    uid: requiredText,
+    type: choice(['invite', 'milestone', 'badge', 'message', 'system'], 'system'),
+    title: text(),
+    body: text(),
+    read: flag(false),
+    createdAt: optionalTimestamp,
+  })
+  .passthrough();
+
+const badgeDefinitionSchema: DocSchema<BadgeDefinitionDoc> = z
+  .object({
+    name: requiredText,
+    description: text(),
+    icon: choice(['award', 'clock', 'users', 'book', 'leaf', 'flame', 'calendar', 'star'], 'award'),
+    metric: z.enum(['hours', 'completedTasks', 'contributions', 'streakWeeks', 'eventsAttended']),
+    categories: textList,
+    tiers: z
+      .array(z.object({ name: text(), threshold: count().pipe(z.number().positive()) }))
+      .min(1),
+    active: flag(true),
+    updatedAt: optionalTimestamp,
+  })
+  .passthrough();
+
+// Awards written before badge definitions existed only have uid, name and earnedAt.
+const badgeAwardSchema: DocSchema<BadgeAwardDoc> = z
+  .object({
+    uid: requiredText,
+    badgeId: text(),
+    name: requiredText,
+    tierIndex: count(),
+    earnedAt: optionalTimestamp,
+    projectId: optionalText,
+    projectTitle: optionalText,
+    definitionUpdatedAt: optionalTimestamp,
+  })
+  .passthrough();
+
+const weight = (fallback: number) => count(fallback).pipe(z.number().min(0));
+
+const orEmpty = (value: unknown) => (isMissing(value) ? {} : value);
+
+const impactScoreModelSchema: DocSchema<ImpactScoreModelDoc> = z
+  .object({
+    impactTypeWeights: z.preprocess(orEmpty, z.object({ hours: weight(0.8), completedTask: weight(2) })),
+    verificationMultipliers: z.preprocess(
+      orEmpty,
+      z.object({ pending: weight(0), verified: weight(1), rejected: weight(0), needs_info: weight(0) })
+    ),
+    categoryWeights: z.preprocess(orEmpty, z.record(weight(1))),
+    recencyHalfLifeDays: weight(365),
+    recencyFloor: weight(0.5).pipe(z.number().max(1)),
+    updatedAt: optionalTimestamp,
+  })
+  .passthrough();
+
+const documentSchemas: Record<string, z.ZodType<unknown, z.ZodTypeDef, unknown>> = {
+  users: userProfileSchema,
+  projects: projectSchema,
+  contributions: contributionSchema,
+  applications: applicationSchema,
+  tasks: taskSchema,
+  events: eventSchema,
+  checkInCodes: checkInCodeSchema,
+  attendance: attendanceSchema,
+  notifications: notificationSchema,
+  badgeDefinitions: badgeDefinitionSchema,
+  badges: badgeAwardSchema,
+  impactScoreModels: impactScoreModelSchema,
+};
+
+export type InvalidDocumentReport = {
+  collectionName: string;
+  id: string;
+  // One entry per failed field, as "path: message".
+  issues: string[];
+};
+
+const invalidDocumentListeners = new Set<(report: InvalidDocumentReport) => void>();
+
+// Dashboards register here to tell the user a record was hidden instead of silently losing it.
+export function onInvalidDocument(listener: (report: InvalidDocumentReport) => void) {
+  invalidDocumentListeners.add(listener);
+  return () => {
+    invalidDocumentListeners.delete(listener);
+  };
+}
+
+export function describeInvalidDocument(report: InvalidDocumentReport) {
+  return `${report.collectionName}/${report.id} could not be read and is hidden (${report.issues.join('; ')}).`;
+}
+
+function reportInvalidDocument(collectionName: string, id: string, error: z.ZodError) {
+  const report: InvalidDocumentReport = {
+    collectionName,
+    id,
+    issues: error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+  invalidDocumentListeners.forEach((listener) => listener(report));
+}
+
+// Returns null for documents that fail validation and reports them to onInvalidDocument listeners;
+// list readers drop them, single reads treat them as missing.
+export function parseDocument<T>(
+  collectionName: string,
+  id: string,
+  data: Record<string, unknown>
+): (T & { id: string }) | null {
+  const schema = documentSchemas[collectionName];
+  if (!schema) return { ...(data as T), id };
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    reportInvalidDocument(collectionName, id, result.error);
+    return null;
+  }
+  return { ...(result.data as T), id };
+}
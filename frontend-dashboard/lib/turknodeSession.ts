@@ -0,0 +1,54 @@
+'use client';
+
+import { signOut } from 'firebase/auth';
+import { auth, firebaseReady } from './firebase';
+import { dataBackend } from './turknodeDb';
+
+// The signed-in user as the dashboards see it. With the Firestore backend this is the Firebase
+// Auth user; with a local backend there is no auth service and a fixed demo account is used.
+
+export type SessionUser = {
+  uid: string;
+  email: string;
+  displayName: string;
+};
+
+type SessionListener = (user: SessionUser | null) => void;
+
+const DEMO_USER: SessionUser = {
+  uid: 'demo-user',
+  email: process.env.NEXT_PUBLIC_DEMO_USER_EMAIL || 'impact@turknode.org',
+  displayName: 'Demo Volunteer',
+};
+
+const usesFirebaseAuth = dataBackend === 'firestore';
+const demoListeners = new Set<SessionListener>();
+let demoSignedIn = true;
+
+export const sessionAvailable = usesFirebaseAuth ? firebaseReady && Boolean(auth) : true;
+
+export function onSessionChange(listener: SessionListener): () => void {
+  if (usesFirebaseAuth) {
+    if (!auth) return () => undefined;
+    return auth.onAuthStateChanged((user) =>
+      listener(user ? { uid: user.uid, email: user.email || '', displayName: user.displayName || '' } : null)
+    );
+  }
+
+  demoListeners.add(listener);
+  void Promise.resolve().then(() => {
+    if (demoListeners.has(listener)) listener(demoSignedIn ? DEMO_USER : null);
+  });
+  return () => {
+    demoListeners.delete(listener);
+  };
+}
+
+export async function endSession() {
+  if (usesFirebaseAuth) {
+    if (auth) await signOut(auth);
+    return;
+  }
+  demoSignedIn = false;
+  demoListeners.forEach((listener) => listener(null));
+}
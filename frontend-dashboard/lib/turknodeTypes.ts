@@ -0,0 +1,310 @@
+// Document shapes shared by every data backend. Timestamps are Dates, geo points are
+// { lat, lng } and references are DocumentRef instances, whichever store they came from.
+
+export type UserProfileDoc = {
+  uid: string;
+  email: string;
+  displayName: string;
+  photoUrl?: string;
+  role: 'volunteer' | 'manager' | 'organization';
+  bio: string;
+  location: string;
+  interests: string[];
+  skills: string[];
+  availableForProjects: boolean;
+  hoursContributed: number;
+  completedProjects: number;
+  impactScore: number;
+  badgesEarned: string[];
+  notificationPrefs: {
+    projectInvites: boolean;
+    milestones: boolean;
+    badges: boolean;
+    messages: boolean;
+  };
+  profileCompletion: number;
+};
+
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+// A pointer to another document, e.g. new DocumentRef('projects/abc123').
+export class DocumentRef {
+  constructor(readonly path: string) {}
+}
+
+// Project lifecycle as tracked by the orchestrator projects API.
+export type ProjectStatus = 'OPEN' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+// 'open' projects let volunteers join directly; 'application' projects take applications that
+// the project lead accepts or rejects.
+export type ProjectJoinPolicy = 'open' | 'application';
+
+export type ProjectDoc = {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  location: string;
+  skillsRequired: string[];
+  startDate: string;
+  endDate: string;
+  // What the project measures, e.g. "Trees planted".
+  impactMetric: string;
+  // Numeric goal for impactMetric, set by the project lead.
+  impactTarget?: number;
+  // Sum of metricQuantity over verified contributions, kept up to date by reviewContribution.
+  impactProgress: number;
+  status: 'active' | 'completed' | 'cancelled';
+  joinPolicy: ProjectJoinPolicy;
+  // Task titles assigned to each volunteer whose application the lead accepts.
+  onboardingTasks: string[];
+  // Exact orchestrator status for projects shared with the orchestrator (see lib/projectService).
+  lifecycleStatus?: ProjectStatus;
+  participants: string[];
+  participantCount: number;
+  projectLead: string;
+  organizationId?: string;
+  rolesOpen?: number;
+  pilotData?: boolean;
+  coordinates?: GeoPoint;
+};
+
+export type OrganizationDoc = {
+  id: string;
+  name: string;
+  contactEmail: string;
+  region: string;
+  missionFocus: string[];
+  verified: boolean;
+  createdAt?: Date;
+};
+
+export type CreateProjectInput = {
+  title: string;
+  description: string;
+  category: string;
+  location: string;
+  skillsRequired: string[];
+  startDate: string;
+  endDate: string;
+  impactMetric: string;
+  impactTarget?: number;
+  // Defaults to 'open'.
+  joinPolicy?: ProjectJoinPolicy;
+  onboardingTasks?: string[];
+  projectLead: string;
+  coordinates?: GeoPoint;
+};
+
+// pending -> verified | rejected | needs_info; needs_info -> pending when the volunteer adds details.
+export type ContributionVerification = 'pending' | 'verified' | 'rejected' | 'needs_info';
+
+export type ContributionDoc = {
+  id: string;
+  uid: string;
+  projectId: string;
+  projectTitle: string;
+  hours: number;
+  notes: string;
+  completedTask: boolean;
+  // Amount of the project's impactMetric this contribution delivered (e.g. 12 trees planted).
+  metricQuantity?: number;
+  // impact_ledger transaction ID; absent for hours that were not recorded on the ledger.
+  transactionId?: string;
+  // Proof uploaded to Firebase Storage (see lib/evidenceUpload).
+  evidenceUrl?: string;
+  evidenceContentType?: string;
+  volunteerName?: string;
+  // Copied from the project so leads can query the contributions they review.
+  projectLeadEmail?: string;
+  // Only verified hours count toward the profile totals and badges.
+  verification: ContributionVerification;
+  verificationNote?: string;
+  volunteerResponse?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt?: Date;
+};
+
+export type NotificationDoc = {
+  id: string;
+  uid: string;
+  type: 'invite' | 'milestone' | 'badge' | 'message' | 'system';
+  title: string;
+  body: string;
+  read: boolean;
+  createdAt?: Date;
+};
+
+export type EventStatus = 'scheduled' | 'cancelled';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type EventRecurrence = {
+  frequency: RecurrenceFrequency;
+  // Repeats every `interval` days, weeks or months.
+  interval: number;
+  // The last day an occurrence may start; the series has no end when unset.
+  until?: Date;
+  // IANA time zone the series keeps its wall-clock time in, so a 6pm event stays at 6pm
+  // across daylight saving changes.
+  timeZone: string;
+  // Keys of skipped occurrences (see occurrenceKey in eventRecurrence).
+  exceptions: string[];
+};
+
+// An open check-in window for one occurrence of an event. Every volunteer can read events, so
+// the code itself is kept in checkInCodes, which only project leads read.
+export type EventCheckIn = {
+  occurrenceKey: string;
+  // Volunteers can check themselves in until then.
+  closesAt: Date;
+};
+
+// Stored as checkInCodes/<code>, where the code is the short code volunteers type in and the
+// check-in QR code links to.
+export type CheckInCodeDoc = EventCheckIn & {
+  id: string;
+  eventId: string;
+};
+
+export type EventDoc = {
+  id: string;
+  title: string;
+  description: string;
+  location: string;
+  startsAt: Date;
+  endsAt?: Date;
+  category: string;
+  rsvps: string[];
+  // Maximum number of RSVPs; unlimited when unset.
+  capacity?: number;
+  // Volunteers waiting for a spot on a full event, first come first served.
+  waitlist: string[];
+  status: EventStatus;
+  // Set for repeating events; startsAt and endsAt describe the first occurrence.
+  recurrence?: EventRecurrence;
+  checkIn?: EventCheckIn;
+  projectId?: string;
+  type?: 'meeting' | 'training' | 'community';
+  organizerUid?: string;
+  updatedAt?: Date;
+};
+
+export type AttendanceMethod = 'code' | 'manual';
+
+// A volunteer who showed up to one occurrence of an event. Attendance is kept apart from RSVPs,
+// so walk-ins count and no-shows can be measured.
+export type AttendanceDoc = {
+  id: string;
+  eventId: string;
+  // See occurrenceKey in eventRecurrence.
+  occurrenceKey: string;
+  uid: string;
+  volunteerName: string;
+  // 'code' when the volunteer checked in with the event code, 'manual' when the organizer did.
+  method: AttendanceMethod;
+  checkedInAt?: Date;
+  checkedInBy?: string;
+  // Hours credited for attending, as a verified contribution. contributionId is set when the
+  // contribution is added and creditedHours once it is verified.
+  creditedHours?: number;
+  contributionId?: string;
+};
+
+export type ApplicationDoc = {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  applicantUid: string;
+  applicantName: string;
+  applicantEmail: string;
+  availability: string;
+  message: string;
+  // Percentage of the project's required skills listed on the applicant's profile when applying.
+  skillsMatch: number;
+  // 'saved' is the lead setting an application aside; the volunteer still sees it as in review.
+  state: 'pending' | 'saved' | 'accepted' | 'rejected';
+  // Shared with the volunteer when the lead accepts or rejects the application.
+  decisionNote?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt?: Date;
+  projectLeadEmail: string;
+};
+
+export type TaskDoc = {
+  id: string;
+  projectId: string;
+  projectTitle: string;
+  title: string;
+  assignedVolunteerUid: string;
+  assignedVolunteerName: string;
+  dueDate: string;
+  priority: 'low' | 'medium' | 'high';
+  status: 'todo' | 'in_progress' | 'done' | 'overdue';
+  createdAt?: Date;
+  updatedAt?: Date;
+  projectLeadEmail: string;
+};
+
+// What a badge counts. Category filters apply to the project (contributions) or event category.
+export type BadgeMetric = 'hours' | 'completedTasks' | 'contributions' | 'streakWeeks' | 'eventsAttended';
+
+export type BadgeIcon = 'award' | 'clock' | 'users' | 'book' | 'leaf' | 'flame' | 'calendar' | 'star';
+
+export type BadgeTier = {
+  name: string;
+  threshold: number;
+};
+
+// A badge defined as data in the badgeDefinitions collection (see lib/badgeRules).
+export type BadgeDefinitionDoc = {
+  id: string;
+  name: string;
+  description: string;
+  icon: BadgeIcon;
+  metric: BadgeMetric;
+  // Empty means every category counts.
+  categories: string[];
+  // Ascending thresholds; a single tier is a plain badge.
+  tiers: BadgeTier[];
+  active: boolean;
+  updatedAt?: Date;
+};
+
+// A volunteer's award for one badge, stored in the badges collection as {uid}_{badgeId}.
+export type BadgeAwardDoc = {
+  id: string;
+  uid: string;
+  badgeId: string;
+  // Display label, also kept in UserProfileDoc.badgesEarned.
+  name: string;
+  tierIndex: number;
+  earnedAt?: Date;
+  // The project of the contribution that reached the tier, when there is one.
+  projectId?: string;
+  projectTitle?: string;
+  // The definition's updatedAt when this award was evaluated.
+  definitionUpdatedAt?: Date;
+};
+
+// What a contribution is scored on; each has a points weight in the impact score model.
+export type ImpactType = 'hours' | 'completedTask';
+
+// The impact score model (see lib/impactScore), stored as impactScoreModels/current.
+export type ImpactScoreModelDoc = {
+  // Points per verified hour and per completed task.
+  impactTypeWeights: Record<ImpactType, number>;
+  verificationMultipliers: Record<ContributionVerification, number>;
+  // Multipliers by project category, matched case-insensitively; other categories use 1.
+  categoryWeights: Record<string, number>;
+  // A contribution's points halve every recencyHalfLifeDays (0 turns decay off), but never drop
+  // below recencyFloor times their undecayed value.
+  recencyHalfLifeDays: number;
+  recencyFloor: number;
+  updatedAt?: Date;
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateBadge, type BadgeActivity } from '../lib/badgeRules';
+import type { BadgeDefinitionDoc, ContributionDoc, EventDoc } from '../lib/turknodeTypes';
+
+function definition(overrides: Partial<BadgeDefinitionDoc> = {}): BadgeDefinitionDoc {
+  return {
+    id: 'hours',
+    name: 'Steady Contributor',
+    description: '',
+    icon: 'clock',
+    metric: 'hours',
+    categories: [],
+    tiers: [
+      { name: 'Bronze', threshold: 5 },
+      { name: 'Silver', threshold: 10 },
+    ],
+    active: true,
+    ...overrides,
+  };
+}
+
+function contribution(id: string, hours: number, createdAt: string, projectId = 'p1'): ContributionDoc {
+  return {
+    id,
+    uid: 'v1',
+    projectId,
+    projectTitle: '',
+    hours,
+    notes: '',
+    completedTask: false,
+    verification: 'verified',
+    createdAt: new Date(createdAt),
+  } as ContributionDoc;
+}
+
+function activity(overrides: Partial<BadgeActivity> = {}): BadgeActivity {
+  return { contributions: [], projectCategories: {}, attendedEvents: [], ...overrides };
+}
+
+describe('evaluateBadge', () => {
+  it('reports the tier reached, progress to the next and the contribution that reached it', () => {
+    const result = evaluateBadge(
+      definition(),
+      activity({
+        contributions: [
+          contribution('c2', 4, '2026-02-01T00:00:00Z'),
+          contribution('c1', 3, '2026-01-01T00:00:00Z'),
+        ],
+      })
+    );
+
+    expect(result.value).toBe(7);
+    expect(result.tierIndex).toBe(0);
+    expect(result.nextTier?.name).toBe('Silver');
+    expect(result.progress).toBeCloseTo(0.4);
+    expect(result.reachedBy?.id).toBe('c2');
+  });
+
+  it('counts only contributions on projects in the badge categories', () => {
+    const result = evaluateBadge(
+      definition({ categories: ['environment'] }),
+      activity({
+        contributions: [contribution('c1', 6, '2026-01-01T00:00:00Z', 'p1'), contribution('c2', 6, '2026-01-02T00:00:00Z', 'p2')],
+        projectCategories: { p1: 'Environment', p2: 'Education' },
+      })
+    );
+
+    expect(result.value).toBe(6);
+    expect(result.tierIndex).toBe(0);
+  });
+
+  it('measures the longest run of consecutive weeks', () => {
+    const result = evaluateBadge(
+      definition({ metric: 'streakWeeks', tiers: [{ name: '', threshold: 3 }] }),
+      activity({
+        contributions: [
+          contribution('c1', 1, '2026-01-05T00:00:00Z'),
+          contribution('c2', 1, '2026-01-12T00:00:00Z'),
+          contribution('c3', 1, '2026-01-19T00:00:00Z'),
+          contribution('c4', 1, '2026-02-16T00:00:00Z'),
+        ],
+      })
+    );
+
+    expect(result.value).toBe(3);
+    expect(result.progress).toBe(1);
+    expect(result.reachedBy?.id).toBe('c3');
+  });
+
+  it('counts attended events of the badge categories', () => {
+    const events = [{ category: 'Environment' }, { category: 'Education' }, { category: 'environment' }] as EventDoc[];
+    const result = evaluateBadge(
+      definition({ metric: 'eventsAttended', categories: ['Environment'], tiers: [{ name: '', threshold: 3 }] }),
+      activity({ attendedEvents: events })
+    );
+
+    expect(result.value).toBe(2);
+    expect(result.tierIndex).toBe(-1);
+    expect(result.reachedBy).toBeUndefined();
+  });
+});
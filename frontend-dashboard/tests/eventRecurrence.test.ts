@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { expandEvents, occurrenceKey } from '../lib/eventRecurrence';
+import type { EventDoc } from '../lib/turknodeTypes';
+
+function event(overrides: Partial<EventDoc> = {}): EventDoc {
+  return {
+    id: 'e1',
+    title: 'Planting day',
+    description: '',
+    location: 'Park',
+    startsAt: new Date('2026-03-02T17:00:00Z'),
+    endsAt: new Date('2026-03-02T19:00:00Z'),
+    category: 'Environment',
+    rsvps: [],
+    waitlist: [],
+    status: 'scheduled',
+    ...overrides,
+  };
+}
+
+const isoStarts = (rows: ReturnType<typeof expandEvents>) => rows.map((row) => row.startsAt.toISOString());
+
+describe('expandEvents', () => {
+  it('lists a one-off event only inside the window', () => {
+    const single = event();
+
+    expect(expandEvents([single], new Date('2026-03-01'), new Date('2026-03-03'))).toHaveLength(1);
+    expect(expandEvents([single], new Date('2026-03-03'), new Date('2026-03-10'))).toHaveLength(0);
+  });
+
+  it('keeps the wall-clock time of a weekly series across a daylight saving change', () => {
+    const weekly = event({
+      recurrence: { frequency: 'weekly', interval: 1, timeZone: 'America/New_York', exceptions: [] },
+    });
+
+    const rows = expandEvents([weekly], new Date('2026-03-01'), new Date('2026-03-17'));
+
+    // New York moves from UTC-5 to UTC-4 on 2026-03-08, so 12:00 local shifts from 17:00 to 16:00 UTC.
+    expect(isoStarts(rows)).toEqual(['2026-03-02T17:00:00.000Z', '2026-03-09T16:00:00.000Z', '2026-03-16T16:00:00.000Z']);
+    expect(rows[1].endsAt?.toISOString()).toBe('2026-03-09T18:00:00.000Z');
+  });
+
+  it('skips exceptions and stops at the series end', () => {
+    const daily = event({
+      recurrence: {
+        frequency: 'daily',
+        interval: 1,
+        timeZone: 'UTC',
+        exceptions: [occurrenceKey(new Date('2026-03-03T17:00:00Z'))],
+        until: new Date('2026-03-04T23:59:59Z'),
+      },
+    });
+
+    expect(isoStarts(expandEvents([daily], new Date('2026-03-01'), new Date('2026-03-31')))).toEqual([
+      '2026-03-02T17:00:00.000Z',
+      '2026-03-04T17:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the series day', () => {
+    const monthly = event({
+      startsAt: new Date('2026-01-31T12:00:00Z'),
+      endsAt: undefined,
+      recurrence: { frequency: 'monthly', interval: 1, timeZone: 'UTC', exceptions: [] },
+    });
+
+    expect(isoStarts(expandEvents([monthly], new Date('2026-01-01'), new Date('2026-04-01')))).toEqual([
+      '2026-01-31T12:00:00.000Z',
+      '2026-03-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('merges several events in start order', () => {
+    const later = event({ id: 'e2', startsAt: new Date('2026-03-02T20:00:00Z'), endsAt: undefined });
+    const rows = expandEvents([later, event()], new Date('2026-03-01'), new Date('2026-03-03'));
+
+    expect(rows.map((row) => row.event.id)).toEqual(['e1', 'e2']);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { EVENT_CANCELLED, fillFromWaitlist, rsvpPlacement } from '../lib/turknodeRepository';
+
+const seats = (overrides: Partial<Parameters<typeof rsvpPlacement>[0]> = {}) => ({
+  status: 'scheduled' as const,
+  rsvps: [] as string[],
+  waitlist: [] as string[],
+  ...overrides,
+});
+
+describe('rsvpPlacement', () => {
+  it('confirms while the event has room or no capacity', () => {
+    expect(rsvpPlacement(seats({ capacity: 2, rsvps: ['a'] }), 'b')).toBe('confirmed');
+    expect(rsvpPlacement(seats({ rsvps: ['a', 'b', 'c'] }), 'd')).toBe('confirmed');
+  });
+
+  it('waitlists once the event is full', () => {
+    expect(rsvpPlacement(seats({ capacity: 1, rsvps: ['a'] }), 'b')).toBe('waitlisted');
+  });
+
+  it('keeps volunteers where they already are', () => {
+    expect(rsvpPlacement(seats({ capacity: 1, rsvps: ['a'] }), 'a')).toBe('confirmed');
+    expect(rsvpPlacement(seats({ capacity: 1, rsvps: ['a'], waitlist: ['b'] }), 'b')).toBe('waitlisted');
+    expect(rsvpPlacement(seats({ status: 'cancelled', rsvps: ['a'] }), 'a')).toBe('confirmed');
+  });
+
+  it('throws for new RSVPs to a cancelled event', () => {
+    expect(() => rsvpPlacement(seats({ status: 'cancelled' }), 'a')).toThrow(EVENT_CANCELLED);
+  });
+});
+
+describe('fillFromWaitlist', () => {
+  it('promotes waitlisted volunteers in order into free spots', () => {
+    expect(fillFromWaitlist(seats({ capacity: 3, rsvps: ['a'], waitlist: ['b', 'c', 'd'] }))).toEqual({
+      rsvps: ['a', 'b', 'c'],
+      waitlist: ['d'],
+      promoted: ['b', 'c'],
+    });
+  });
+
+  it('promotes everyone when the capacity is removed', () => {
+    expect(fillFromWaitlist(seats({ rsvps: ['a'], waitlist: ['b', 'c'] })).promoted).toEqual(['b', 'c']);
+  });
+
+  it('promotes nobody from a full or cancelled event', () => {
+    expect(fillFromWaitlist(seats({ capacity: 1, rsvps: ['a'], waitlist: ['b'] })).promoted).toEqual([]);
+    expect(fillFromWaitlist(seats({ status: 'cancelled', capacity: 5, waitlist: ['b'] })).promoted).toEqual([]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMPACT_SCORE_MODEL, computeImpactScore } from '../lib/impactScore';
+import type { ContributionDoc } from '../lib/turknodeTypes';
+
+const now = new Date('2026-06-01T00:00:00Z');
+
+function contribution(overrides: Partial<ContributionDoc> = {}): ContributionDoc {
+  return {
+    id: 'c1',
+    uid: 'v1',
+    projectId: 'p1',
+    projectTitle: 'Tree Renewal',
+    hours: 10,
+    notes: '',
+    completedTask: false,
+    verification: 'verified',
+    createdAt: now,
+    ...overrides,
+  } as ContributionDoc;
+}
+
+describe('computeImpactScore', () => {
+  it('weights verified hours and completed tasks', () => {
+    const result = computeImpactScore([contribution({ completedTask: true })], {}, DEFAULT_IMPACT_SCORE_MODEL, now);
+
+    expect(result.contributions[0].points).toBe(10);
+    expect(result.score).toBe(10);
+  });
+
+  it('gives pending and rejected hours no points', () => {
+    const result = computeImpactScore(
+      [contribution({ verification: 'pending' }), contribution({ id: 'c2', verification: 'rejected' })],
+      {},
+      DEFAULT_IMPACT_SCORE_MODEL,
+      now
+    );
+
+    expect(result.score).toBe(0);
+  });
+
+  it('applies category weights case-insensitively', () => {
+    const model = { ...DEFAULT_IMPACT_SCORE_MODEL, categoryWeights: { Environment: 1.5 } };
+    const result = computeImpactScore([contribution()], { p1: 'environment' }, model, now);
+
+    expect(result.contributions[0].categoryMultiplier).toBe(1.5);
+    expect(result.score).toBe(12);
+  });
+
+  it('halves older contributions down to the recency floor', () => {
+    const yearOld = contribution({ createdAt: new Date('2025-06-01T00:00:00Z') });
+    const ancient = contribution({ id: 'c2', createdAt: new Date('2020-06-01T00:00:00Z') });
+    const result = computeImpactScore([yearOld, ancient], {}, { ...DEFAULT_IMPACT_SCORE_MODEL, recencyFloor: 0.25 }, now);
+
+    expect(result.contributions[0].recencyMultiplier).toBe(0.5);
+    expect(result.contributions[1].recencyMultiplier).toBe(0.25);
+    expect(result.score).toBe(6);
+  });
+});
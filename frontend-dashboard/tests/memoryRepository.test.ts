@@ -0,0 +1,213 @@
+import { describe, expect, it } from 'vitest';
+import { createMemoryRepository, type MemoryStore } from '../lib/memoryRepository';
+import { APPLICATION_DECIDED, APPLICATION_REQUIRED, EVENT_CANCELLED, applicationId } from '../lib/turknodeRepository';
+import { onInvalidDocument, type InvalidDocumentReport } from '../lib/turknodeSchemas';
+
+// The memory backend stands in for Firestore in demos and local development, so it must give
+// the same answers as the transactions in firestoreRepository.
+
+function project(overrides: Record<string, unknown> = {}) {
+  return {
+    title: 'Tree Renewal',
+    description: '',
+    category: 'Environment',
+    location: 'Remote',
+    skillsRequired: [],
+    startDate: '2026-01-01',
+    endDate: '2026-12-31',
+    impactMetric: 'Trees planted',
+    impactProgress: 0,
+    status: 'active',
+    joinPolicy: 'open',
+    onboardingTasks: [],
+    participants: [],
+    participantCount: 0,
+    projectLead: 'lead@example.org',
+    ...overrides,
+  };
+}
+
+function event(overrides: Record<string, unknown> = {}) {
+  return {
+    title: 'Planting day',
+    description: '',
+    location: 'Park',
+    startsAt: new Date('2026-05-01T09:00:00Z'),
+    category: 'Environment',
+    rsvps: [],
+    waitlist: [],
+    status: 'scheduled',
+    ...overrides,
+  };
+}
+
+function application(overrides: Record<string, unknown> = {}) {
+  return {
+    projectId: 'p1',
+    projectTitle: 'Tree Renewal',
+    applicantUid: 'v1',
+    applicantName: 'Ada',
+    applicantEmail: 'ada@example.org',
+    availability: 'Weekends',
+    message: '',
+    skillsMatch: 50,
+    state: 'pending',
+    createdAt: new Date('2026-01-02T00:00:00Z'),
+    projectLeadEmail: 'lead@example.org',
+    ...overrides,
+  };
+}
+
+function repositoryWith(initialData: MemoryStore) {
+  return createMemoryRepository({ initialData });
+}
+
+describe('memory repository: joining projects', () => {
+  it('adds the volunteer to an open project once', async () => {
+    const repository = repositoryWith({ projects: { p1: project() } });
+
+    await repository.joinProject('v1', 'p1');
+    await repository.joinProject('v1', 'p1');
+
+    const [row] = await repository.getProjectsByIds(['p1']);
+    expect(row.participants).toEqual(['v1']);
+    expect(row.participantCount).toBe(1);
+    expect((await repository.listProjectsForMember('v1')).map((item) => item.id)).toEqual(['p1']);
+  });
+
+  it('refuses projects that take applications or are closed', async () => {
+    const repository = repositoryWith({
+      projects: {
+        p1: project({ joinPolicy: 'application' }),
+        p2: project({ status: 'completed' }),
+      },
+    });
+
+    await expect(repository.joinProject('v1', 'p1')).rejects.toThrow(APPLICATION_REQUIRED);
+    await expect(repository.joinProject('v1', 'p2')).rejects.toThrow('no longer accepting volunteers');
+    await expect(repository.joinProject('v1', 'missing')).rejects.toThrow('Project not found.');
+  });
+});
+
+describe('memory repository: RSVPs and the waitlist', () => {
+  it('confirms RSVPs until the event is full, then waitlists', async () => {
+    const repository = repositoryWith({ events: { e1: event({ capacity: 1 }) } });
+
+    expect(await repository.rsvpToEvent('v1', 'e1')).toBe('confirmed');
+    expect(await repository.rsvpToEvent('v2', 'e1')).toBe('waitlisted');
+    expect(await repository.rsvpToEvent('v2', 'e1')).toBe('waitlisted');
+
+    const row = await repository.getEvent('e1');
+    expect(row?.rsvps).toEqual(['v1']);
+    expect(row?.waitlist).toEqual(['v2']);
+  });
+
+  it('promotes the first waitlisted volunteer when a spot opens', async () => {
+    const repository = repositoryWith({
+      events: { e1: event({ capacity: 1, rsvps: ['v1'], waitlist: ['v2', 'v3'] }) },
+    });
+
+    expect(await repository.cancelRsvp('v1', 'e1')).toEqual(['v2']);
+
+    const row = await repository.getEvent('e1');
+    expect(row?.rsvps).toEqual(['v2']);
+    expect(row?.waitlist).toEqual(['v3']);
+  });
+
+  it('fills raised capacity from the waitlist', async () => {
+    const repository = repositoryWith({
+      events: { e1: event({ capacity: 3, rsvps: ['v1'], waitlist: ['v2', 'v3', 'v4'] }) },
+    });
+
+    expect(await repository.promoteWaitlist('e1')).toEqual(['v2', 'v3']);
+    expect((await repository.getEvent('e1'))?.waitlist).toEqual(['v4']);
+  });
+
+  it('rejects RSVPs to cancelled events', async () => {
+    const repository = repositoryWith({ events: { e1: event({ status: 'cancelled' }) } });
+
+    await expect(repository.rsvpToEvent('v1', 'e1')).rejects.toThrow(EVENT_CANCELLED);
+  });
+});
+
+describe('memory repository: application decisions', () => {
+  const id = applicationId('v1', 'p1');
+
+  it('adds an accepted applicant to the project', async () => {
+    const repository = repositoryWith({
+      projects: { p1: project({ joinPolicy: 'application' }) },
+      applications: { [id]: application() },
+    });
+
+    const row = await repository.decideApplication(id, { state: 'accepted', reviewedBy: 'lead@example.org' });
+
+    expect(row.state).toBe('accepted');
+    const [updated] = await repository.getProjectsByIds(['p1']);
+    expect(updated.participants).toEqual(['v1']);
+  });
+
+  it('does not decide an application twice', async () => {
+    const repository = repositoryWith({
+      projects: { p1: project({ joinPolicy: 'application' }) },
+      applications: { [id]: application({ state: 'rejected' }) },
+    });
+
+    await expect(repository.decideApplication(id, { state: 'accepted' })).rejects.toThrow(APPLICATION_DECIDED);
+    expect((await repository.getProjectsByIds(['p1']))[0].participants).toEqual([]);
+  });
+
+  it('lets a rejected volunteer apply again but not an accepted one', async () => {
+    const repository = repositoryWith({
+      applications: {
+        [id]: application({ state: 'rejected' }),
+        [applicationId('v2', 'p1')]: application({ applicantUid: 'v2', state: 'accepted' }),
+      },
+    });
+    type NewApplication = Parameters<typeof repository.submitApplication>[0];
+
+    await repository.submitApplication(application({ createdAt: new Date('2026-02-01T00:00:00Z') }) as NewApplication);
+    await expect(repository.submitApplication(application({ applicantUid: 'v2' }) as NewApplication)).rejects.toThrow(
+      'already accepted'
+    );
+
+    const page = await repository.listApplicationsForLeadPage('Lead@Example.org ', {});
+    expect(page.items.map((row) => `${row.applicantUid}:${row.state}`)).toEqual(['v1:pending', 'v2:accepted']);
+  });
+});
+
+describe('memory repository: live contributions', () => {
+  it('delivers the contributions again when a lead reviews one', async () => {
+    const repository = repositoryWith({
+      contributions: {
+        c1: { uid: 'v1', projectId: 'p1', projectTitle: '', hours: 2, notes: '', completedTask: false, verification: 'pending' },
+      },
+    });
+    const deliveries: string[][] = [];
+    const unsubscribe = repository.subscribeToContributions('v1', (rows) => {
+      deliveries.push(rows.map((row) => row.verification));
+    });
+
+    await Promise.resolve();
+    await repository.updateContributionVerification('c1', ['pending'], { verification: 'verified' });
+    unsubscribe();
+
+    expect(deliveries).toEqual([['pending'], ['verified']]);
+  });
+});
+
+describe('memory repository: invalid documents', () => {
+  it('reports documents that fail validation and leaves them out', async () => {
+    const repository = repositoryWith({
+      projects: { p1: project(), p2: project({ title: undefined }) },
+    });
+    const reports: InvalidDocumentReport[] = [];
+    const stopReporting = onInvalidDocument((report) => reports.push(report));
+
+    const rows = await repository.getProjectsByIds(['p1', 'p2']);
+    stopReporting();
+
+    expect(rows.map((row) => row.id)).toEqual(['p1']);
+    expect(reports.map((report) => `${report.collectionName}/${report.id}`)).toEqual(['projects/p2']);
+    expect(reports[0].issues[0]).toMatch(/^title: /);
+  });
+});
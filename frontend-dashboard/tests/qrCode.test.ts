@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { encodeQr } from '../lib/qrCode';
+
+// A 7x7 finder pattern: dark border, light ring, dark 3x3 centre.
+function hasFinderAt(modules: boolean[][], top: number, left: number) {
+  for (let y = 0; y < 7; y += 1) {
+    for (let x = 0; x < 7; x += 1) {
+      const ring = Math.max(Math.abs(y - 3), Math.abs(x - 3));
+      if (modules[top + y][left + x] !== (ring !== 2)) return false;
+    }
+  }
+  return true;
+}
+
+// The 15 format bits are drawn twice; read both copies in bit order.
+function formatCopies(modules: boolean[][]) {
+  const size = modules.length;
+  const first: boolean[] = [];
+  const second: boolean[] = [];
+  for (let i = 0; i <= 5; i += 1) first.push(modules[8][i]);
+  first.push(modules[8][7], modules[8][8], modules[7][8]);
+  for (let i = 9; i < 15; i += 1) first.push(modules[14 - i][8]);
+  for (let i = 0; i < 8; i += 1) second.push(modules[size - 1 - i][8]);
+  for (let i = 8; i < 15; i += 1) second.push(modules[8][size - 15 + i]);
+  return { first, second };
+}
+
+describe('encodeQr', () => {
+  it('picks the smallest version that fits the text', () => {
+    expect(encodeQr('a'.repeat(14))).toHaveLength(21);
+    expect(encodeQr('a'.repeat(15))).toHaveLength(25);
+    expect(encodeQr('a'.repeat(213))).toHaveLength(57);
+  });
+
+  it('draws the finder patterns, timing patterns and dark module', () => {
+    const modules = encodeQr('https://turknode.org/volunteer-dashboard?checkin=ABC123');
+    const size = modules.length;
+
+    expect(modules.every((row) => row.length === size)).toBe(true);
+    expect(hasFinderAt(modules, 0, 0)).toBe(true);
+    expect(hasFinderAt(modules, 0, size - 7)).toBe(true);
+    expect(hasFinderAt(modules, size - 7, 0)).toBe(true);
+    for (let i = 8; i < size - 8; i += 1) {
+      expect(modules[6][i]).toBe(i % 2 === 0);
+      expect(modules[i][6]).toBe(i % 2 === 0);
+    }
+    expect(modules[size - 8][8]).toBe(true);
+  });
+
+  it('writes matching copies of the format information', () => {
+    const { first, second } = formatCopies(encodeQr('ABC123'));
+
+    expect(second).toEqual(first);
+  });
+
+  it('is deterministic', () => {
+    expect(encodeQr('ABC123')).toEqual(encodeQr('ABC123'));
+  });
+
+  it('rejects text longer than version 10 holds', () => {
+    expect(() => encodeQr('a'.repeat(214))).toThrow('Text is too long for a QR code.');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { buildServiceTranscript } from '../lib/serviceTranscript';
+import type { ContributionDoc, ProjectDoc } from '../lib/turknodeTypes';
+
+const project = { id: 'p1', title: 'Tree Renewal', projectLead: 'lead@example.org' } as ProjectDoc;
+
+function contribution(id: string, overrides: Partial<ContributionDoc> = {}): ContributionDoc {
+  return {
+    id,
+    uid: 'v1',
+    projectId: 'p1',
+    projectTitle: 'Tree Renewal',
+    hours: 2,
+    notes: '',
+    completedTask: false,
+    verification: 'verified',
+    reviewedBy: 'lead@example.org',
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('buildServiceTranscript', () => {
+  it('counts only hours the project lead verified', () => {
+    const transcript = buildServiceTranscript(
+      { uid: 'v1', displayName: 'Ada' },
+      [
+        contribution('c1', { reviewedBy: ' Lead@Example.org' }),
+        contribution('c2', { reviewedBy: 'v1@example.org', hours: 40 }),
+        contribution('c3', { reviewedBy: undefined, hours: 10 }),
+        contribution('c4', { verification: 'pending', hours: 5 }),
+      ],
+      [project],
+      []
+    );
+
+    expect(transcript.totalHours).toBe(2);
+    expect(transcript.projects).toEqual([
+      expect.objectContaining({ projectId: 'p1', lead: 'lead@example.org', hours: 2, contributions: 1 }),
+    ]);
+  });
+
+  it('leaves out hours on projects without a lead', () => {
+    const transcript = buildServiceTranscript(
+      { uid: 'v1', displayName: 'Ada' },
+      [contribution('c1', { reviewedBy: '' })],
+      [{ ...project, projectLead: '' }],
+      []
+    );
+
+    expect(transcript.projects).toEqual([]);
+  });
+});